@@ -3,29 +3,48 @@ const esbuild = require('esbuild');
 const production = process.argv.includes('--production');
 const watch = process.argv.includes('--watch');
 
+const sharedOptions = {
+  bundle: true,
+  format: 'cjs',
+  minify: production,
+  sourcemap: !production,
+  sourcesContent: false,
+  platform: 'node',
+  external: ['vscode'], // vscode 模块由 VS Code 运行时提供
+  logLevel: 'info',
+  plugins: [
+    /* 可添加自定义插件 */
+  ],
+};
+
 async function main() {
-  const ctx = await esbuild.context({
-    entryPoints: ['src/extension.ts'],
-    bundle: true,
-    format: 'cjs',
-    minify: production,
-    sourcemap: !production,
-    sourcesContent: false,
-    platform: 'node',
-    outfile: 'out/extension.js',
-    external: ['vscode'], // vscode 模块由 VS Code 运行时提供
-    logLevel: 'info',
-    plugins: [
-      /* 可添加自定义插件 */
-    ],
-  });
+  const contexts = await Promise.all([
+    esbuild.context({
+      ...sharedOptions,
+      entryPoints: ['src/extension.ts'],
+      outfile: 'out/extension.js',
+    }),
+    // 流程分析在 worker_threads 中运行，需要单独打包
+    esbuild.context({
+      ...sharedOptions,
+      entryPoints: ['src/analyzers/flow-analysis-worker.ts'],
+      outfile: 'out/flow-analysis-worker.js',
+    }),
+    // 命令行入口 (package.json bin: agl-essentials)，不依赖 vscode
+    esbuild.context({
+      ...sharedOptions,
+      entryPoints: ['src/cli/agl-essentials.ts'],
+      outfile: 'out/cli.js',
+      banner: { js: '#!/usr/bin/env node' },
+    }),
+  ]);
 
   if (watch) {
-    await ctx.watch();
+    await Promise.all(contexts.map(ctx => ctx.watch()));
     console.log('Watching for changes...');
   } else {
-    await ctx.rebuild();
-    await ctx.dispose();
+    await Promise.all(contexts.map(ctx => ctx.rebuild()));
+    await Promise.all(contexts.map(ctx => ctx.dispose()));
   }
 }
 
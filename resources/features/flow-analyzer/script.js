@@ -4,8 +4,12 @@ const vscode = acquireVsCodeApi();
 let currentEndpoint = null;
 let currentMiddlewares = [];
 let currentProperties = [];
+let currentAnalysisMode = 'normal'; // 'normal' follows run(), 'panic' follows panic()
 let zoomLevel = 1;
 let currentExternalCallsMap = new Map(); // extId -> call data for click navigation
+let currentExternalCallIcons = {}; // lower case call type -> icon (built-in and workspace rules)
+let currentTemplateDefinitions = {}; // template name -> definitions in the config repos
+let currentLibraries = []; // AGL libraries with the copy analyzed (workspace clone or node_modules)
 
 // Pan/Zoom state for diagram
 let panState = {
@@ -101,9 +105,25 @@ function initializeControls() {
         vscode.postMessage({ command: 'refreshAnalysis' });
     });
     
+    document.querySelectorAll('#mode-switch .mode-btn').forEach(btn => {
+        btn.addEventListener('click', () => {
+            if (btn.dataset.mode !== currentAnalysisMode) {
+                vscode.postMessage({ command: 'setAnalysisMode', mode: btn.dataset.mode });
+            }
+        });
+    });
+    
     document.getElementById('search-btn')?.addEventListener('click', () => {
         vscode.postMessage({ command: 'searchInEndpoint' });
     });
+
+    document.getElementById('export-btn')?.addEventListener('click', () => {
+        vscode.postMessage({ command: 'exportAnalysis' });
+    });
+
+    document.getElementById('compare-btn')?.addEventListener('click', () => {
+        vscode.postMessage({ command: 'compareWithRef' });
+    });
     
     document.getElementById('zoom-in-btn')?.addEventListener('click', () => {
         zoomLevel = Math.min(zoomLevel + 0.25, 5);
@@ -320,10 +340,17 @@ window.addEventListener('message', event => {
                     currentExternalCallsMap = new Map(message.content.externalCallsMap);
                 }
                 renderMermaidDiagram(message.content.mermaidDiagram, true);
+                // Incremental re-analysis (source file saved) also carries fresh analysis data
+                if (message.content.middlewares) {
+                    refreshAnalysisData(message.content);
+                }
             } catch (error) {
                 console.error('[FlowAnalyzer WebView] Error handling diagramUpdate:', error);
             }
             break;
+        case 'analysisCancelled':
+            showAnalysisCancelled();
+            break;
         case 'middlewareDetail':
             showMiddlewareDetailSidebar(message.content);
             break;
@@ -344,6 +371,10 @@ window.addEventListener('message', event => {
 
 // Handle analysis result
 async function handleAnalysisResult(data) {
+    currentExternalCallIcons = data.externalCallIcons || {};
+    currentTemplateDefinitions = data.templateDefinitions || {};
+    currentLibraries = data.libraries || [];
+    currentAnalysisMode = data.mode || 'normal';
     currentEndpoint = data.endpoint;
     currentMiddlewares = data.middlewares;
     currentProperties = data.allProperties;
@@ -354,24 +385,72 @@ async function handleAnalysisResult(data) {
     }
     
     try {
-        renderEndpointInfo(data.endpoint);
+        renderEndpointInfo(data.endpoint, data.imported, data.comparison);
+        renderModeSwitch(data.mode, data.panicEnabled);
         await renderMermaidDiagram(data.mermaidDiagram);
         renderMiddlewareChain(data.middlewares);
         renderComponentTree(data.middlewares);
-        renderDataFlow(data.allProperties, data.middlewares, data.allReqTransactionProperties);
-        renderConfigView(data.endpoint, data.middlewares);
+        renderDataFlow(data.allProperties, data.middlewares, data.allReqTransactionProperties, data.dataIssues);
+        renderConfigView(data.endpoint, data.middlewares, data.panicConfig, data.configIssues || []);
+        renderComparison(data.comparison);
     } catch (error) {
         console.error('[FlowAnalyzer WebView] Error in handleAnalysisResult:', error);
     }
 }
 
-// Render endpoint info
-function renderEndpointInfo(endpoint) {
+// Replace the initial loading indicator when the analysis was cancelled before any result arrived
+function showAnalysisCancelled() {
+    const loading = document.querySelector('#mermaid-diagram .loading');
+    if (!loading) {
+        return;
+    }
+    loading.querySelector('.loading-spinner')?.remove();
+    const loadingText = loading.querySelector('.loading-text');
+    if (loadingText) {
+        loadingText.textContent = 'Analysis cancelled. Click 🔄 Refresh to analyze again.';
+    }
+}
+
+// Refresh the non-diagram views after an incremental re-analysis
+function refreshAnalysisData(data) {
+    currentExternalCallIcons = data.externalCallIcons || {};
+    currentTemplateDefinitions = data.templateDefinitions || {};
+    currentLibraries = data.libraries || [];
+    currentAnalysisMode = data.mode || 'normal';
+    currentEndpoint = data.endpoint;
+    currentMiddlewares = data.middlewares;
+    currentProperties = data.allProperties;
+
+    renderMiddlewareChain(data.middlewares);
+    renderComponentTree(data.middlewares);
+    renderDataFlow(data.allProperties, data.middlewares, data.allReqTransactionProperties, data.dataIssues);
+    renderConfigView(data.endpoint, data.middlewares, data.panicConfig, data.configIssues || []);
+    renderComparison(data.comparison);
+}
+
+// Render endpoint info; imported analyses are marked, since they show the code as it was when exported
+function renderEndpointInfo(endpoint, imported, comparison) {
     const info = document.getElementById('endpoint-info');
+    const exportedAt = imported?.exportedAt ? new Date(imported.exportedAt).toLocaleString() : 'unknown date';
+    const importedBadge = imported ? `
+        <span class="imported-badge" title="${escapeHtml(imported.filePath || '')}\nClick 🔄 Refresh to analyze the current code">📥 Imported (exported ${escapeHtml(exportedAt)})</span>` : '';
     info.innerHTML = `
         <span class="method ${endpoint.method.toLowerCase()}">${endpoint.method.toUpperCase()}</span>
-        <span class="uri">${endpoint.endpointUri}</span>
+        <span class="uri">${endpoint.endpointUri}</span>${importedBadge}${comparison ? `
+        <span class="compare-badge" title="Added and removed parts are marked in the diagram and listed in the Changes tab">⇄ Compared with ${escapeHtml(comparison.ref)}<button class="clear-compare-btn" title="Stop comparing">✕</button></span>` : ''}
     `;
+    info.querySelector('.clear-compare-btn')?.addEventListener('click', () => {
+        vscode.postMessage({ command: 'clearComparison' });
+    });
+}
+
+// Render the Normal/Panic switch; only offered when the endpoint has panic enabled
+function renderModeSwitch(mode, panicEnabled) {
+    const modeSwitch = document.getElementById('mode-switch');
+    modeSwitch.style.display = panicEnabled || mode === 'panic' ? 'flex' : 'none';
+    modeSwitch.querySelectorAll('.mode-btn').forEach(btn => {
+        btn.classList.toggle('active', btn.dataset.mode === (mode || 'normal'));
+    });
 }
 
 // Render Mermaid diagram - FIX click handlers
@@ -452,9 +531,21 @@ async function renderMermaidDiagram(diagram, preservePosition = false) {
                     // Find the external call from the data
                     const extCall = findExternalCallByNodeId(parentNodeId, extIndex);
                     if (extCall) {
+                        const definition = findTemplateDefinition(extCall);
+                        const tooltip = definition ? describeTemplateDefinition(definition) : describeMissingTemplates(extCall);
+                        if (tooltip) {
+                            const title = document.createElementNS('http://www.w3.org/2000/svg', 'title');
+                            title.textContent = tooltip;
+                            node.appendChild(title);
+                        }
                         node.addEventListener('click', (e) => {
                             e.stopPropagation();
-                            navigateToExternalCall(null, extCall);
+                            // Alt+click always goes to the call site
+                            if (definition && !e.altKey) {
+                                openFile(definition.filePath, definition.lineNumber, false);
+                            } else {
+                                navigateToExternalCall(null, extCall);
+                            }
                         });
                     }
                     return; // Don't process as middleware node
@@ -495,7 +586,10 @@ async function renderMermaidDiagram(diagram, preservePosition = false) {
                             }
                         } else {
                             const comp = findComponentByNodeId(compNodeId);
-                            if (comp) {
+                            if (comp?.isUnresolved) {
+                                // Nothing to show: go to the require
+                                openFile(comp.parentPath, comp.requireLine || 1, false);
+                            } else if (comp) {
                                 sidebarHistory = [];
                                 currentSidebarItem = null;
                                 showComponentDetailSidebar(comp, false);
@@ -642,6 +736,7 @@ function renderMiddlewareChain(middlewares) {
                 <div class="middleware-name">${mw.name}</div>
                 <div class="middleware-status">
                     ${mw.exists ? '' : '<span class="status-item missing">⚠️ File not found</span>'}
+                    ${mw.entryFunctionMissing ? '<span class="status-item skipped">⏭️ No panic() function</span>' : ''}
                     <span class="status-item reads">📥 ${totalReads} reads</span>
                     <span class="status-item writes">📤 ${totalWrites} writes</span>
                     ${totalExternal > 0 ? `<span class="status-item calls">🌐 ${totalExternal} calls</span>` : ''}
@@ -716,7 +811,7 @@ function renderComponentTreeItems(components, parentPath, depth = 0) {
         const totalExternal = countAllExternalCalls(comp);
         const childrenExternal = totalExternal - ownExternal.length;
         
-        const icon = comp.name?.startsWith('@opus/') ? '🔧' : '📄';
+        const icon = comp.isUnresolved ? '❓' : comp.name?.startsWith('@opus/') ? '🔧' : '📄';
         const hasData = reads.length > 0 || writes.length > 0 || transReads.length > 0 || transWrites.length > 0 || dataUsages.length > 0;
         
         // Store component data for dynamic updates
@@ -724,9 +819,8 @@ function renderComponentTreeItems(components, parentPath, depth = 0) {
         
         return `
             <div class="tree-component" style="margin-left: ${depth * 16}px;" ${compDataAttr}>
-                <div class="tree-comp-header" 
-                     data-filepath="${comp.filePath}" 
-                     data-line="${comp.mainFunctionLine || 1}">
+                <div class="tree-comp-header ${comp.isUnresolved ? 'unresolved' : ''} ${comp.diffChange ? `diff-${comp.diffChange}` : ''}" 
+                     ${getComponentLocationAttributes(comp)}>
                     <span class="collapse-toggle ${hasChildren ? '' : 'empty'}">${hasChildren ? '▶' : '•'}</span>
                     <span class="tree-comp-icon ${hasData ? 'has-data' : ''}">${icon}</span>
                     <span class="tree-comp-name">${comp.displayName || comp.name}</span>
@@ -753,6 +847,15 @@ function renderComponentTreeItems(components, parentPath, depth = 0) {
     }).join('');
 }
 
+/**
+ * data-filepath/data-line of a component header: its main function, or the require of an unresolved module
+ */
+function getComponentLocationAttributes(comp) {
+    return comp.isUnresolved
+        ? `data-filepath="${comp.parentPath}" data-line="${comp.requireLine || 1}" title="Unresolved require: ${escapeHtml(comp.name)}"`
+        : `data-filepath="${comp.filePath}" data-line="${comp.mainFunctionLine || 1}"`;
+}
+
 /**
  * Count all external calls in a component and all its descendants
  */
@@ -820,8 +923,12 @@ function setupTreeEventHandlers() {
                 updateExternalCallBadges(header.closest('.tree-component'), isExpanding);
                 return;
             }
-            // Otherwise find and show component detail - reset history when clicking from tree
             e.stopPropagation();
+            if (header.classList.contains('unresolved')) {
+                openFile(header.dataset.filepath, parseInt(header.dataset.line) || 1, false);
+                return;
+            }
+            // Otherwise find and show component detail - reset history when clicking from tree
             const filePath = header.dataset.filepath;
             const component = findComponentByPath(filePath);
             if (component) {
@@ -913,10 +1020,12 @@ function findInComponents(components, filePath) {
 }
 
 // Render data flow - enhanced with more data types
-function renderDataFlow(properties, middlewares, reqTransactionProperties) {
+function renderDataFlow(properties, middlewares, reqTransactionProperties, dataIssues) {
     const container = document.getElementById('property-list');
     container.innerHTML = '';
     
+    renderDataIssues(dataIssues || [], container);
+    
     // Group by data source type - separate application and library usages
     const dataGroups = {
         'res.locals': { app: [], lib: [] },
@@ -1235,6 +1344,37 @@ function renderDataFlow(properties, middlewares, reqTransactionProperties) {
     });
 }
 
+// Render read-before-write / unused-write issues of the chain at the top of the Data Flow tab
+function renderDataIssues(issues, container) {
+    if (issues.length === 0) return;
+
+    const section = document.createElement('div');
+    section.className = 'data-section data-issues';
+    section.innerHTML = `
+        <div class="data-section-header">
+            <span class="data-section-icon">⚠️</span>
+            <span class="data-section-title">Data Issues</span>
+            <span class="data-section-count">${issues.length}</span>
+        </div>
+        <div class="data-issue-list">
+            ${issues.map(issue => `
+                <div class="clickable-item data-issue ${issue.kind}" data-path="${issue.filePath}" data-line="${issue.lineNumber}" title="${issue.message}">
+                    <span class="data-issue-kind">${issue.kind === 'readBeforeWrite' ? '📥 Read before write' : '📤 Never read'}</span>
+                    <code class="data-issue-property">${issue.source}.${issue.property}</code>
+                    <span class="data-issue-location">${issue.middleware} · ${issue.filePath.split(/[/\\]/).pop()}:${issue.lineNumber}</span>
+                </div>
+            `).join('')}
+        </div>
+    `;
+    container.appendChild(section);
+
+    section.querySelectorAll('.data-issue').forEach(item => {
+        item.addEventListener('click', () => {
+            openFile(item.dataset.path, parseInt(item.dataset.line) || 1, false);
+        });
+    });
+}
+
 function getDataSourceIcon(sourceType) {
     const icons = {
         'res.locals': '💾',
@@ -1609,7 +1749,7 @@ function positionFloatingPanel(panel) {
 }
 
 // Render config view
-function renderConfigView(endpoint, middlewares) {
+function renderConfigView(endpoint, middlewares, panicConfig, configIssues) {
     const container = document.getElementById('config-section');
     
     const configDeps = {
@@ -1626,7 +1766,19 @@ function renderConfigView(endpoint, middlewares) {
         });
     });
     
+    // Missing keys and typos are flagged next to the dependency that reads them
+    const keyIssues = new Map();
+    configIssues.filter(issue => issue.kind !== 'unusedKey').forEach(issue => {
+        keyIssues.set(`${issue.source}:${issue.key}`, issue);
+    });
+    const renderDependency = (source, key) => {
+        const issue = keyIssues.get(`${source}:${key}`);
+        return `<div class="config-item"><span class="config-key">${key}</span>${issue ? `<span class="config-issue-badge ${issue.kind}" title="${escapeHtml(issue.message)}">${issue.suggestion ? `⚠️ did you mean ${issue.suggestion}?` : '⚠️ not defined'}</span>` : ''}</div>`;
+    };
+    
     container.innerHTML = `
+        ${renderConfigIssues(configIssues)}
+        
         <div class="config-card">
             <div class="config-card-header">
                 <span class="config-card-title">📋 Endpoint Configuration</span>
@@ -1640,13 +1792,26 @@ function renderConfigView(endpoint, middlewares) {
             </div>
         </div>
         
+        ${panicConfig ? `
+        <div class="config-card">
+            <div class="config-card-header">
+                <span class="config-card-title">🚨 Panic Configuration</span>
+                <button class="config-card-action" data-config="customPanicConfig" data-key="${panicConfig.found ? panicConfig.key : ''}">Open File</button>
+            </div>
+            <div class="config-card-content">
+                <div class="config-item"><span class="config-key">${panicConfig.key}</span><span class="config-value">${panicConfig.found ? `line ${panicConfig.lineNumber}` : '⚠️ Not found in customPanicConfig.json'}</span></div>
+                ${panicConfig.entry !== undefined ? `<pre class="config-entry">${escapeHtml(JSON.stringify(panicConfig.entry, null, 2))}</pre>` : ''}
+            </div>
+        </div>
+        ` : ''}
+        
         <div class="config-card">
             <div class="config-card-header">
                 <span class="config-card-title">⚙️ mWareConfig Dependencies</span>
                 <button class="config-card-action" data-config="mWareConfig">Open File</button>
             </div>
             <div class="config-card-content">
-                ${Array.from(configDeps.mWareConfig).map(key => `<div class="config-item"><span class="config-key">${key}</span></div>`).join('') || '<div class="config-item"><span class="config-value">No dependencies found</span></div>'}
+                ${Array.from(configDeps.mWareConfig).map(key => renderDependency('mWareConfig', key)).join('') || '<div class="config-item"><span class="config-value">No dependencies found</span></div>'}
             </div>
         </div>
         
@@ -1655,21 +1820,130 @@ function renderConfigView(endpoint, middlewares) {
                 <span class="config-card-title">🔧 System Parameters</span>
             </div>
             <div class="config-card-content">
-                ${Array.from(configDeps.sysParameter).map(key => `<div class="config-item"><span class="config-key">${key}</span></div>`).join('') || '<div class="config-item"><span class="config-value">No dependencies found</span></div>'}
+                ${Array.from(configDeps.sysParameter).map(key => renderDependency('sysParameter', key)).join('') || '<div class="config-item"><span class="config-value">No dependencies found</span></div>'}
             </div>
         </div>
     `;
     
+    container.querySelectorAll('.config-issue').forEach(item => {
+        item.addEventListener('click', () => {
+            openFile(item.dataset.path, parseInt(item.dataset.line) || 1, false);
+        });
+    });
+    
     container.querySelectorAll('.config-card-action').forEach(btn => {
         btn.addEventListener('click', () => {
             vscode.postMessage({
                 command: 'openConfigFile',
-                configType: btn.dataset.config
+                configType: btn.dataset.config,
+                configKey: btn.dataset.key || undefined
             });
         });
     });
 }
 
+// Render the config key issues card (missing keys and typos of this endpoint, unused keys of the middleware)
+function renderConfigIssues(issues) {
+    if (issues.length === 0) return '';
+
+    const labels = {
+        missingKey: '❌ Missing key',
+        possibleTypo: '✏️ Possible typo',
+        unusedKey: '💤 Unused key'
+    };
+    return `
+        <div class="config-card">
+            <div class="config-card-header">
+                <span class="config-card-title">🩺 Config Issues</span>
+                <span class="data-section-count">${issues.length}</span>
+            </div>
+            <div class="config-card-content">
+                ${issues.map(issue => `
+                    <div class="clickable-item data-issue config-issue ${issue.kind}" data-path="${issue.filePath}" data-line="${issue.lineNumber}" title="${escapeHtml(issue.message)}">
+                        <span class="data-issue-kind">${labels[issue.kind]}</span>
+                        <code class="data-issue-property">${issue.source}.${issue.key}</code>
+                        ${issue.suggestion ? `<span class="config-issue-suggestion">→ ${issue.suggestion}</span>` : ''}
+                        <span class="data-issue-location">${issue.middleware ? `${issue.middleware} · ` : ''}${issue.filePath.split(/[/\\]/).pop()}:${issue.lineNumber}</span>
+                    </div>
+                `).join('')}
+            </div>
+        </div>
+    `;
+}
+
+// Render the Changes tab: what was added and removed since the compared ref (hidden when not comparing)
+function renderComparison(comparison) {
+    const tabBtn = document.getElementById('compare-tab-btn');
+    const container = document.getElementById('compare-section');
+    document.querySelector('.diagram-legend')?.classList.toggle('comparing', !!comparison);
+    tabBtn.style.display = comparison ? '' : 'none';
+    if (!comparison) {
+        container.innerHTML = '';
+        if (tabBtn.classList.contains('active')) {
+            document.querySelector('.tab-btn[data-tab="flow-diagram"]').click();
+        }
+        return;
+    }
+
+    const sections = [
+        { kind: 'middleware', title: '🔗 Middlewares' },
+        { kind: 'component', title: '📄 Components' },
+        { kind: 'externalCall', title: '🌐 External Calls' },
+        { kind: 'configKey', title: '⚙️ Config Keys' },
+        { kind: 'resLocals', title: '📦 res.locals Properties' },
+        { kind: 'reqTransaction', title: '📨 req.transaction Properties' }
+    ];
+    const added = comparison.entries.filter(entry => entry.change === 'added').length;
+    const removed = comparison.entries.length - added;
+    tabBtn.textContent = `Changes (${comparison.entries.length})`;
+
+    const notices = [];
+    if (comparison.routeMissing) {
+        notices.push(`The endpoint is not in customRoutes.json at ${escapeHtml(comparison.ref)}; its current route was analyzed there.`);
+    }
+    if (comparison.skippedRepositories.length > 0) {
+        notices.push(`Not at ${escapeHtml(comparison.ref)}, compared as in the working tree: ${comparison.skippedRepositories.map(escapeHtml).join(', ')}`);
+    }
+
+    const renderEntry = entry => `
+        <div class="clickable-item diff-item ${entry.change}" data-path="${escapeHtml(entry.filePath || '')}" data-line="${entry.lineNumber || 1}" title="${entry.change === 'added' ? 'Added' : 'Removed'} since ${escapeHtml(comparison.ref)}">
+            <span class="diff-change">${entry.change === 'added' ? '+' : '−'}</span>
+            <code>${escapeHtml(entry.label)}</code>
+            <span class="diff-location">${entry.middleware ? escapeHtml(entry.middleware) : ''}${entry.filePath ? ` · ${escapeHtml(getFileDisplayName(entry.filePath))}${entry.lineNumber ? `:${entry.lineNumber}` : ''}` : ''}</span>
+        </div>
+    `;
+
+    container.innerHTML = `
+        ${notices.map(notice => `<div class="compare-notice">⚠️ ${notice}</div>`).join('')}
+        <div class="config-card">
+            <div class="config-card-header">
+                <span class="config-card-title">⇄ Compared with ${escapeHtml(comparison.ref)}</span>
+                <span class="compare-summary"><span class="added">+${added}</span><span class="removed">−${removed}</span></span>
+            </div>
+            ${comparison.entries.length === 0 ? '<div class="config-card-content"><div class="config-item"><span class="config-value">The flow is the same at both revisions.</span></div></div>' : ''}
+        </div>
+        ${sections.map(({ kind, title }) => {
+            const entries = comparison.entries.filter(entry => entry.kind === kind);
+            if (entries.length === 0) return '';
+            return `
+                <div class="config-card">
+                    <div class="config-card-header">
+                        <span class="config-card-title">${title}</span>
+                        <span class="data-section-count">${entries.length}</span>
+                    </div>
+                    <div class="config-card-content">${entries.map(renderEntry).join('')}</div>
+                </div>
+            `;
+        }).join('')}
+    `;
+
+    container.querySelectorAll('.diff-item').forEach(item => {
+        if (item.dataset.path) {
+            item.addEventListener('click', () => openFile(item.dataset.path, parseInt(item.dataset.line) || 1, false));
+        }
+    });
+}
+
 // ============================================
 // SIDEBAR FUNCTIONS - Enhanced and fixed
 // ============================================
@@ -1716,13 +1990,17 @@ function showMiddlewareDetailSidebar(middleware, addToHistory = true) {
     // Group data usages by source type
     const inputUsages = dataUsages.filter(d => d.type === 'read');
     const outputUsages = dataUsages.filter(d => d.type === 'write');
+
+    // The analyzed entry point: panic() in panic mode, run() otherwise
+    const entryLine = (currentAnalysisMode === 'panic' ? middleware.panicFunctionLine : middleware.runFunctionLine)
+        || middleware.runFunctionLine || 1;
     
     content.innerHTML = `
         <!-- File Info -->
         <div class="sidebar-section">
             <div class="section-title">📁 File</div>
             <div class="section-content">
-                <div class="clickable-item file-link" data-path="${middleware.name}" data-line="${middleware.runFunctionLine || 1}">
+                <div class="clickable-item file-link" data-path="${middleware.name}" data-line="${entryLine}">
                     <code>${middleware.filePath.split(/[/\\]/).slice(-3).join('/')}</code>
                 </div>
                 ${middleware.runFunctionLine ? `
@@ -1730,6 +2008,11 @@ function showMiddlewareDetailSidebar(middleware, addToHistory = true) {
                     Go to <code>run()</code> function (line ${middleware.runFunctionLine})
                 </div>
                 ` : ''}
+                ${middleware.panicFunctionLine ? `
+                <div class="clickable-item file-link" data-path="${middleware.name}" data-line="${middleware.panicFunctionLine}">
+                    Go to <code>panic()</code> function (line ${middleware.panicFunctionLine})
+                </div>
+                ` : ''}
             </div>
         </div>
         
@@ -1837,14 +2120,13 @@ function renderSidebarComponentTree(components, depth) {
         const dataUsages = comp.dataUsages || [];
         const hasData = reads.length > 0 || writes.length > 0 || dataUsages.length > 0;
         
-        const icon = comp.name?.startsWith('@opus/') ? '🔧' : '📄';
+        const icon = comp.isUnresolved ? '❓' : comp.name?.startsWith('@opus/') ? '🔧' : '📄';
         const indent = depth * 12;
         
         return `
             <div class="sidebar-comp-tree" style="margin-left: ${indent}px;">
-                <div class="sidebar-comp-header ${hasChildren ? 'has-children' : ''}" 
-                     data-filepath="${comp.filePath}" 
-                     data-line="${comp.mainFunctionLine || 1}"
+                <div class="sidebar-comp-header ${hasChildren ? 'has-children' : ''} ${comp.isUnresolved ? 'unresolved' : ''}" 
+                     ${getComponentLocationAttributes(comp)}
                      data-collapsed="${hasChildren ? 'true' : 'false'}">
                     ${hasChildren ? '<span class="collapse-icon">▶</span>' : '<span class="collapse-icon empty">•</span>'}
                     <span class="comp-icon ${hasData ? 'has-data' : ''}">${icon}</span>
@@ -1902,6 +2184,8 @@ function renderExternalCallsGrouped(calls, defaultFilePath) {
                         return `
                             <div class="clickable-item ext-call" data-path="${c.sourcePath || defaultFilePath}" data-line="${c.lineNumber}">
                                 ${c.template ? `<code>${c.template}</code>` : '<span class="no-template">(no name)</span>'}
+                                ${renderTemplateLink(c)}
+                                ${renderCallEndpoint(c)}
                                 ${sourceFile ? `<span class="source-file" title="${c.sourcePath}">${sourceFile}</span>` : ''}
                             </div>
                         `;
@@ -1913,18 +2197,93 @@ function renderExternalCallsGrouped(calls, defaultFilePath) {
 }
 
 function getExternalCallIcon(type) {
-    const icons = {
-        'AVS': '🔗',
-        'DCQ': '📊',
-        'ELASTICSEARCH': '🔍',
-        'PINBOARD': '📌',
-        'HTTP': '🌐',
-        'EXTERNAL': '🔌',
-        'MICROSERVICE': '⚡',
-        'DSF': '📡',
-        'AVA': '🎬'
-    };
-    return icons[type] || '📡';
+    return currentExternalCallIcons[(type || '').toLowerCase()] || '📡';
+}
+
+/**
+ * First definition of a template the call can use (definitions of another call type are skipped)
+ */
+function findTemplateDefinition(call) {
+    for (const name of call.templateNames || []) {
+        const definition = (currentTemplateDefinitions[name] || []).find(d => !d.type || d.type === call.type);
+        if (definition) {
+            return definition;
+        }
+    }
+    return null;
+}
+
+function describeTemplateDefinition(definition) {
+    const file = definition.filePath.split(/[/\\]/).slice(-2).join('/');
+    const parameters = definition.parameters.length > 0 ? definition.parameters.join(', ') : '(none)';
+    return `Template ${definition.name} · ${file}:${definition.lineNumber}\nParameters: ${parameters}\nClick to open the definition (Alt+click: call site)`;
+}
+
+function describeMissingTemplates(call) {
+    return call.missingTemplates?.length
+        ? `No definition found in the config repos for: ${call.missingTemplates.join(', ')}`
+        : '';
+}
+
+/**
+ * Link to the template definition of a call, or a warning when its template is not defined
+ */
+function renderTemplateLink(call) {
+    const definition = findTemplateDefinition(call);
+    if (definition) {
+        return `<span class="template-link" data-path="${definition.filePath}" data-line="${definition.lineNumber}" title="${escapeHtml(describeTemplateDefinition(definition))}">📄</span>`;
+    }
+    if (call.missingTemplates?.length) {
+        return `<span class="missing-template-badge" title="${escapeHtml(describeMissingTemplates(call))}">⚠️ no definition</span>`;
+    }
+    return '';
+}
+
+/**
+ * Resolved URL of an HTTP call (config values filled in); the URL template is shown on hover
+ */
+function renderCallEndpoint(call) {
+    if (!call.endpoint || call.endpoint === call.template) {
+        return '';
+    }
+    return `<div class="ext-call-endpoint" title="${escapeHtml(call.urlTemplate || '')}">→ ${escapeHtml(call.endpoint)}</div>`;
+}
+
+/**
+ * AGL library whose analyzed copy contains a file
+ */
+function findComponentLibrary(filePath) {
+    const normalizedPath = (filePath || '').replace(/\\/g, '/');
+    return currentLibraries.find(lib => {
+        const root = lib.rootPath?.replace(/\\/g, '/');
+        return root && normalizedPath.startsWith(`${root}/`);
+    }) || null;
+}
+
+/**
+ * Library version of a component (and a warning when the clone and the installed copy differ)
+ */
+function renderLibrarySection(component) {
+    const library = findComponentLibrary(component.filePath);
+    if (!library) {
+        return '';
+    }
+
+    const from = library.resolvedFrom === 'local' ? 'local clone' : 'node_modules';
+    const mismatch = library.versionMismatch ? `
+                <div class="library-version-mismatch" title="Choose the library source from the status bar">
+                    ⚠️ Version mismatch: local clone ${escapeHtml(library.localVersion)}, node_modules ${escapeHtml(library.installedVersion)}
+                </div>` : '';
+    return `
+        <div class="sidebar-section">
+            <div class="section-title">📦 Library</div>
+            <div class="section-content">
+                <div class="library-info">
+                    <code>${escapeHtml(library.packageName)}@${escapeHtml(library.version || '?')}</code>
+                    <span class="library-source">${from}</span>
+                </div>${mismatch}
+            </div>
+        </div>`;
 }
 
 /**
@@ -2006,12 +2365,14 @@ function showExternalCallsSidebar(component) {
         <div class="sidebar-section">
             <div class="section-title collapsible" data-collapsed="false">
                 <span class="collapse-icon">▼</span>
-                ${getCallTypeEmoji(type)} ${type.toUpperCase()} (${calls.length})
+                ${getExternalCallIcon(type)} ${type.toUpperCase()} (${calls.length})
             </div>
             <div class="section-content collapsible-body">
                 ${calls.map(c => `
                     <div class="clickable-item ext-call" data-path="${c.sourcePath || component.filePath}" data-line="${c.lineNumber}">
                         <div class="ext-call-url">${c.template || c.url || 'Unknown URL'}</div>
+                        ${renderTemplateLink(c)}
+                        ${renderCallEndpoint(c)}
                         ${c.method ? `<span class="call-method">${c.method}</span>` : ''}
                         <span class="line-num">:${c.lineNumber}</span>
                     </div>
@@ -2025,20 +2386,6 @@ function showExternalCallsSidebar(component) {
     sidebar.classList.add('open');
 }
 
-// Get emoji for external call type
-function getCallTypeEmoji(type) {
-    switch (type?.toLowerCase()) {
-        case 'get': return '📥';
-        case 'post': return '📤';
-        case 'put': return '📝';
-        case 'delete': return '🗑️';
-        case 'patch': return '🔧';
-        case 'axios': return '🌐';
-        case 'fetch': return '🔗';
-        default: return '🌐';
-    }
-}
-
 // Show middleware external calls in sidebar
 function showMiddlewareExternalCallsSidebar(middleware) {
     // Add current to history before switching
@@ -2116,6 +2463,8 @@ function showMiddlewareExternalCallsSidebar(middleware) {
                     <div class="clickable-item ext-call" data-path="${c.sourcePath}" data-line="${c.lineNumber}">
                         <span class="call-type">${c.type?.toUpperCase() || 'HTTP'}</span>
                         <div class="ext-call-url">${c.template || c.url || 'Unknown URL'}</div>
+                        ${renderTemplateLink(c)}
+                        ${renderCallEndpoint(c)}
                         <span class="line-num">:${c.lineNumber}</span>
                     </div>
                 `).join('')}
@@ -2157,6 +2506,7 @@ function showComponentDetailSidebar(component, addToHistory = true) {
                 </div>
             </div>
         </div>
+        ${renderLibrarySection(component)}
         
         <!-- Exported Functions -->
         ${component.exportedFunctions?.length > 0 ? `
@@ -2168,6 +2518,16 @@ function showComponentDetailSidebar(component, addToHistory = true) {
         </div>
         ` : ''}
         
+        <!-- Called Functions -->
+        ${component.calledFunctions?.length > 0 ? `
+        <div class="sidebar-section">
+            <div class="section-title">🔗 Called Functions</div>
+            <div class="section-content">
+                <div class="exports-list">${component.calledFunctions.join(', ')}</div>
+            </div>
+        </div>
+        ` : ''}
+        
         <!-- Child Components -->
         ${component.children?.length > 0 ? `
         <div class="sidebar-section">
@@ -2220,6 +2580,8 @@ function showComponentDetailSidebar(component, addToHistory = true) {
                     <div class="clickable-item ext-call" data-path="${component.filePath}" data-line="${c.lineNumber}">
                         <span class="call-type">${c.type.toUpperCase()}</span>
                         ${c.template ? `<code>${c.template}</code>` : ''}
+                        ${renderTemplateLink(c)}
+                        ${renderCallEndpoint(c)}
                         <span class="line-num">:${c.lineNumber}</span>
                     </div>
                 `).join('') || '<div class="empty-msg">None</div>'}
@@ -2276,6 +2638,10 @@ function setupSidebarEventHandlers(content, item, isMiddleware) {
         header.addEventListener('click', (e) => {
             // Don't trigger if clicking collapse icon
             if (e.target.classList.contains('collapse-icon')) return;
+            if (header.classList.contains('unresolved')) {
+                openFile(header.dataset.filepath, parseInt(header.dataset.line) || 1, false);
+                return;
+            }
             
             const filePath = header.dataset.filepath;
             const component = findComponentByPath(filePath);
@@ -2312,4 +2678,12 @@ function setupSidebarEventHandlers(content, item, isMiddleware) {
             openFile(el.dataset.path, parseInt(el.dataset.line) || 1, false);
         });
     });
+
+    // Template definition links of external calls
+    content.querySelectorAll('.template-link').forEach(el => {
+        el.addEventListener('click', (e) => {
+            e.stopPropagation();
+            openFile(el.dataset.path, parseInt(el.dataset.line) || 1, false);
+        });
+    });
 }
@@ -0,0 +1,213 @@
+const vscode = acquireVsCodeApi();
+
+document.addEventListener('DOMContentLoaded', () => {
+    const form = document.getElementById('request-form');
+    const methodSelect = document.getElementById('method-select');
+    const urlInput = document.getElementById('url-input');
+    const middlewareSelect = document.getElementById('middleware-select');
+    const results = document.getElementById('results');
+
+    // Request the middlewares (and a prefilled request) from the extension
+    vscode.postMessage({ command: 'webviewLoaded' });
+
+    form.addEventListener('submit', (event) => {
+        event.preventDefault();
+        testRoute();
+    });
+    methodSelect.addEventListener('change', () => urlInput.value.trim() && testRoute());
+    middlewareSelect.addEventListener('change', () => urlInput.value.trim() && testRoute());
+
+    // Handle messages from the extension
+    window.addEventListener('message', (event) => {
+        const message = event.data;
+
+        if (message.command === 'init') {
+            setMiddlewares(message.middlewares);
+            applyRequest(message.request);
+        } else if (message.command === 'routeMatches') {
+            displayResults(message);
+        } else if (message.command === 'error') {
+            console.error('Error from extension:', message.message);
+        }
+    });
+
+    function testRoute() {
+        const url = urlInput.value.trim();
+        if (!url) {
+            return;
+        }
+        vscode.postMessage({
+            command: 'testRoute',
+            method: methodSelect.value,
+            url,
+            middlewareName: middlewareSelect.value || undefined
+        });
+    }
+
+    function setMiddlewares(middlewares) {
+        const selected = middlewareSelect.value;
+        middlewareSelect.innerHTML = '<option value="">All middlewares</option>';
+        middlewares.forEach(name => {
+            const option = document.createElement('option');
+            option.value = name;
+            option.textContent = name;
+            middlewareSelect.appendChild(option);
+        });
+        middlewareSelect.value = middlewares.includes(selected) ? selected : '';
+    }
+
+    // Only a given request replaces what was typed (the panel is also revealed without one)
+    function applyRequest(request) {
+        if (request.method) {
+            methodSelect.value = request.method.toLowerCase();
+        }
+        if (request.middlewareName) {
+            middlewareSelect.value = request.middlewareName;
+        }
+        if (request.url) {
+            urlInput.value = request.url;
+            testRoute();
+        }
+        urlInput.focus();
+    }
+
+    function displayResults({ method, path, results: middlewareResults }) {
+        results.innerHTML = '';
+
+        const summary = document.createElement('div');
+        summary.className = 'request-summary';
+        summary.innerHTML = `<span class="method ${escapeHtml(method)}">${escapeHtml(method.toUpperCase())}</span><span class="uri">${escapeHtml(path)}</span>`;
+        results.appendChild(summary);
+
+        if (middlewareResults.length === 0) {
+            results.appendChild(createMessage('No middleware with a customRoutes.json found in the workspace.', 'empty-state'));
+            return;
+        }
+
+        const matched = middlewareResults.filter(result => result.matches.length > 0);
+        if (matched.length === 0 && middlewareResults.every(result => !result.error)) {
+            results.appendChild(createMessage(`No route matches ${method.toUpperCase()} ${path}: the request gets a 404.`, 'no-match'));
+        }
+
+        middlewareResults
+            .filter(result => result.error || result.matches.length > 0)
+            .forEach(result => results.appendChild(createMiddlewareSection(result)));
+    }
+
+    function createMiddlewareSection(result) {
+        const section = document.createElement('section');
+        section.className = 'middleware-section';
+
+        const title = document.createElement('h2');
+        title.textContent = result.middlewareName;
+        section.appendChild(title);
+
+        if (result.error) {
+            section.appendChild(createMessage(result.error, 'error-message'));
+            return section;
+        }
+
+        result.matches.forEach((match, position) => {
+            section.appendChild(createMatchCard(result.middlewareName, match, position === 0));
+        });
+        return section;
+    }
+
+    function createMatchCard(middlewareName, match, handles) {
+        const { endpoint, params, index } = match;
+        const card = document.createElement('div');
+        card.className = `match-card ${handles ? 'handles' : 'unreached'}`;
+
+        const header = document.createElement('div');
+        header.className = 'match-header';
+        header.innerHTML = `
+            <span class="badge">${handles ? 'Handles the request' : 'Also matches (not reached)'}</span>
+            <span class="method ${escapeHtml((endpoint.method || 'get').toLowerCase())}">${escapeHtml((endpoint.method || 'get').toUpperCase())}</span>
+            <a class="uri route-link" title="Open in customRoutes.json">${escapeHtml(endpoint.endpointUri)}</a>
+            <span class="route-index">entry #${index + 1}</span>
+        `;
+        header.querySelector('.route-link').addEventListener('click', () => {
+            vscode.postMessage({ command: 'openRoute', middlewareName, index });
+        });
+        card.appendChild(header);
+
+        const details = document.createElement('div');
+        details.className = 'match-details';
+        details.appendChild(createParamsTable(params));
+        details.appendChild(createChain(endpoint.middleware));
+        if (endpoint.template) {
+            details.appendChild(createDetail('Template', endpoint.template));
+        }
+        card.appendChild(details);
+
+        const actions = document.createElement('div');
+        actions.className = 'match-actions';
+        actions.appendChild(createAction('🔍 Analyze Flow', 'Analyze the flow of this endpoint', () => {
+            vscode.postMessage({ command: 'analyzeFlow', endpoint, middlewareName });
+        }));
+        actions.appendChild(createAction('Endpoint Viewer', 'Show this endpoint in the Endpoint Viewer', () => {
+            vscode.postMessage({ command: 'openEndpointViewer', endpoint, middlewareName });
+        }));
+        card.appendChild(actions);
+        return card;
+    }
+
+    function createParamsTable(params) {
+        const names = Object.keys(params);
+        if (names.length === 0) {
+            return createDetail('Params', '(none)');
+        }
+
+        const wrapper = document.createElement('div');
+        wrapper.className = 'detail';
+        wrapper.innerHTML = `
+            <div class="detail-label">Params</div>
+            <table class="params-table">
+                ${names.map(name => `<tr><td class="param-name">${escapeHtml(name)}</td><td class="param-value">${escapeHtml(params[name])}</td></tr>`).join('')}
+            </table>
+        `;
+        return wrapper;
+    }
+
+    function createChain(middleware) {
+        const chain = Array.isArray(middleware) ? middleware : [];
+        const wrapper = document.createElement('div');
+        wrapper.className = 'detail';
+        wrapper.innerHTML = `
+            <div class="detail-label">Middleware chain</div>
+            <div class="chain">${chain.length > 0
+                ? chain.map(step => `<span class="chain-step">${escapeHtml(step)}</span>`).join('<span class="chain-arrow">→</span>')
+                : '(none)'}</div>
+        `;
+        return wrapper;
+    }
+
+    function createDetail(label, value) {
+        const detail = document.createElement('div');
+        detail.className = 'detail';
+        detail.innerHTML = `<div class="detail-label">${escapeHtml(label)}</div><div class="detail-value">${escapeHtml(value)}</div>`;
+        return detail;
+    }
+
+    function createAction(label, title, onClick) {
+        const button = document.createElement('button');
+        button.className = 'action-btn';
+        button.textContent = label;
+        button.title = title;
+        button.addEventListener('click', onClick);
+        return button;
+    }
+
+    function createMessage(text, className) {
+        const message = document.createElement('div');
+        message.className = className;
+        message.textContent = text;
+        return message;
+    }
+
+    function escapeHtml(text) {
+        const div = document.createElement('div');
+        div.textContent = String(text);
+        return div.innerHTML;
+    }
+});
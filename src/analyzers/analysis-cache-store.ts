@@ -0,0 +1,177 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComponentAnalysis } from '../models/flow-analyzer-types';
+
+/**
+ * Version of the analyzer output format.
+ * Bump whenever the analyzers produce different ComponentAnalysis data for the same source,
+ * so entries written by an older version are never reused.
+ */
+export const ANALYZER_VERSION = '8';
+
+/** Sub directory of the extension storage holding the cache */
+const CACHE_DIR_NAME = 'analysis-cache';
+
+/**
+ * Persisted cache entry for a single source file
+ */
+interface PersistedEntry {
+  analyzerVersion: string;
+  contentHash: string;
+  rulesHash?: string;      // Hash of the workspace rules the result was produced with
+  filePath: string;
+  dependencyHashes?: { [filePath: string]: string };   // Other files the result was derived from (e.g. constants modules)
+  result: ComponentAnalysis;
+}
+
+/**
+ * A persisted analysis and the other files it depends on
+ */
+export interface PersistedAnalysis {
+  result: ComponentAnalysis;
+  dependencies: string[];
+}
+
+/**
+ * AnalysisCacheStore - Persists per-file ComponentAnalysis results on disk
+ *
+ * Entries are keyed by file path and validated by content hash, analyzer version and the
+ * hash of the workspace rules, so they survive VS Code restarts but are never used for
+ * modified files or after the rules changed.
+ * Only the file's own analysis is stored; child components are re-linked on load.
+ */
+export class AnalysisCacheStore {
+  private readonly versionDir: string;
+
+  constructor(private readonly cacheRoot: string) {
+    this.versionDir = path.join(cacheRoot, `v${ANALYZER_VERSION}`);
+  }
+
+  /**
+   * Create a store inside an extension storage folder (workspace or global storage)
+   */
+  static forStorage(storagePath: string): AnalysisCacheStore {
+    return new AnalysisCacheStore(path.join(storagePath, CACHE_DIR_NAME));
+  }
+
+  /**
+   * Hash file content for cache validation
+   */
+  static hashContent(content: string): string {
+    return crypto.createHash('sha1').update(content).digest('hex');
+  }
+
+  /**
+   * Get the cache root directory
+   */
+  getCacheRoot(): string {
+    return this.cacheRoot;
+  }
+
+  /**
+   * Load a persisted analysis. Stale entries (different hash, version or rules, or changed dependencies) are dropped.
+   */
+  get(filePath: string, contentHash: string, rulesHash: string = ''): PersistedAnalysis | undefined {
+    const entryPath = this.getEntryPath(filePath);
+    if (!fs.existsSync(entryPath)) {
+      return undefined;
+    }
+
+    try {
+      const entry: PersistedEntry = JSON.parse(fs.readFileSync(entryPath, 'utf-8'));
+      const dependencyHashes = entry.dependencyHashes ?? {};
+      if (entry.analyzerVersion === ANALYZER_VERSION &&
+          entry.contentHash === contentHash &&
+          (entry.rulesHash ?? '') === rulesHash &&
+          entry.filePath === filePath &&
+          this.areDependenciesUnchanged(dependencyHashes)) {
+        return { result: entry.result, dependencies: Object.keys(dependencyHashes) };
+      }
+    } catch (error) {
+      console.error(`Failed to read analysis cache entry for ${filePath}:`, error);
+    }
+
+    this.delete(filePath);
+    return undefined;
+  }
+
+  /**
+   * Persist the analysis of a single file (without its child components)
+   * @param dependencies Other files the result was derived from; the entry is stale once any of them changes
+   * @param rulesHash Hash of the workspace rules the result was produced with
+   */
+  set(filePath: string, contentHash: string, result: ComponentAnalysis, dependencies: string[] = [], rulesHash: string = ''): void {
+    const dependencyHashes: { [filePath: string]: string } = {};
+    for (const dependency of dependencies) {
+      const hash = this.hashFile(dependency);
+      if (hash) {
+        dependencyHashes[dependency] = hash;
+      }
+    }
+
+    const entry: PersistedEntry = {
+      analyzerVersion: ANALYZER_VERSION,
+      contentHash,
+      rulesHash,
+      filePath,
+      dependencyHashes,
+      result: {
+        ...result,
+        children: [],
+        isShallowReference: undefined
+      }
+    };
+
+    try {
+      fs.mkdirSync(this.versionDir, { recursive: true });
+      fs.writeFileSync(this.getEntryPath(filePath), JSON.stringify(entry), 'utf-8');
+    } catch (error) {
+      console.error(`Failed to write analysis cache entry for ${filePath}:`, error);
+    }
+  }
+
+  /**
+   * Remove the persisted analysis of a file
+   */
+  delete(filePath: string): void {
+    try {
+      fs.rmSync(this.getEntryPath(filePath), { force: true });
+    } catch (error) {
+      console.error(`Failed to delete analysis cache entry for ${filePath}:`, error);
+    }
+  }
+
+  /**
+   * Remove entries written by other analyzer versions
+   */
+  pruneOtherVersions(): void {
+    if (!fs.existsSync(this.cacheRoot)) {
+      return;
+    }
+
+    const currentDirName = path.basename(this.versionDir);
+    for (const entry of fs.readdirSync(this.cacheRoot, { withFileTypes: true })) {
+      if (entry.isDirectory() && entry.name !== currentDirName) {
+        fs.rmSync(path.join(this.cacheRoot, entry.name), { recursive: true, force: true });
+      }
+    }
+  }
+
+  private areDependenciesUnchanged(dependencyHashes: { [filePath: string]: string }): boolean {
+    return Object.entries(dependencyHashes).every(([dependency, hash]) => this.hashFile(dependency) === hash);
+  }
+
+  private hashFile(filePath: string): string | undefined {
+    try {
+      return AnalysisCacheStore.hashContent(fs.readFileSync(filePath, 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private getEntryPath(filePath: string): string {
+    const key = crypto.createHash('sha1').update(filePath).digest('hex');
+    return path.join(this.versionDir, `${key}.json`);
+  }
+}
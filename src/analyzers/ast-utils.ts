@@ -27,8 +27,34 @@ export type Node = acorn.Node & {
   consequent?: Node;
   alternate?: Node;
   elements?: (Node | null)[];
+  params?: Node[];
+  shorthand?: boolean;
+  kind?: string;
+  quasis?: Node[];
+  expressions?: Node[];
+  // ES module nodes
+  source?: Node;
+  specifiers?: Node[];
+  declaration?: Node;
+  imported?: Node;
+  exported?: Node;
+  local?: Node;
+  // TypeScript nodes (acorn-typescript)
+  importKind?: 'type' | 'value';
+  exportKind?: 'type' | 'value';
+  moduleReference?: Node;
 };
 
+/**
+ * Placeholder for a computed property key that cannot be resolved statically
+ */
+export const DYNAMIC_PROPERTY = '(dynamic)';
+
+/**
+ * Resolves a computed property key expression to its literal name
+ */
+export type KeyResolver = (key: Node) => string | undefined;
+
 /**
  * Context for tracking write operations during AST traversal
  */
@@ -79,6 +105,14 @@ export class AstUtils {
     return loc?.start?.line || 1;
   }
 
+  /**
+   * Get the last line number of a node
+   */
+  static getEndLineNumber(node: Node): number {
+    const loc = (node as acorn.Node & { loc?: { end: { line: number } } }).loc;
+    return loc?.end?.line || AstUtils.getLineNumber(node);
+  }
+
   /**
    * Get code snippet from lines
    */
@@ -108,27 +142,57 @@ export class AstUtils {
 
   /**
    * Extract property path after a specific prefix (e.g., res.locals.xxx -> xxx)
+   * Computed keys are resolved with resolveKey; see getMemberPath for unresolvable keys.
+   */
+  static extractPropertyPath(node: Node, objectName: string, propertyName: string, resolveKey?: KeyResolver): string | null {
+    const { root, path } = AstUtils.getMemberPath(node, resolveKey);
+
+    if (root?.type === 'Identifier' && root.name === objectName) {
+      if (path.length >= 1 && path[0] === propertyName) {
+        const restPath = AstUtils.trimDynamicTail(path.slice(1));
+        return restPath.length > 0 ? restPath.join('.') : null;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Collect the root and property names of a member expression chain (a.b['c'][KEY] -> a, [b, c, <KEY value>]).
+   * A computed key that cannot be resolved becomes DYNAMIC_PROPERTY and the segments
+   * after it are dropped, since they are relative to an unknown property.
    */
-  static extractPropertyPath(node: Node, objectName: string, propertyName: string): string | null {
-    const path: string[] = [];
+  static getMemberPath(node: Node, resolveKey?: KeyResolver): { root: Node | undefined; path: string[] } {
+    let path: string[] = [];
     let current: Node | undefined = node;
 
     while (current?.type === 'MemberExpression') {
-      const propName = AstUtils.getPropertyName(current.property);
-      if (propName) {
-        path.unshift(propName);
+      const property = current.property;
+      if (current.computed && property && property.type !== 'Literal') {
+        const resolved = resolveKey?.(property);
+        if (resolved !== undefined) {
+          path.unshift(resolved);
+        } else {
+          path = [DYNAMIC_PROPERTY];
+        }
+      } else {
+        const propName = AstUtils.getPropertyName(property);
+        if (propName) {
+          path.unshift(propName);
+        }
       }
       current = current.object;
     }
 
-    if (current?.type === 'Identifier' && current.name === objectName) {
-      if (path.length >= 1 && path[0] === propertyName) {
-        const restPath = path.slice(1);
-        return restPath.length > 0 ? restPath.join('.') : null;
-      }
-    }
+    return { root: current, path };
+  }
 
-    return null;
+  /**
+   * Drop a trailing DYNAMIC_PROPERTY segment (res.locals.page[i] -> page),
+   * keeping it only when it is the sole segment (res.locals[key] -> (dynamic))
+   */
+  static trimDynamicTail(path: string[]): string[] {
+    return path.length > 1 && path[path.length - 1] === DYNAMIC_PROPERTY ? path.slice(0, -1) : path;
   }
 
   /**
@@ -170,8 +234,10 @@ export class AstUtils {
 
     for (let i = ancestors.length - 1; i >= 0; i--) {
       const ancestor = ancestors[i];
+      // The node itself is not on the ancestor stack yet
+      const child = ancestors[i + 1] ?? node;
 
-      if (ancestor.type === 'AssignmentExpression' && ancestor.left === ancestors[i + 1]) {
+      if (ancestor.type === 'AssignmentExpression' && ancestor.left === child) {
         context.isAssignmentTarget = true;
         break;
       }
@@ -318,6 +384,39 @@ export class AstUtils {
     return values;
   }
 
+  /**
+   * Find the initializer of a variable, searching from the current scope up to the global scope
+   */
+  static findVariableInit(variableName: string, ancestors: Node[]): Node | undefined {
+    for (const scopeNode of AstUtils.findEnclosingScopes(ancestors)) {
+      let init: Node | undefined;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      walk(scopeNode as any, {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        enter(n: any, parent: any) {
+          const node = n as Node;
+          if (init || (parent && node !== scopeNode &&
+              (node.type === 'FunctionDeclaration' ||
+               node.type === 'FunctionExpression' ||
+               node.type === 'ArrowFunctionExpression'))) {
+            this.skip();
+            return;
+          }
+          if (node.type === 'VariableDeclarator' &&
+              node.id?.type === 'Identifier' &&
+              node.id.name === variableName &&
+              node.init) {
+            init = node.init;
+          }
+        }
+      });
+      if (init) {
+        return init;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Resolve variable value by searching from current scope up to global scope
    */
@@ -0,0 +1,541 @@
+import { walk } from 'estree-walker';
+import { FunctionCall, FunctionGraph, FunctionInfo } from '../models/flow-analyzer-types';
+import { AstUtils, Node } from './ast-utils';
+
+/**
+ * Export name standing for every export of a module
+ */
+export const ALL_EXPORTS = '*';
+
+const FUNCTION_TYPES = new Set(['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression']);
+
+// Type-only syntax never references runtime code
+const TYPE_ONLY_TYPES = new Set([
+  'TSTypeAnnotation', 'TSTypeParameterDeclaration', 'TSTypeParameterInstantiation',
+  'TSInterfaceDeclaration', 'TSTypeAliasDeclaration'
+]);
+
+/**
+ * Variable bound to a required module: the whole module (namespace / default object)
+ * or a single export of it
+ */
+interface ModuleBinding {
+  modulePath: string;
+  exportName?: string;
+}
+
+/**
+ * Code of a file that runs when some of its exports are called
+ */
+export interface ReachableCode {
+  functions: FunctionInfo[];
+  // Module specifier -> exports of that module that are called ([ALL_EXPORTS] = whole module)
+  moduleExports: Map<string, string[]>;
+  isReachable(lineNumber: number): boolean;
+}
+
+/**
+ * CallGraphAnalyzer - Builds the function-level call graph of a file
+ *
+ * - Top-level functions (declarations, function-valued variables, exported functions) are the graph nodes;
+ *   nested functions belong to their enclosing node, other top-level code (classes included) runs on load
+ * - Any reference to a local function or a module binding counts as a call, so callbacks such as
+ *   router.use(handler) or promise.then(bo.load) are followed
+ * - Bindings are matched by name without scope analysis; a module binding used other than through a
+ *   member access or a call references the whole module
+ */
+export class CallGraphAnalyzer {
+  private functionNodes = new Map<Node, FunctionInfo>();
+  private functionNames = new Set<string>();
+  private exports: { [exportName: string]: string } = {};
+  private moduleCalls: FunctionCall[] = [];
+  private bindings = new Map<string, ModuleBinding>();
+  // Export bindings and bound require() calls, which are not calls themselves
+  private declarationSites = new Set<Node>();
+
+  /**
+   * Build the call graph of a parsed file
+   */
+  analyze(ast: Node): FunctionGraph {
+    this.reset();
+
+    for (const statement of (ast.body as Node[]) ?? []) {
+      this.collectTopLevel(statement);
+    }
+    this.collectBindings(ast);
+    this.collectCalls(ast);
+
+    return {
+      functions: Array.from(this.functionNodes.values()),
+      moduleCalls: this.moduleCalls,
+      exports: this.exports
+    };
+  }
+
+  /**
+   * Resolve the functions of a file that run when the given exports are called, and the
+   * exports of required modules they call. Unknown exports (classes, objects, re-assigned
+   * module.exports) and ALL_EXPORTS make the whole file reachable.
+   */
+  static resolveReachable(graph: FunctionGraph, entryExports: string[]): ReachableCode {
+    const functionsByName = new Map<string, FunctionInfo[]>();
+    for (const fn of graph.functions) {
+      functionsByName.set(fn.name, [...(functionsByName.get(fn.name) ?? []), fn]);
+    }
+
+    const reachable = new Set<FunctionInfo>();
+    const moduleExports = new Map<string, Set<string>>();
+    const queue: string[] = [];
+
+    const follow = (calls: FunctionCall[]) => {
+      for (const call of calls) {
+        if (call.modulePath) {
+          const names = moduleExports.get(call.modulePath) ?? new Set<string>();
+          names.add(call.name);
+          moduleExports.set(call.modulePath, names);
+        } else {
+          queue.push(call.name);
+        }
+      }
+    };
+
+    let wholeModule = false;
+    for (const exportName of entryExports) {
+      const localName = Object.prototype.hasOwnProperty.call(graph.exports, exportName)
+        ? graph.exports[exportName]
+        : undefined;
+      if (localName && functionsByName.has(localName)) {
+        queue.push(localName);
+      } else {
+        wholeModule = true;
+      }
+    }
+
+    if (wholeModule) {
+      graph.functions.forEach(fn => reachable.add(fn));
+      graph.functions.forEach(fn => follow(fn.calls));
+    }
+    follow(graph.moduleCalls);
+
+    while (queue.length > 0) {
+      for (const fn of functionsByName.get(queue.shift()!) ?? []) {
+        if (!reachable.has(fn)) {
+          reachable.add(fn);
+          follow(fn.calls);
+        }
+      }
+    }
+
+    return {
+      functions: graph.functions.filter(fn => reachable.has(fn)),
+      moduleExports: new Map(Array.from(moduleExports.entries()).map(([modulePath, names]) => [
+        modulePath,
+        names.has(ALL_EXPORTS) ? [ALL_EXPORTS] : Array.from(names).sort()
+      ])),
+      isReachable: (lineNumber: number) => {
+        const enclosing = graph.functions.filter(fn => lineNumber >= fn.startLine && lineNumber <= fn.endLine);
+        return enclosing.length === 0 || enclosing.some(fn => reachable.has(fn));
+      }
+    };
+  }
+
+  private reset(): void {
+    this.functionNodes = new Map();
+    this.functionNames = new Set();
+    this.exports = {};
+    this.moduleCalls = [];
+    this.bindings = new Map();
+    this.declarationSites = new Set();
+  }
+
+  // ---- Functions and exports ----
+
+  private collectTopLevel(statement: Node): void {
+    switch (statement.type) {
+      case 'FunctionDeclaration':
+        if (statement.id?.name) {
+          this.addFunction(statement.id.name, statement);
+        }
+        break;
+
+      case 'VariableDeclaration':
+        this.collectDeclarators(statement);
+        break;
+
+      case 'ExpressionStatement':
+        if (statement.expression?.type === 'AssignmentExpression' && statement.expression.operator === '=') {
+          this.collectExportAssignment(statement.expression);
+        }
+        break;
+
+      case 'ExportNamedDeclaration':
+        this.collectNamedExport(statement);
+        break;
+
+      case 'ExportDefaultDeclaration':
+        this.collectDefaultExport(statement);
+        break;
+
+      case 'ExportAllDeclaration':
+        // export * from '...' always re-exports the whole module
+        if (statement.exportKind !== 'type' && typeof statement.source?.value === 'string') {
+          this.moduleCalls.push({ name: ALL_EXPORTS, modulePath: statement.source.value });
+        }
+        break;
+    }
+  }
+
+  /**
+   * Register function-valued declarators; returns every declared name
+   */
+  private collectDeclarators(declaration: Node): string[] {
+    const names: string[] = [];
+    for (const declarator of declaration.declarations ?? []) {
+      if (declarator.id?.type !== 'Identifier' || !declarator.id.name) continue;
+      names.push(declarator.id.name);
+      if (this.isFunction(declarator.init)) {
+        this.addFunction(declarator.id.name, declarator.init!);
+      }
+    }
+    return names;
+  }
+
+  /**
+   * module.exports.x = ... / exports.x = ... / module.exports = { ... } / module.exports = fn
+   */
+  private collectExportAssignment(node: Node): void {
+    const left = node.left;
+    if (left?.type !== 'MemberExpression') return;
+
+    if (!left.computed &&
+        (AstUtils.matchesMemberExpression(left.object, ['module', 'exports']) ||
+         AstUtils.matchesMemberExpression(left.object, ['exports']))) {
+      const exportName = AstUtils.getPropertyName(left.property);
+      if (exportName) {
+        this.bindExport(exportName, node.right);
+      }
+      return;
+    }
+
+    if (AstUtils.matchesMemberExpression(left, ['module', 'exports'])) {
+      if (node.right?.type === 'ObjectExpression') {
+        for (const prop of node.right.properties ?? []) {
+          const exportName = prop.type === 'Property' && !prop.computed ? AstUtils.getPropertyName(prop.key) : null;
+          if (exportName) {
+            this.bindExport(exportName, prop.value as Node);
+          }
+        }
+      } else {
+        this.bindExport('default', node.right);
+      }
+    }
+  }
+
+  private collectNamedExport(node: Node): void {
+    if (node.exportKind === 'type') return;
+
+    // export { a as b } from '...' needs that export of the other module whenever this one is loaded
+    if (typeof node.source?.value === 'string') {
+      for (const spec of node.specifiers ?? []) {
+        const importedName = AstUtils.getPropertyName(spec.local);
+        if (importedName && spec.exportKind !== 'type') {
+          this.moduleCalls.push({ name: importedName, modulePath: node.source.value });
+        }
+      }
+      return;
+    }
+
+    const declaration = node.declaration;
+    if (declaration?.type === 'VariableDeclaration') {
+      for (const name of this.collectDeclarators(declaration)) {
+        this.exports[name] = name;
+      }
+    } else if (declaration?.id?.name) {
+      if (declaration.type === 'FunctionDeclaration') {
+        this.addFunction(declaration.id.name, declaration);
+      }
+      this.exports[declaration.id.name] = declaration.id.name;
+    }
+
+    for (const spec of node.specifiers ?? []) {
+      const exportName = AstUtils.getPropertyName(spec.exported);
+      if (exportName && spec.local?.name && spec.exportKind !== 'type') {
+        this.exports[exportName] = spec.local.name;
+      }
+    }
+  }
+
+  private collectDefaultExport(node: Node): void {
+    const declaration = node.declaration;
+    if (this.isFunction(declaration)) {
+      const name = declaration!.id?.name ?? 'default';
+      this.addFunction(name, declaration!);
+      this.exports.default = name;
+    } else if (declaration?.type === 'Identifier' && declaration.name) {
+      this.exports.default = declaration.name;
+      this.declarationSites.add(declaration);
+    }
+  }
+
+  private bindExport(exportName: string, value: Node | undefined): void {
+    if (this.isFunction(value)) {
+      this.addFunction(exportName, value!);
+      this.exports[exportName] = exportName;
+    } else if (value?.type === 'Identifier' && value.name) {
+      this.exports[exportName] = value.name;
+      this.declarationSites.add(value);
+    }
+  }
+
+  private addFunction(name: string, node: Node): void {
+    if (this.functionNodes.has(node)) return;
+    this.functionNames.add(name);
+    this.functionNodes.set(node, {
+      name,
+      startLine: AstUtils.getLineNumber(node),
+      endLine: AstUtils.getEndLineNumber(node),
+      calls: []
+    });
+  }
+
+  // ---- Module bindings ----
+
+  private collectBindings(ast: Node): void {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    walk(ast as any, {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      enter: (n: any) => {
+        const node = n as Node;
+        switch (node.type) {
+          case 'VariableDeclarator':
+            this.collectRequireBinding(node);
+            break;
+
+          case 'ImportDeclaration': {
+            const modulePath = node.source?.value;
+            if (typeof modulePath !== 'string' || node.importKind === 'type') break;
+            for (const spec of node.specifiers ?? []) {
+              if (!spec.local?.name || spec.importKind === 'type') continue;
+              this.bindings.set(spec.local.name, {
+                modulePath,
+                exportName: spec.type === 'ImportSpecifier' ? AstUtils.getPropertyName(spec.imported) ?? undefined : undefined
+              });
+            }
+            break;
+          }
+
+          case 'TSImportEqualsDeclaration':
+            if (node.id?.name && typeof node.moduleReference?.expression?.value === 'string') {
+              this.bindings.set(node.id.name, { modulePath: node.moduleReference.expression.value });
+            }
+            break;
+        }
+      }
+    });
+  }
+
+  /**
+   * const x = require('...') / const { a, b: c } = require('...') / const a = require('...').a
+   */
+  private collectRequireBinding(declarator: Node): void {
+    let init = declarator.init;
+    if (init?.type === 'AwaitExpression') {
+      init = init.argument;
+    }
+
+    let exportName: string | undefined;
+    let moduleNode = init;
+    if (init?.type === 'MemberExpression' && !init.computed) {
+      exportName = AstUtils.getPropertyName(init.property) ?? undefined;
+      moduleNode = init.object;
+    }
+
+    const modulePath = moduleNode ? this.getModuleSpecifier(moduleNode) : undefined;
+    if (!modulePath) return;
+    this.declarationSites.add(moduleNode!);
+
+    const id = declarator.id;
+    if (id?.type === 'Identifier' && id.name) {
+      this.bindings.set(id.name, { modulePath, exportName });
+    } else if (id?.type === 'ObjectPattern' && !exportName) {
+      for (const prop of id.properties ?? []) {
+        if (prop.type === 'RestElement' && prop.argument?.name) {
+          this.bindings.set(prop.argument.name, { modulePath });
+          continue;
+        }
+        const value = prop.value as Node | undefined;
+        const local = value?.type === 'AssignmentPattern' ? value.left : value;
+        const propName = AstUtils.getPropertyName(prop.key);
+        if (local?.name && propName) {
+          this.bindings.set(local.name, { modulePath, exportName: propName });
+        }
+      }
+    }
+  }
+
+  /**
+   * Module specifier of a require('...') call or import('...') expression
+   */
+  private getModuleSpecifier(node: Node): string | undefined {
+    if (node.type === 'CallExpression' && node.callee?.type === 'Identifier' && node.callee.name === 'require') {
+      const arg = node.arguments?.[0];
+      return arg?.type === 'Literal' && typeof arg.value === 'string' ? arg.value : undefined;
+    }
+    if (node.type === 'ImportExpression' && node.source?.type === 'Literal' && typeof node.source.value === 'string') {
+      return node.source.value;
+    }
+    return undefined;
+  }
+
+  // ---- Calls ----
+
+  private collectCalls(ast: Node): void {
+    const enclosing: FunctionInfo[] = [];
+    const analyzer = this;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    walk(ast as any, {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      enter(n: any, p: any) {
+        const node = n as Node;
+        const parent = p as Node | null;
+
+        if (analyzer.isDeclarationOnly(node, parent)) {
+          this.skip();
+          return;
+        }
+
+        const fn = analyzer.functionNodes.get(node);
+        if (fn) {
+          enclosing.push(fn);
+        }
+
+        const call = analyzer.resolveCall(node, parent);
+        if (call) {
+          const calls = enclosing.length > 0 ? enclosing[enclosing.length - 1].calls : analyzer.moduleCalls;
+          if (!calls.some(c => c.name === call.name && c.modulePath === call.modulePath)) {
+            calls.push(call);
+          }
+        }
+      },
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      leave(n: any) {
+        if (analyzer.functionNodes.has(n as Node)) {
+          enclosing.pop();
+        }
+      }
+    });
+  }
+
+  /**
+   * Subtrees that declare names without running anything
+   */
+  private isDeclarationOnly(node: Node, parent: Node | null): boolean {
+    if (TYPE_ONLY_TYPES.has(node.type) || node.type === 'ImportDeclaration') {
+      return true;
+    }
+    if (node.type === 'ExportNamedDeclaration' && node.source) {
+      return true;
+    }
+    if (!parent) {
+      return false;
+    }
+    if (parent.type === 'VariableDeclarator' && parent.id === node) {
+      return true;
+    }
+    if (FUNCTION_TYPES.has(parent.type) && (parent.id === node || parent.params?.includes(node))) {
+      return true;
+    }
+    return parent.type === 'CatchClause' && (parent as Node & { param?: Node }).param === node;
+  }
+
+  private resolveCall(node: Node, parent: Node | null): FunctionCall | undefined {
+    if (node.type === 'Identifier' && node.name && this.isReference(node, parent)) {
+      // Re-exported module bindings stay calls: importers reach the module through this one
+      const binding = this.bindings.get(node.name);
+      if (binding) {
+        return this.resolveBindingCall(binding, node, parent);
+      }
+      return this.functionNames.has(node.name) && !this.declarationSites.has(node) ? { name: node.name } : undefined;
+    }
+
+    // module.exports.x() / exports.x() / this.x() call the function exported as x
+    if (node.type === 'MemberExpression' && !node.computed &&
+        !(parent?.type === 'AssignmentExpression' && parent.left === node) &&
+        (AstUtils.matchesMemberExpression(node.object, ['module', 'exports']) ||
+         AstUtils.matchesMemberExpression(node.object, ['exports']) ||
+         node.object?.type === 'ThisExpression')) {
+      const exportName = AstUtils.getPropertyName(node.property);
+      if (exportName && Object.prototype.hasOwnProperty.call(this.exports, exportName)) {
+        return { name: this.exports[exportName] };
+      }
+      return undefined;
+    }
+
+    // Unbound require('...') / import('...')
+    const modulePath = this.getModuleSpecifier(node);
+    if (modulePath && !this.declarationSites.has(node)) {
+      const memberName = parent?.type === 'MemberExpression' && parent.object === node && !parent.computed
+        ? AstUtils.getPropertyName(parent.property)
+        : null;
+      return { name: memberName ?? ALL_EXPORTS, modulePath };
+    }
+
+    return undefined;
+  }
+
+  private resolveBindingCall(binding: ModuleBinding, node: Node, parent: Node | null): FunctionCall {
+    if (binding.exportName) {
+      return { name: binding.exportName, modulePath: binding.modulePath };
+    }
+
+    if (parent?.type === 'MemberExpression' && parent.object === node) {
+      const memberName = parent.computed
+        ? (parent.property?.type === 'Literal' && typeof parent.property.value === 'string' ? parent.property.value : null)
+        : AstUtils.getPropertyName(parent.property);
+      if (memberName) {
+        return { name: memberName, modulePath: binding.modulePath };
+      }
+    }
+
+    if ((parent?.type === 'CallExpression' || parent?.type === 'NewExpression') && parent.callee === node) {
+      return { name: 'default', modulePath: binding.modulePath };
+    }
+
+    return { name: ALL_EXPORTS, modulePath: binding.modulePath };
+  }
+
+  /**
+   * Whether an identifier reads a variable (rather than naming a property, label or declaration)
+   */
+  private isReference(node: Node, parent: Node | null): boolean {
+    if (!parent) return true;
+
+    switch (parent.type) {
+      case 'MemberExpression':
+        return parent.object === node || !!parent.computed;
+      case 'Property':
+      case 'MethodDefinition':
+      case 'PropertyDefinition':
+        return parent.value === node || (!!parent.computed && parent.key === node);
+      case 'ClassDeclaration':
+      case 'ClassExpression':
+        return parent.id !== node;
+      case 'LabeledStatement':
+      case 'BreakStatement':
+      case 'ContinueStatement':
+      case 'MetaProperty':
+      case 'ImportSpecifier':
+      case 'ImportDefaultSpecifier':
+      case 'ImportNamespaceSpecifier':
+      case 'ExportSpecifier':
+        return false;
+      default:
+        return true;
+    }
+  }
+
+  private isFunction(node: Node | undefined): boolean {
+    return !!node && FUNCTION_TYPES.has(node.type);
+  }
+}
@@ -1,20 +1,24 @@
-import * as acorn from 'acorn';
 import { walk } from 'estree-walker';
 import * as fs from 'fs';
-import * as path from 'path';
-import { ComponentAnalysis, RequireInfo } from '../models/flow-analyzer-types';
+import { AnalyzerOptions, ComponentAnalysis, ConfigDependency, LibraryResolution, RequireInfo } from '../models/flow-analyzer-types';
 import { normalizePath, isLibraryPath as sharedIsLibraryPath } from '../shared';
+import { AnalysisCacheStore } from './analysis-cache-store';
 import { AstUtils, Node } from './ast-utils';
+import { CallGraphAnalyzer } from './call-graph-analyzer';
 import { ConfigDependencyAnalyzer } from './config-dependency-analyzer';
+import { ConstantResolver } from './constant-resolver';
 import { DataUsageAnalyzer } from './data-usage-analyzer';
 import { ExternalCallAnalyzer } from './external-call-analyzer';
+import { ExternalCallRules } from './external-call-rules';
 import { PathResolver } from './path-resolver';
+import { SourceParser } from './source-parser';
 
 /**
  * Cache entry for component analysis results
  */
 interface CacheEntry {
-  result: ComponentAnalysis;
+  result: ComponentAnalysis;                  // Analysis of the file itself, without children
+  views: Map<string, ComponentAnalysis>;      // Component trees by requested exports
   fileHash: string;
   timestamp: number;
 }
@@ -27,10 +31,19 @@ interface CacheEntry {
  * - ExternalCallAnalyzer: Handles external API calls (wrapper, httpClient)
  * - DataUsageAnalyzer: Handles res.locals, req.transaction, req.query, etc.
  * - ConfigDependencyAnalyzer: Handles appCache dependencies
+ * - CallGraphAnalyzer: Handles the function-level call graph
  * - PathResolver: Handles module path resolution
+ *
+ * When called with the exports a caller uses (e.g. a middleware's run), only the functions
+ * reachable from them are kept: data usages in other functions are dropped and only the
+ * modules they call become children, each pruned to the exports called.
  */
 export class ComponentAnalyzer {
   private cache = new Map<string, CacheEntry>();
+  // Reverse require graph: file path -> paths of the components that require it
+  private dependents = new Map<string, Set<string>>();
+  // Config dependencies of files only analyzed for project-wide checks (not in the component cache)
+  private fileConfigDeps = new Map<string, ConfigDependency[]>();
   private analysisStack = new Set<string>();
   private readonly MAX_DEPTH = 10;
 
@@ -39,15 +52,28 @@ export class ComponentAnalyzer {
   private externalCallAnalyzer: ExternalCallAnalyzer;
   private dataUsageAnalyzer: DataUsageAnalyzer;
   private configDependencyAnalyzer: ConfigDependencyAnalyzer;
+  private constantResolver: ConstantResolver;
+  private callGraphAnalyzer: CallGraphAnalyzer;
+  private persistentCache?: AnalysisCacheStore;
+  private rules: ExternalCallRules;
 
   constructor(
     private workspaceFolder: string,
-    private middlewareName: string
+    private middlewareName: string,
+    options: AnalyzerOptions = {}
   ) {
-    this.pathResolver = new PathResolver(workspaceFolder, middlewareName);
-    this.externalCallAnalyzer = new ExternalCallAnalyzer();
-    this.dataUsageAnalyzer = new DataUsageAnalyzer();
-    this.configDependencyAnalyzer = new ConfigDependencyAnalyzer();
+    if (options.cacheDir) {
+      this.persistentCache = new AnalysisCacheStore(options.cacheDir);
+    }
+    this.pathResolver = new PathResolver(
+      workspaceFolder, middlewareName, options.analyzablePackages, options.librarySources
+    );
+    this.constantResolver = new ConstantResolver(this.pathResolver);
+    this.rules = ExternalCallRules.load(workspaceFolder);
+    this.externalCallAnalyzer = new ExternalCallAnalyzer(this.constantResolver, this.rules);
+    this.dataUsageAnalyzer = new DataUsageAnalyzer(this.constantResolver);
+    this.configDependencyAnalyzer = new ConfigDependencyAnalyzer(this.constantResolver);
+    this.callGraphAnalyzer = new CallGraphAnalyzer();
   }
 
   /**
@@ -55,6 +81,76 @@ export class ComponentAnalyzer {
    */
   public clearCache(): void {
     this.cache.clear();
+    this.dependents.clear();
+    this.fileConfigDeps.clear();
+    this.constantResolver.clearCache();
+  }
+
+  /**
+   * Re-read the workspace rules file; when the rules changed, cached results are discarded
+   * (persisted entries are checked against the rules hash)
+   */
+  public reloadRules(): void {
+    const rules = ExternalCallRules.load(this.workspaceFolder);
+    if (rules.hash !== this.rules.hash) {
+      this.rules = rules;
+      this.externalCallAnalyzer.setRules(rules);
+      this.clearCache();
+    }
+  }
+
+  /**
+   * External call detection rules currently in effect (built-in and workspace rules)
+   */
+  public getExternalCallRules(): ExternalCallRules {
+    return this.rules;
+  }
+
+  /**
+   * The AGL libraries and the copies the requires resolve to
+   */
+  public getLibraries(): LibraryResolution[] {
+    return this.pathResolver.getLibraries();
+  }
+
+  /**
+   * Invalidate cached results for changed files and every component that
+   * (transitively) requires them. Unrelated cache entries are kept, so the
+   * next analysis only re-parses the affected chain.
+   * @returns The invalidated file paths (changed files that were cached plus their ancestors)
+   */
+  public invalidate(filePaths: string[]): string[] {
+    const invalidated = new Set<string>();
+    const queue = filePaths
+      .map(p => normalizePath(p))
+      .filter(p => this.cache.has(p) || this.dependents.has(p) || this.fileConfigDeps.has(p));
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (invalidated.has(current)) continue;
+
+      invalidated.add(current);
+      this.cache.delete(current);
+      this.fileConfigDeps.delete(current);
+      this.dependents.get(current)?.forEach(parent => queue.push(parent));
+    }
+
+    return Array.from(invalidated);
+  }
+
+  /**
+   * Config dependencies anywhere in a single file, regardless of which of its functions are called
+   * (kept until the file or a constants module it uses is invalidated)
+   */
+  public getFileConfigDependencies(filePath: string): ConfigDependency[] {
+    const normalizedPath = normalizePath(filePath);
+    const known = this.cache.get(normalizedPath)?.result.configDeps ?? this.fileConfigDeps.get(normalizedPath);
+    if (known) {
+      return known;
+    }
+    const configDeps = this.analyzeFile(normalizedPath)?.configDeps ?? [];
+    this.fileConfigDeps.set(normalizedPath, configDeps);
+    return configDeps;
   }
 
   /**
@@ -69,8 +165,9 @@ export class ComponentAnalyzer {
 
   /**
    * Analyze a component by its absolute file path
+   * @param entryExports Exports called by the parent; omitted to analyze the whole module and everything it requires
    */
-  public analyze(filePath: string, depth: number = 0, parentPath?: string): ComponentAnalysis | null {
+  public analyze(filePath: string, depth: number = 0, parentPath?: string, entryExports?: string[]): ComponentAnalysis | null {
     const normalizedPath = normalizePath(filePath);
     
     if (!fs.existsSync(normalizedPath)) {
@@ -81,14 +178,17 @@ export class ComponentAnalyzer {
       return this.createShallowReference(normalizedPath, depth, parentPath);
     }
 
-    const cached = this.cache.get(normalizedPath);
-    if (cached) {
-      const stats = fs.statSync(normalizedPath);
-      const currentHash = stats.mtimeMs.toString();
-      
-      if (cached.fileHash === currentHash) {
-        return this.createCachedReference(cached.result, depth, parentPath);
-      }
+    const currentHash = fs.statSync(normalizedPath).mtimeMs.toString();
+    const viewKey = entryExports ? Array.from(new Set(entryExports)).sort().join(',') : '';
+
+    let cached = this.cache.get(normalizedPath);
+    if (cached && cached.fileHash !== currentHash) {
+      cached = undefined;
+    }
+
+    const cachedView = cached?.views.get(viewKey);
+    if (cachedView) {
+      return this.createCachedReference(cachedView, depth, parentPath);
     }
 
     if (depth >= this.MAX_DEPTH) {
@@ -98,18 +198,24 @@ export class ComponentAnalyzer {
     this.analysisStack.add(normalizedPath);
 
     try {
-      const result = this.analyzeFile(normalizedPath, depth, parentPath);
-      
-      if (result) {
-        const stats = fs.statSync(normalizedPath);
-        this.cache.set(normalizedPath, {
+      if (!cached) {
+        const result = this.analyzeFile(normalizedPath);
+        if (!result) {
+          return null;
+        }
+
+        cached = {
           result,
-          fileHash: stats.mtimeMs.toString(),
+          views: new Map(),
+          fileHash: currentHash,
           timestamp: Date.now()
-        });
+        };
+        this.cache.set(normalizedPath, cached);
       }
 
-      return result;
+      const component = this.buildComponentTree(cached.result, depth, parentPath, entryExports);
+      cached.views.set(viewKey, component);
+      return component;
     } finally {
       this.analysisStack.delete(normalizedPath);
     }
@@ -118,37 +224,76 @@ export class ComponentAnalyzer {
   /**
    * Analyze a middleware entry point
    */
-  public analyzeMiddlewareEntry(middlewarePath: string): ComponentAnalysis | null {
-    const middlewareRoot = this.pathResolver.getMiddlewareRoot();
-    let fullPath = path.join(middlewareRoot, `${middlewarePath}.js`);
-    if (!fs.existsSync(fullPath)) {
-      fullPath = path.join(middlewareRoot, `${middlewarePath}/index.js`);
+  public analyzeMiddlewareEntry(middlewarePath: string, entryFunction: string = 'run'): ComponentAnalysis | null {
+    const fullPath = this.pathResolver.resolveMiddlewareEntry(middlewarePath);
+    if (!fullPath) {
+      return null;
     }
 
-    if (!fs.existsSync(fullPath)) {
-      return null;
+    return this.analyze(fullPath, 0, undefined, [entryFunction]);
+  }
+
+  /**
+   * Attach children to a file's own analysis. With entry exports, the file is pruned to the
+   * code reachable from them and each child to the exports that code calls.
+   */
+  private buildComponentTree(
+    fileAnalysis: ComponentAnalysis,
+    depth: number,
+    parentPath: string | undefined,
+    entryExports?: string[]
+  ): ComponentAnalysis {
+    const component: ComponentAnalysis = {
+      ...fileAnalysis,
+      depth,
+      parentPath,
+      children: []
+    };
+
+    if (!entryExports || !fileAnalysis.functionGraph) {
+      component.children = this.analyzeChildComponents(component.requires, component.filePath, depth + 1);
+      return component;
     }
 
-    return this.analyze(fullPath, 0);
+    const reachable = CallGraphAnalyzer.resolveReachable(fileAnalysis.functionGraph, entryExports);
+    const isReachable = (usage: { lineNumber: number }) => reachable.isReachable(usage.lineNumber);
+
+    component.resLocalsReads = fileAnalysis.resLocalsReads.filter(isReachable);
+    component.resLocalsWrites = fileAnalysis.resLocalsWrites.filter(isReachable);
+    component.reqTransactionReads = fileAnalysis.reqTransactionReads.filter(isReachable);
+    component.reqTransactionWrites = fileAnalysis.reqTransactionWrites.filter(isReachable);
+    component.dataUsages = fileAnalysis.dataUsages.filter(isReachable);
+    component.externalCalls = fileAnalysis.externalCalls.filter(isReachable);
+    component.configDeps = fileAnalysis.configDeps.filter(isReachable);
+    component.calledFunctions = reachable.functions.map(fn => fn.name);
+    component.children = this.analyzeChildComponents(component.requires, component.filePath, depth + 1, reachable.moduleExports);
+
+    return component;
   }
 
   /**
-   * Perform full analysis of a component file using AST
+   * Perform full analysis of a component file using AST (without child components)
    */
-  private analyzeFile(filePath: string, depth: number, parentPath?: string): ComponentAnalysis | null {
+  private analyzeFile(filePath: string): ComponentAnalysis | null {
     try {
       const content = fs.readFileSync(filePath, 'utf-8');
+      const contentHash = AnalysisCacheStore.hashContent(content);
+
+      // Reuse the persisted analysis of this file when its content is unchanged
+      const persisted = this.persistentCache?.get(filePath, contentHash, this.rules.hash);
+      if (persisted) {
+        this.recordConstantDependencies(persisted.dependencies, filePath);
+        return {
+          ...persisted.result,
+          requires: this.relinkRequires(persisted.result.requires, filePath)
+        };
+      }
+
       const lines = content.split('\n');
       
       let ast: Node;
       try {
-        ast = acorn.parse(content, {
-          ecmaVersion: 'latest',
-          sourceType: 'script',
-          locations: true,
-          allowHashBang: true,
-          allowReturnOutsideFunction: true
-        }) as Node;
+        ast = SourceParser.parse(content, filePath);
       } catch (parseError) {
         console.error(`Parse error in ${filePath}:`, parseError);
         return null;
@@ -159,8 +304,7 @@ export class ComponentAnalyzer {
         displayName: this.pathResolver.getDisplayName(filePath),
         filePath,
         exists: true,
-        depth,
-        parentPath,
+        depth: 0,
         resLocalsReads: [],
         resLocalsWrites: [],
         reqTransactionReads: [],
@@ -181,10 +325,13 @@ export class ComponentAnalyzer {
       this.configDependencyAnalyzer.reset();
 
       // Analyze AST
+      this.constantResolver.load(ast, filePath);
       this.analyzeAST(ast, component, lines, filePath, isLibrary);
+      component.functionGraph = this.callGraphAnalyzer.analyze(ast);
 
-      // Recursively analyze child components
-      component.children = this.analyzeChildComponents(component.requires, filePath, depth + 1);
+      const constantDependencies = this.constantResolver.getDependencies();
+      this.recordConstantDependencies(constantDependencies, filePath);
+      this.persistentCache?.set(filePath, contentHash, component, constantDependencies, this.rules.hash);
 
       return component;
     } catch (error) {
@@ -193,6 +340,18 @@ export class ComponentAnalyzer {
     }
   }
 
+  /**
+   * Re-resolve persisted require paths, since files may have been added or removed
+   * since the entry was written even though the requiring file did not change
+   */
+  private relinkRequires(requires: RequireInfo[], filePath: string): RequireInfo[] {
+    return requires.map(req => ({
+      ...req,
+      resolvedPath: this.pathResolver.resolvePath(req.modulePath, filePath),
+      isAnalyzable: this.pathResolver.isAnalyzable(req.modulePath)
+    }));
+  }
+
   /**
    * Main AST analysis entry point using estree-walker
    */
@@ -225,16 +384,43 @@ export class ComponentAnalyzer {
 
           case 'UnaryExpression':
             if (node.operator === 'delete' && node.argument?.type === 'MemberExpression') {
-              this.dataUsageAnalyzer.analyzeDeleteExpression(node, lineNumber, codeSnippet, component, sourcePath, isLibrary);
+              this.dataUsageAnalyzer.analyzeDeleteExpression(node, ancestors, lineNumber, codeSnippet, component, sourcePath, isLibrary);
             }
             break;
 
           case 'AssignmentExpression':
             this.analyzeExports(node, lineNumber, component);
+            this.dataUsageAnalyzer.analyzeAssignment(node, ancestors, lineNumber, codeSnippet, component, sourcePath, isLibrary);
+            break;
+
+          case 'ImportDeclaration':
+            this.handleImportDeclaration(node, lineNumber, component, seenRequires, sourcePath);
+            break;
+
+          case 'ImportExpression':
+            // Dynamic import('...') with a static specifier
+            if (node.source?.type === 'Literal' && typeof node.source.value === 'string') {
+              this.handleModuleReference(node.source.value, lineNumber, ancestors, component, seenRequires, sourcePath);
+            }
+            break;
+
+          case 'TSImportEqualsDeclaration':
+            // import x = require('...')
+            if (node.moduleReference?.type === 'TSExternalModuleReference' &&
+                typeof node.moduleReference.expression?.value === 'string') {
+              this.handleRequire(node.moduleReference.expression.value, lineNumber, node.id?.name ?? '', component, seenRequires, sourcePath);
+            }
+            break;
+
+          case 'ExportNamedDeclaration':
+          case 'ExportDefaultDeclaration':
+          case 'ExportAllDeclaration':
+            this.analyzeModuleExports(node, lineNumber, component, seenRequires, sourcePath);
             break;
 
           case 'VariableDeclarator':
             this.externalCallAnalyzer.trackWrapperMethodAssignment(node);
+            this.dataUsageAnalyzer.analyzeVariableDeclarator(node, ancestors, lineNumber, codeSnippet, component, sourcePath, isLibrary);
             break;
         }
 
@@ -263,28 +449,22 @@ export class ComponentAnalyzer {
     if (node.callee?.type === 'Identifier' && node.callee.name === 'require') {
       const arg = node.arguments?.[0];
       if (arg?.type === 'Literal' && typeof arg.value === 'string') {
-        const modulePath = arg.value;
-        this.handleRequire(modulePath, lineNumber, ancestors, component, seenRequires, sourcePath);
-        
-        // Detect and register wrapper type
-        const wrapperType = this.externalCallAnalyzer.detectWrapperType(modulePath);
-        if (wrapperType) {
-          this.externalCallAnalyzer.registerWrapperImports(ancestors, wrapperType);
-        }
+        this.handleModuleReference(arg.value, lineNumber, ancestors, component, seenRequires, sourcePath);
       }
     }
 
     // Delegate to specialized analyzers
     this.externalCallAnalyzer.analyze(node, ancestors, lineNumber, codeSnippet, component, sourcePath, isLibrary);
-    this.configDependencyAnalyzer.analyze(node, lineNumber, codeSnippet, component);
+    this.configDependencyAnalyzer.analyze(node, ancestors, lineNumber, codeSnippet, component, sourcePath, isLibrary);
+    this.dataUsageAnalyzer.analyzeObjectAssign(node, ancestors, lineNumber, codeSnippet, component, sourcePath, isLibrary);
     this.dataUsageAnalyzer.analyzeResponseMethods(node, lineNumber, codeSnippet, component, sourcePath, isLibrary);
     this.dataUsageAnalyzer.analyzeRequestHeaderMethod(node, lineNumber, codeSnippet, component, sourcePath, isLibrary);
   }
 
   /**
-   * Handle require statements
+   * Handle a require() or dynamic import() whose result is bound by a variable declaration
    */
-  private handleRequire(
+  private handleModuleReference(
     modulePath: string,
     lineNumber: number,
     ancestors: Node[],
@@ -292,18 +472,58 @@ export class ComponentAnalyzer {
     seen: Set<string>,
     currentFilePath: string
   ): void {
-    if (seen.has(modulePath)) return;
-    seen.add(modulePath);
+    this.handleRequire(modulePath, lineNumber, this.findBoundVariableName(ancestors), component, seen, currentFilePath);
+
+    // Detect and register wrapper type
+    const wrapperType = this.externalCallAnalyzer.detectWrapperType(modulePath);
+    if (wrapperType) {
+      this.externalCallAnalyzer.registerWrapperImports(ancestors, wrapperType);
+    }
+  }
+
+  /**
+   * Handle static import declarations
+   */
+  private handleImportDeclaration(
+    node: Node,
+    lineNumber: number,
+    component: ComponentAnalysis,
+    seen: Set<string>,
+    currentFilePath: string
+  ): void {
+    const modulePath = node.source?.value;
+    // Type-only imports (TypeScript) are erased at runtime
+    if (typeof modulePath !== 'string' || node.importKind === 'type') return;
+
+    // Mirror require() destructuring: named imports use the imported name, default/namespace the local one
+    const specifiers: Node[] = node.specifiers ?? [];
+    const variableName = specifiers
+      .filter(spec => spec.importKind !== 'type')
+      .map(spec => spec.type === 'ImportSpecifier'
+        ? AstUtils.getPropertyName(spec.imported)
+        : spec.local?.name)
+      .filter(Boolean)
+      .join(', ');
+
+    this.handleRequire(modulePath, lineNumber, variableName, component, seen, currentFilePath);
+
+    const wrapperType = this.externalCallAnalyzer.detectWrapperType(modulePath);
+    if (wrapperType) {
+      this.externalCallAnalyzer.registerImportSpecifiers(specifiers, wrapperType);
+    }
+  }
 
-    // Find variable name from ancestors
-    let variableName = '';
+  /**
+   * Find the variable name(s) a require()/import() result is assigned to
+   */
+  private findBoundVariableName(ancestors: Node[]): string {
     for (let i = ancestors.length - 1; i >= 0; i--) {
       const ancestor = ancestors[i];
       if (ancestor.type === 'VariableDeclarator' && ancestor.id) {
         if (ancestor.id.type === 'Identifier') {
-          variableName = ancestor.id.name ?? '';
+          return ancestor.id.name ?? '';
         } else if (ancestor.id.type === 'ObjectPattern' && ancestor.id.properties) {
-          variableName = ancestor.id.properties
+          return ancestor.id.properties
             .map((p: Node) => AstUtils.getPropertyName(p.key))
             .filter(Boolean)
             .join(', ');
@@ -311,6 +531,22 @@ export class ComponentAnalyzer {
         break;
       }
     }
+    return '';
+  }
+
+  /**
+   * Handle require statements
+   */
+  private handleRequire(
+    modulePath: string,
+    lineNumber: number,
+    variableName: string,
+    component: ComponentAnalysis,
+    seen: Set<string>,
+    currentFilePath: string
+  ): void {
+    if (seen.has(modulePath)) return;
+    seen.add(modulePath);
 
     const isLocal = modulePath.startsWith('./') || modulePath.startsWith('../');
     const isAglModule = modulePath.startsWith('@opus/agl-');
@@ -322,10 +558,63 @@ export class ComponentAnalyzer {
       resolvedPath,
       lineNumber,
       isLocal,
-      isAglModule
+      isAglModule,
+      isAnalyzable: this.pathResolver.isAnalyzable(modulePath)
     });
   }
 
+  /**
+   * Analyze ES module export declarations
+   */
+  private analyzeModuleExports(
+    node: Node,
+    lineNumber: number,
+    component: ComponentAnalysis,
+    seen: Set<string>,
+    currentFilePath: string
+  ): void {
+    if (node.exportKind === 'type') return;
+
+    // export ... from '...' re-exports another module
+    if (typeof node.source?.value === 'string') {
+      this.handleRequire(node.source.value, lineNumber, '', component, seen, currentFilePath);
+    }
+
+    const names: string[] = [];
+    if (node.type === 'ExportDefaultDeclaration') {
+      names.push('default');
+    } else if (node.type === 'ExportAllDeclaration') {
+      if (node.exported) {
+        names.push(AstUtils.getPropertyName(node.exported) ?? '');
+      }
+    } else if (node.declaration) {
+      // export function run() {} / export const run = ... / export class X {}
+      const declaration = node.declaration;
+      if (declaration.id?.name) {
+        names.push(declaration.id.name);
+      }
+      for (const declarator of declaration.declarations ?? []) {
+        if (declarator.id?.type === 'Identifier' && declarator.id.name) {
+          names.push(declarator.id.name);
+        }
+      }
+    } else {
+      // export { run, helper as other }
+      for (const spec of node.specifiers ?? []) {
+        if (spec.exportKind !== 'type') {
+          names.push(AstUtils.getPropertyName(spec.exported) ?? '');
+        }
+      }
+    }
+
+    for (const name of names.filter(Boolean)) {
+      component.exportedFunctions.push(name);
+      if (name === 'execute' || name === 'run') {
+        component.mainFunctionLine = lineNumber;
+      }
+    }
+  }
+
   /**
    * Analyze export statements
    */
@@ -390,6 +679,29 @@ export class ComponentAnalyzer {
     };
   }
 
+  private createUnresolvedReference(req: RequireInfo, depth: number, parentPath: string): ComponentAnalysis {
+    return {
+      name: req.modulePath,
+      displayName: req.modulePath,
+      filePath: '',
+      exists: false,
+      depth,
+      parentPath,
+      resLocalsReads: [],
+      resLocalsWrites: [],
+      reqTransactionReads: [],
+      reqTransactionWrites: [],
+      dataUsages: [],
+      externalCalls: [],
+      configDeps: [],
+      requires: [],
+      children: [],
+      exportedFunctions: [],
+      isUnresolved: true,
+      requireLine: req.lineNumber
+    };
+  }
+
   private createCachedReference(cached: ComponentAnalysis, depth: number, parentPath?: string): ComponentAnalysis {
     return {
       ...cached,
@@ -399,14 +711,31 @@ export class ComponentAnalyzer {
     };
   }
 
-  private analyzeChildComponents(requires: RequireInfo[], parentPath: string, depth: number): ComponentAnalysis[] {
+  /**
+   * @param moduleExports Exports called per module specifier; modules missing from it are never called and skipped
+   */
+  private analyzeChildComponents(
+    requires: RequireInfo[],
+    parentPath: string,
+    depth: number,
+    moduleExports?: Map<string, string[]>
+  ): ComponentAnalysis[] {
     const children: ComponentAnalysis[] = [];
 
     for (const req of requires) {
-      if (!req.resolvedPath) continue;
-      if (!req.isLocal && !req.isAglModule) continue;
+      if (!req.isAnalyzable) continue;
+
+      const calledExports = moduleExports?.get(req.modulePath);
+      if (moduleExports && !calledExports) continue;
+
+      if (!req.resolvedPath) {
+        children.push(this.createUnresolvedReference(req, depth, parentPath));
+        continue;
+      }
 
-      const child = this.analyze(req.resolvedPath, depth, parentPath);
+      this.recordDependent(normalizePath(req.resolvedPath), parentPath);
+
+      const child = this.analyze(req.resolvedPath, depth, parentPath, calledExports);
       if (child) {
         children.push(child);
       }
@@ -414,4 +743,22 @@ export class ComponentAnalyzer {
 
     return children;
   }
+
+  /**
+   * Constants modules a file's keys were resolved from invalidate it like required components
+   */
+  private recordConstantDependencies(dependencies: string[], filePath: string): void {
+    for (const dependency of dependencies) {
+      this.recordDependent(normalizePath(dependency), filePath);
+    }
+  }
+
+  private recordDependent(childPath: string, parentPath: string): void {
+    let parents = this.dependents.get(childPath);
+    if (!parents) {
+      parents = new Set<string>();
+      this.dependents.set(childPath, parents);
+    }
+    parents.add(parentPath);
+  }
 }
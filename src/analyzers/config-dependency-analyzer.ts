@@ -1,5 +1,16 @@
 import { ComponentAnalysis, ConfigDependency } from '../models/flow-analyzer-types';
-import { AstUtils, Node } from './ast-utils';
+import { AstUtils, DYNAMIC_PROPERTY, Node } from './ast-utils';
+import { ConstantResolver } from './constant-resolver';
+
+/**
+ * appCache methods and the config source they read
+ */
+const CONFIG_METHODS: { [methodName: string]: ConfigDependency['source'] } = {
+  'getMWareConfig': 'mWareConfig',
+  'getAppConfig': 'appConfig',
+  'getSysParameter': 'sysParameter',
+  'get': 'appCache'
+};
 
 /**
  * ConfigDependencyAnalyzer - Analyzes configuration dependencies
@@ -9,10 +20,15 @@ import { AstUtils, Node } from './ast-utils';
  * - appCache.getAppConfig()
  * - appCache.getSysParameter()
  * - appCache.get()
+ *
+ * Keys given as constants are resolved to their literal names; keys that cannot be
+ * resolved are reported as '(dynamic)' and calls without a key as 'default'.
  */
 export class ConfigDependencyAnalyzer {
   private seen = new Set<string>();
 
+  constructor(private constantResolver: ConstantResolver) {}
+
   /**
    * Reset state for new file analysis
    */
@@ -20,39 +36,40 @@ export class ConfigDependencyAnalyzer {
     this.seen.clear();
   }
 
+  /**
+   * Config source read by a CallExpression (appCache.getMWareConfig(...) -> mWareConfig), if any
+   */
+  static getConfigSource(node: Node): ConfigDependency['source'] | undefined {
+    const callee = node.callee;
+    if (node.type !== 'CallExpression' || callee?.type !== 'MemberExpression') return undefined;
+    if (AstUtils.getPropertyName(callee.object) !== 'appCache') return undefined;
+
+    const methodName = AstUtils.getPropertyName(callee.property);
+    return methodName && Object.prototype.hasOwnProperty.call(CONFIG_METHODS, methodName)
+      ? CONFIG_METHODS[methodName]
+      : undefined;
+  }
+
   /**
    * Analyze a CallExpression for config dependencies
    */
   analyze(
     node: Node,
+    ancestors: Node[],
     lineNumber: number,
     codeSnippet: string,
-    component: ComponentAnalysis
+    component: ComponentAnalysis,
+    sourcePath: string,
+    isLibrary: boolean
   ): void {
-    const callee = node.callee;
-    if (callee?.type !== 'MemberExpression') return;
-
-    const objectName = AstUtils.getPropertyName(callee.object);
-    if (objectName !== 'appCache') return;
-
-    const methodName = AstUtils.getPropertyName(callee.property);
-    if (!methodName) return;
-
-    const methodMap: { [key: string]: ConfigDependency['source'] } = {
-      'getMWareConfig': 'mWareConfig',
-      'getAppConfig': 'appConfig',
-      'getSysParameter': 'sysParameter',
-      'get': 'appCache'
-    };
-
-    const source = methodMap[methodName];
+    const source = ConfigDependencyAnalyzer.getConfigSource(node);
     if (!source) return;
 
     const firstArg = node.arguments?.[0];
     let key = 'default';
     
-    if (firstArg?.type === 'Literal' && typeof firstArg.value === 'string') {
-      key = firstArg.value;
+    if (firstArg) {
+      key = this.constantResolver.resolve(firstArg, ancestors) ?? DYNAMIC_PROPERTY;
     }
 
     const dedupKey = `${source}:${key}`;
@@ -62,7 +79,9 @@ export class ConfigDependencyAnalyzer {
         source,
         key,
         lineNumber,
-        codeSnippet
+        codeSnippet,
+        sourcePath,
+        isLibrary
       });
     }
   }
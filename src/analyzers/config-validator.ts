@@ -0,0 +1,189 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigDependency, ConfigIssue, MiddlewareAnalysis } from '../models/flow-analyzer-types';
+import { CONFIG_PREFIX, findJsonKeyLines, levenshteinDistance } from '../shared';
+import { DYNAMIC_PROPERTY } from './ast-utils';
+
+/**
+ * Config file backing each validated source (appCache.get reads a generic cache and is not validated)
+ */
+export const CONFIG_FILES: Partial<Record<ConfigDependency['source'], string>> = {
+  mWareConfig: 'mWareConfig.json',
+  appConfig: 'appConfig.json',
+  sysParameter: 'sysParameter.json'
+};
+
+/** Key recorded for calls without a key argument (the whole config) */
+const DEFAULT_KEY = 'default';
+
+/** Largest edit distance at which a missing key is reported as a typo of a defined key */
+const MAX_TYPO_DISTANCE = 2;
+
+/**
+ * Top-level keys of one config file
+ */
+interface ConfigFile {
+  filePath: string;
+  keyLines: Map<string, number>;  // key -> 1-based line of its definition
+}
+
+/**
+ * ConfigValidator - Cross-references config dependencies with the files in agl-config-<mw>/files
+ *
+ * - Missing key: read by the endpoint's code, but not a top-level key of the config file
+ * - Possible typo: a missing key within a small edit distance of a defined key
+ * - Unused key: defined, but read by no code of the middleware (nor used as a nanoConfigKey)
+ *
+ * Sources whose config file does not exist are not validated. Dynamic keys and calls without
+ * a key cannot be checked; usages inside library files still count as references, but are
+ * never reported.
+ */
+export class ConfigValidator {
+  constructor(
+    private workspaceFolder: string,
+    private middlewareName: string
+  ) {}
+
+  private get configDir(): string {
+    return path.join(this.workspaceFolder, `${CONFIG_PREFIX}${this.middlewareName}`, 'files');
+  }
+
+  /**
+   * Report config keys read by the middlewares of an endpoint that are not defined
+   */
+  validate(middlewares: MiddlewareAnalysis[]): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+    const configFiles = this.loadConfigFiles();
+
+    for (const mw of middlewares) {
+      for (const dep of mw.allConfigDeps) {
+        const configFile = configFiles.get(dep.source);
+        if (!configFile || !this.isCheckable(dep) || dep.isLibrary || !dep.sourcePath) {
+          continue;
+        }
+        if (configFile.keyLines.has(dep.key)) {
+          continue;
+        }
+
+        const fileName = path.basename(configFile.filePath);
+        const suggestion = this.findClosestKey(dep.key, Array.from(configFile.keyLines.keys()));
+        issues.push({
+          kind: suggestion ? 'possibleTypo' : 'missingKey',
+          source: dep.source,
+          key: dep.key,
+          suggestion,
+          middleware: mw.name,
+          filePath: dep.sourcePath,
+          lineNumber: dep.lineNumber,
+          codeSnippet: dep.codeSnippet,
+          message: suggestion
+            ? `${dep.source} key '${dep.key}' is not defined in ${fileName}. Did you mean '${suggestion}'?`
+            : `${dep.source} key '${dep.key}' is not defined in ${fileName}`
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Report config keys that no code of the middleware reads
+   * @param references All config dependencies found in the middleware's source files
+   */
+  findUnusedKeys(references: ConfigDependency[]): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+    const referencedKeys = new Set(references.map(dep => `${dep.source}:${dep.key}`));
+    for (const key of this.loadNanoConfigKeys()) {
+      referencedKeys.add(`mWareConfig:${key}`);
+    }
+
+    this.loadConfigFiles().forEach((configFile, source) => {
+      configFile.keyLines.forEach((lineNumber, key) => {
+        if (!referencedKeys.has(`${source}:${key}`)) {
+          issues.push({
+            kind: 'unusedKey',
+            source,
+            key,
+            filePath: configFile.filePath,
+            lineNumber,
+            message: `${source} key '${key}' is never read by the ${this.middlewareName} middleware`
+          });
+        }
+      });
+    });
+
+    return issues;
+  }
+
+  private isCheckable(dep: ConfigDependency): boolean {
+    return dep.key !== DEFAULT_KEY && dep.key.split('.')[0] !== DYNAMIC_PROPERTY;
+  }
+
+  /**
+   * Find the defined key a missing key most likely misspells
+   */
+  private findClosestKey(key: string, definedKeys: string[]): string | undefined {
+    let closest: string | undefined;
+    let closestDistance = Infinity;
+
+    for (const definedKey of definedKeys) {
+      const distance = levenshteinDistance(key.toLowerCase(), definedKey.toLowerCase());
+      // Short keys are only allowed fewer edits, otherwise every short key would match
+      if (distance <= MAX_TYPO_DISTANCE && distance < key.length / 3 && distance < closestDistance) {
+        closest = definedKey;
+        closestDistance = distance;
+      }
+    }
+
+    return closest;
+  }
+
+  /**
+   * Load the config files of all validated sources that exist
+   */
+  private loadConfigFiles(): Map<ConfigDependency['source'], ConfigFile> {
+    const configFiles = new Map<ConfigDependency['source'], ConfigFile>();
+
+    for (const [source, fileName] of Object.entries(CONFIG_FILES)) {
+      const filePath = path.join(this.configDir, fileName!);
+      if (!fs.existsSync(filePath)) {
+        continue;
+      }
+
+      try {
+        const content = fs.readFileSync(filePath, 'utf-8');
+        const config = JSON.parse(content);
+        if (config && typeof config === 'object' && !Array.isArray(config)) {
+          configFiles.set(source as ConfigDependency['source'], {
+            filePath,
+            keyLines: findJsonKeyLines(Object.keys(config), content)
+          });
+        }
+      } catch (error) {
+        console.error(`Failed to read config file ${filePath}:`, error);
+      }
+    }
+
+    return configFiles;
+  }
+
+  /**
+   * mWareConfig keys referenced by nanoConfigKey in customRoutes.json
+   */
+  private loadNanoConfigKeys(): string[] {
+    const filePath = path.join(this.configDir, 'customRoutes.json');
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+
+    try {
+      const routes = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      return Array.isArray(routes)
+        ? routes.map(route => route?.nanoConfigKey).filter((key): key is string => typeof key === 'string')
+        : [];
+    } catch (error) {
+      console.error(`Failed to read ${filePath}:`, error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComponentAnalysis, ConfigDependency, ExternalCall, MiddlewareAnalysis } from '../models/flow-analyzer-types';
+import { CONFIG_PREFIX } from '../shared';
+import { CONFIG_FILES } from './config-validator';
+
+/** A {placeholder} of a URL template */
+const PLACEHOLDER_PATTERN = /\{([^{}]+)\}/g;
+
+/**
+ * ConfigValueResolver - Fills the config placeholders of HTTP client URL templates with config file values
+ *
+ * `{mWareConfig.svc.host}` becomes the `host` property of the `svc` entry of mWareConfig.json
+ * (likewise for appConfig and sysParameter). Placeholders whose value is missing or not a string
+ * or number are kept, as are `{env.*}` and all other placeholders.
+ */
+export class ConfigValueResolver {
+  private configs = new Map<string, unknown>();
+
+  constructor(
+    private workspaceFolder: string,
+    private middlewareName: string
+  ) {}
+
+  /**
+   * Re-read the config files, so edits are picked up by the next analysis
+   */
+  load(): void {
+    this.configs.clear();
+    const configDir = path.join(this.workspaceFolder, `${CONFIG_PREFIX}${this.middlewareName}`, 'files');
+
+    for (const [source, fileName] of Object.entries(CONFIG_FILES)) {
+      const filePath = path.join(configDir, fileName!);
+      if (!fs.existsSync(filePath)) {
+        continue;
+      }
+      try {
+        this.configs.set(source, JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+      } catch (error) {
+        console.error(`Failed to read config file ${filePath}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Set the endpoint of every HTTP call of the middlewares from its URL template.
+   * Calls are shared with the component cache; the endpoint is recomputed on every analysis.
+   */
+  resolveExternalCalls(middlewares: MiddlewareAnalysis[]): void {
+    const resolveCalls = (calls: ExternalCall[]) => {
+      for (const call of calls) {
+        if (call.urlTemplate) {
+          call.endpoint = this.resolveUrl(call.urlTemplate);
+        }
+      }
+    };
+    const resolveComponents = (components: ComponentAnalysis[]) => {
+      for (const component of components) {
+        resolveCalls(component.externalCalls);
+        resolveComponents(component.children);
+      }
+    };
+
+    for (const mw of middlewares) {
+      resolveCalls(mw.externalCalls);
+      resolveCalls(mw.allExternalCalls);
+      resolveComponents(mw.components);
+    }
+  }
+
+  /**
+   * Replace the config placeholders of a URL template by their values
+   */
+  resolveUrl(urlTemplate: string): string {
+    return urlTemplate.replace(PLACEHOLDER_PATTERN, (placeholder, reference: string) => {
+      const [source, ...keyPath] = reference.split('.');
+      if (!this.configs.has(source as ConfigDependency['source']) || keyPath.length === 0) {
+        return placeholder;
+      }
+
+      let value = this.configs.get(source);
+      for (const key of keyPath) {
+        value = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+      }
+      return typeof value === 'string' || typeof value === 'number' ? String(value) : placeholder;
+    });
+  }
+}
@@ -0,0 +1,372 @@
+import * as fs from 'fs';
+import { AstUtils, Node } from './ast-utils';
+import { PathResolver } from './path-resolver';
+import { SourceParser } from './source-parser';
+
+/**
+ * A statically known value: a string or a (possibly nested) key object
+ */
+export type ConstantValue = string | ConstantObject;
+
+interface ConstantObject {
+  [key: string]: ConstantValue;
+}
+
+/** Lazily evaluated binding (evaluated at most once; cycles evaluate to undefined) */
+type Binding = () => ConstantValue | undefined;
+
+/**
+ * Exports of a constants module, cached by modification time
+ */
+interface ModuleExportsEntry {
+  mtimeMs: number;
+  exports: ConstantObject;
+  dependencies: string[];   // Constants modules the exports were derived from (transitively)
+}
+
+/**
+ * ConstantResolver - Lightweight constant propagation for computed keys and arguments
+ *
+ * Resolves expressions such as `KEYS.PAGE_DATA`, `CONFIG_NAME` or `` `${PREFIX}_DATA` `` to string literals using:
+ * - module-level `const` strings (including concatenation and template literals)
+ * - module-level key objects (plain or `Object.freeze()`)
+ * - constants modules loaded via require() / import (their exported consts and key objects)
+ *
+ * Only module-level bindings are tracked; anything else is left unresolved.
+ */
+export class ConstantResolver {
+  private bindings = new Map<string, Binding>();
+  private currentFilePath = '';
+  private dependencies = new Set<string>();
+  private moduleExports = new Map<string, ModuleExportsEntry>();
+  private loadingModules = new Set<string>();
+
+  constructor(private pathResolver: PathResolver) {}
+
+  /**
+   * Collect the module-level bindings of the file about to be analyzed
+   */
+  load(ast: Node, filePath: string): void {
+    this.currentFilePath = filePath;
+    this.dependencies.clear();
+    this.bindings = this.collectBindings(ast, filePath, this.dependencies);
+  }
+
+  /**
+   * Constants modules the current file's resolved values came from
+   */
+  getDependencies(): string[] {
+    return Array.from(this.dependencies);
+  }
+
+  /**
+   * Resolve an expression of the current file to a string.
+   * With ancestors, identifiers declared in enclosing function scopes are resolved first.
+   */
+  resolve(node: Node | undefined, ancestors?: Node[]): string | undefined {
+    if (!node) return undefined;
+
+    if (node.type === 'Identifier' && node.name && ancestors) {
+      const scoped = AstUtils.resolveVariableInScope(node.name, ancestors);
+      if (scoped) return scoped;
+    }
+
+    const value = this.evaluate(node, this.bindings, this.currentFilePath, this.dependencies);
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  /**
+   * Clear cached constants module exports
+   */
+  clearCache(): void {
+    this.moduleExports.clear();
+  }
+
+  // Private methods
+
+  /**
+   * Collect top-level const declarations and imports of a module
+   */
+  private collectBindings(ast: Node, filePath: string, dependencies: Set<string>): Map<string, Binding> {
+    const bindings = new Map<string, Binding>();
+    const body = Array.isArray(ast.body) ? ast.body : [];
+
+    for (const statement of body) {
+      // export const X = ... declares a binding as well
+      const declaration = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+      if (!declaration) continue;
+
+      if (declaration.type === 'VariableDeclaration' && declaration.kind === 'const') {
+        for (const declarator of declaration.declarations ?? []) {
+          this.bindDeclarator(declarator, bindings, filePath, dependencies);
+        }
+      } else if (declaration.type === 'ImportDeclaration' && typeof declaration.source?.value === 'string') {
+        const modulePath = declaration.source.value;
+        for (const spec of declaration.specifiers ?? []) {
+          const localName = spec.local?.name;
+          if (!localName) continue;
+
+          bindings.set(localName, this.lazy(() => {
+            const exports = this.getModuleExports(modulePath, filePath, dependencies);
+            if (!exports) return undefined;
+            if (spec.type === 'ImportNamespaceSpecifier') return exports;
+            if (spec.type === 'ImportDefaultSpecifier') return exports.default ?? exports;
+            const importedName = spec.imported?.name ?? (spec.imported?.value as string | undefined);
+            return importedName ? exports[importedName] : undefined;
+          }));
+        }
+      }
+    }
+
+    return bindings;
+  }
+
+  private bindDeclarator(declarator: Node, bindings: Map<string, Binding>, filePath: string, dependencies: Set<string>): void {
+    const init = declarator.init;
+    if (!init || !declarator.id) return;
+
+    if (declarator.id.type === 'Identifier' && declarator.id.name) {
+      bindings.set(declarator.id.name, this.lazy(() => this.evaluate(init, bindings, filePath, dependencies)));
+      return;
+    }
+
+    // const { KEYS, PAGE: { DATA } } = require('./constants')
+    if (declarator.id.type === 'ObjectPattern') {
+      const source = this.lazy(() => this.evaluate(init, bindings, filePath, dependencies));
+      this.bindPattern(declarator.id, source, bindings);
+    }
+  }
+
+  private bindPattern(pattern: Node, source: Binding, bindings: Map<string, Binding>): void {
+    for (const prop of pattern.properties ?? []) {
+      const key = prop.type === 'Property' && !prop.computed ? this.getKeyName(prop.key) : undefined;
+      const value = prop.value as Node | undefined;
+      if (!key || !value) continue;
+
+      const member = this.lazy(() => {
+        const object = source();
+        return typeof object === 'object' ? object[key] : undefined;
+      });
+
+      if (value.type === 'Identifier' && value.name) {
+        bindings.set(value.name, member);
+      } else if (value.type === 'ObjectPattern') {
+        this.bindPattern(value, member, bindings);
+      }
+    }
+  }
+
+  /**
+   * Evaluate an expression to a constant value
+   */
+  private evaluate(
+    node: Node,
+    bindings: Map<string, Binding>,
+    filePath: string,
+    dependencies: Set<string>
+  ): ConstantValue | undefined {
+    const evaluate = (n: Node | undefined) => n ? this.evaluate(n, bindings, filePath, dependencies) : undefined;
+
+    switch (node.type) {
+      case 'Literal':
+        return typeof node.value === 'string' ? node.value : undefined;
+
+      case 'TemplateLiteral': {
+        const quasis = node.quasis ?? [];
+        const expressions = node.expressions ?? [];
+        let result = '';
+        for (let i = 0; i < quasis.length; i++) {
+          result += (quasis[i].value as { cooked?: string })?.cooked ?? '';
+          if (i < expressions.length) {
+            const part = evaluate(expressions[i]);
+            if (typeof part !== 'string') return undefined;
+            result += part;
+          }
+        }
+        return result;
+      }
+
+      case 'BinaryExpression': {
+        if (node.operator !== '+') return undefined;
+        const left = evaluate(node.left);
+        const right = evaluate(node.right);
+        return typeof left === 'string' && typeof right === 'string' ? left + right : undefined;
+      }
+
+      case 'Identifier':
+        return node.name ? bindings.get(node.name)?.() : undefined;
+
+      case 'MemberExpression': {
+        const object = evaluate(node.object);
+        if (typeof object !== 'object') return undefined;
+        const key = node.computed ? evaluate(node.property) : this.getKeyName(node.property);
+        return typeof key === 'string' && Object.prototype.hasOwnProperty.call(object, key) ? object[key] : undefined;
+      }
+
+      case 'ObjectExpression': {
+        const result: ConstantObject = {};
+        for (const prop of node.properties ?? []) {
+          if (prop.type === 'SpreadElement') {
+            const spread = evaluate(prop.argument);
+            if (typeof spread === 'object') Object.assign(result, spread);
+            continue;
+          }
+          const key = prop.computed ? evaluate(prop.key) : this.getKeyName(prop.key);
+          const value = evaluate(prop.value as Node | undefined);
+          if (typeof key === 'string' && value !== undefined) {
+            result[key] = value;
+          }
+        }
+        return result;
+      }
+
+      case 'CallExpression': {
+        const callee = node.callee;
+        const firstArg = node.arguments?.[0];
+        // Object.freeze({ ... })
+        if (callee?.type === 'MemberExpression' &&
+            this.getKeyName(callee.object) === 'Object' &&
+            this.getKeyName(callee.property) === 'freeze') {
+          return evaluate(firstArg);
+        }
+        // require('./constants')
+        if (callee?.type === 'Identifier' && callee.name === 'require' &&
+            firstArg?.type === 'Literal' && typeof firstArg.value === 'string') {
+          return this.getModuleExports(firstArg.value, filePath, dependencies);
+        }
+        return undefined;
+      }
+
+      // TypeScript wrappers: `{ ... } as const`, `x satisfies T`, `x!`
+      case 'TSAsExpression':
+      case 'TSSatisfiesExpression':
+      case 'TSNonNullExpression':
+        return evaluate(node.expression);
+
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Load the exported constants of a required module
+   */
+  private getModuleExports(modulePath: string, fromFile: string, dependencies: Set<string>): ConstantObject | undefined {
+    const resolvedPath = this.pathResolver.resolvePath(modulePath, fromFile);
+    if (!resolvedPath || this.loadingModules.has(resolvedPath)) return undefined;
+
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(resolvedPath).mtimeMs;
+    } catch {
+      return undefined;
+    }
+
+    let entry = this.moduleExports.get(resolvedPath);
+    if (!entry || entry.mtimeMs !== mtimeMs) {
+      this.loadingModules.add(resolvedPath);
+      try {
+        const moduleDependencies = new Set<string>();
+        entry = {
+          mtimeMs,
+          exports: this.collectModuleExports(resolvedPath, moduleDependencies),
+          dependencies: Array.from(moduleDependencies)
+        };
+        this.moduleExports.set(resolvedPath, entry);
+      } finally {
+        this.loadingModules.delete(resolvedPath);
+      }
+    }
+
+    dependencies.add(resolvedPath);
+    entry.dependencies.forEach(dep => dependencies.add(dep));
+    return entry.exports;
+  }
+
+  /**
+   * Evaluate the exports of a module (CommonJS and ES module forms)
+   */
+  private collectModuleExports(filePath: string, dependencies: Set<string>): ConstantObject {
+    const exports: ConstantObject = {};
+
+    let ast: Node;
+    try {
+      ast = SourceParser.parse(fs.readFileSync(filePath, 'utf-8'), filePath);
+    } catch {
+      return exports;
+    }
+
+    const bindings = this.collectBindings(ast, filePath, dependencies);
+    const evaluate = (n: Node | undefined) => n ? this.evaluate(n, bindings, filePath, dependencies) : undefined;
+    const body = Array.isArray(ast.body) ? ast.body : [];
+
+    for (const statement of body) {
+      if (statement.type === 'ExpressionStatement' && statement.expression?.type === 'AssignmentExpression') {
+        const { left, right } = statement.expression;
+        if (left?.type !== 'MemberExpression') continue;
+
+        // module.exports = { ... } / module.exports = Object.freeze({ ... }) / module.exports = KEYS
+        if (this.isModuleExports(left)) {
+          const value = evaluate(right);
+          if (typeof value === 'object') Object.assign(exports, value);
+          continue;
+        }
+
+        // module.exports.X = ... / exports.X = ...
+        const key = this.getKeyName(left.property);
+        if (key && (this.isModuleExports(left.object) || this.getKeyName(left.object) === 'exports')) {
+          const value = evaluate(right);
+          if (value !== undefined) exports[key] = value;
+        }
+      } else if (statement.type === 'ExportNamedDeclaration') {
+        // export const X = ...
+        for (const declarator of statement.declaration?.declarations ?? []) {
+          const name = declarator.id?.name;
+          const value = name ? bindings.get(name)?.() : undefined;
+          if (name && value !== undefined) exports[name] = value;
+        }
+        // export { X, Y as Z }
+        if (!statement.source) {
+          for (const spec of statement.specifiers ?? []) {
+            const localName = spec.local?.name;
+            const exportedName = this.getKeyName(spec.exported);
+            const value = localName ? bindings.get(localName)?.() : undefined;
+            if (exportedName && value !== undefined) exports[exportedName] = value;
+          }
+        }
+      } else if (statement.type === 'ExportDefaultDeclaration') {
+        const value = evaluate(statement.declaration);
+        if (value !== undefined) exports.default = value;
+      }
+    }
+
+    return exports;
+  }
+
+  private isModuleExports(node: Node | undefined): boolean {
+    return node?.type === 'MemberExpression' &&
+      this.getKeyName(node.object) === 'module' &&
+      this.getKeyName(node.property) === 'exports';
+  }
+
+  private getKeyName(node: Node | undefined): string | undefined {
+    if (!node) return undefined;
+    if (node.type === 'Identifier') return node.name;
+    if (node.type === 'Literal' && (typeof node.value === 'string' || typeof node.value === 'number')) {
+      return String(node.value);
+    }
+    return undefined;
+  }
+
+  private lazy(compute: () => ConstantValue | undefined): Binding {
+    let evaluated = false;
+    let value: ConstantValue | undefined;
+    return () => {
+      if (!evaluated) {
+        evaluated = true;
+        value = compute();
+      }
+      return value;
+    };
+  }
+}
@@ -0,0 +1,114 @@
+import { DataIssue, MiddlewareAnalysis, ResLocalsUsage } from '../models/flow-analyzer-types';
+import { DYNAMIC_PROPERTY } from './ast-utils';
+
+// Whole-object access (res.locals = {...}, render(view, res.locals)) touches every property
+const DIRECT_PROPERTY = '(direct)';
+
+/**
+ * Reads and writes of one tracked object in one middleware of the chain
+ */
+interface ChainStep {
+  middleware: string;
+  reads: ResLocalsUsage[];
+  writes: ResLocalsUsage[];
+  isUnknown: boolean;  // Middleware source not found: it may read or write anything
+}
+
+/**
+ * DataIssueAnalyzer - Detects res.locals / req.transaction ordering problems across a middleware chain
+ *
+ * - Read before write: no earlier middleware (nor the reading one itself) writes the property
+ * - Unused write: neither the writing middleware nor a later one reads the property
+ *
+ * Nested paths match their parents (a write of `user` satisfies a read of `user.name`).
+ * Dynamic and whole-object accesses, and middlewares that could not be analyzed, match every
+ * property, so they suppress issues instead of causing them. Usages inside library files are
+ * never reported, but still count as producers and consumers.
+ */
+export class DataIssueAnalyzer {
+  /**
+   * Analyze the middlewares of an endpoint, in chain order
+   */
+  analyze(middlewares: MiddlewareAnalysis[]): DataIssue[] {
+    return [
+      ...this.analyzeSource('res.locals', middlewares.map(mw => ({
+        middleware: mw.name,
+        reads: mw.allResLocalsReads,
+        writes: mw.allResLocalsWrites,
+        isUnknown: !mw.exists
+      }))),
+      ...this.analyzeSource('req.transaction', middlewares.map(mw => ({
+        middleware: mw.name,
+        reads: mw.allReqTransactionReads,
+        writes: mw.allReqTransactionWrites,
+        isUnknown: !mw.exists
+      })))
+    ];
+  }
+
+  private analyzeSource(source: DataIssue['source'], chain: ChainStep[]): DataIssue[] {
+    const issues: DataIssue[] = [];
+
+    chain.forEach((step, index) => {
+      const upToHere = chain.slice(0, index + 1);
+      const fromHere = chain.slice(index);
+
+      if (!upToHere.some(s => s.isUnknown)) {
+        const producers = upToHere.flatMap(s => s.writes);
+        for (const read of step.reads.filter(usage => this.isReportable(usage))) {
+          if (!producers.some(write => this.matches(write.property, read.property))) {
+            issues.push(this.createIssue('readBeforeWrite', source, step.middleware, read,
+              `${source}.${read.property} is read by ${step.middleware} but not written by it or any earlier middleware`));
+          }
+        }
+      }
+
+      if (!fromHere.some(s => s.isUnknown)) {
+        const consumers = fromHere.flatMap(s => s.reads);
+        for (const write of step.writes.filter(usage => this.isReportable(usage))) {
+          if (!consumers.some(read => this.matches(write.property, read.property))) {
+            issues.push(this.createIssue('unusedWrite', source, step.middleware, write,
+              `${source}.${write.property} is written by ${step.middleware} but never read by it or any later middleware`));
+          }
+        }
+      }
+    });
+
+    return issues;
+  }
+
+  private isReportable(usage: ResLocalsUsage): boolean {
+    return !usage.isLibrary && !!usage.sourcePath && !this.isWildcard(usage.property);
+  }
+
+  private isWildcard(property: string): boolean {
+    return property === DIRECT_PROPERTY || property.split('.')[0] === DYNAMIC_PROPERTY;
+  }
+
+  /**
+   * Whether a write and a read refer to overlapping data
+   */
+  private matches(written: string, read: string): boolean {
+    return this.isWildcard(written) || this.isWildcard(read) ||
+      written === read || read.startsWith(`${written}.`) || written.startsWith(`${read}.`);
+  }
+
+  private createIssue(
+    kind: DataIssue['kind'],
+    source: DataIssue['source'],
+    middleware: string,
+    usage: ResLocalsUsage,
+    message: string
+  ): DataIssue {
+    return {
+      kind,
+      source,
+      property: usage.property,
+      middleware,
+      filePath: usage.sourcePath!,
+      lineNumber: usage.lineNumber,
+      codeSnippet: usage.codeSnippet,
+      message
+    };
+  }
+}
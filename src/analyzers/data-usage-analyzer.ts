@@ -1,5 +1,27 @@
 import { ComponentAnalysis, DataSourceType } from '../models/flow-analyzer-types';
-import { AstUtils, Node, WriteContext } from './ast-utils';
+import { AstUtils, KeyResolver, Node, WriteContext } from './ast-utils';
+import { ConstantResolver } from './constant-resolver';
+
+/**
+ * Request/response objects whose property accesses are tracked through aliases
+ */
+type TrackedObject = 'res.locals' | 'req.transaction';
+
+/**
+ * Root identifiers and property of each tracked object
+ */
+const TRACKED_OBJECTS: [string, string, TrackedObject][] = [
+  ['res', 'locals', 'res.locals'], ['response', 'locals', 'res.locals'],
+  ['req', 'transaction', 'req.transaction'], ['request', 'transaction', 'req.transaction']
+];
+
+/**
+ * A tracked object (or a nested object inside it) referenced by an expression
+ */
+interface TrackedPath {
+  target: TrackedObject;
+  path: string[];
+}
 
 /**
  * DataUsageAnalyzer - Analyzes data access patterns in components
@@ -10,8 +32,13 @@ import { AstUtils, Node, WriteContext } from './ast-utils';
  * - req.query, req.body, req.params, req.headers, req.cookies usage
  * - res.cookie, res.header writes
  * - req.header() method calls
+ *
+ * res.locals / req.transaction are also tracked through aliases within a function:
+ * `const ctx = res.locals`, `const { locals } = res`, destructured reads and Object.assign() writes.
  */
 export class DataUsageAnalyzer {
+  // Scope node (function or program) -> alias name -> tracked object
+  private aliases = new Map<Node, Map<string, TrackedObject>>();
   private seen = {
     resLocalsReads: new Set<string>(),
     resLocalsWrites: new Set<string>(),
@@ -20,10 +47,13 @@ export class DataUsageAnalyzer {
     dataUsages: new Set<string>()
   };
 
+  constructor(private constantResolver: ConstantResolver) {}
+
   /**
    * Reset state for new file analysis
    */
   reset(): void {
+    this.aliases.clear();
     this.seen.resLocalsReads.clear();
     this.seen.resLocalsWrites.clear();
     this.seen.reqTransactionReads.clear();
@@ -50,9 +80,81 @@ export class DataUsageAnalyzer {
     }
 
     const writeContext = AstUtils.getWriteContext(node, ancestors);
-    this.analyzeResLocals(node, lineNumber, codeSnippet, writeContext, component, sourcePath, isLibrary);
-    this.analyzeReqTransaction(node, lineNumber, codeSnippet, writeContext, component, sourcePath, isLibrary);
-    this.analyzeDataUsage(node, lineNumber, codeSnippet, writeContext, component, sourcePath, isLibrary);
+    const resolveKey = this.getKeyResolver(ancestors);
+    this.analyzeResLocals(node, lineNumber, codeSnippet, writeContext, resolveKey, component, sourcePath, isLibrary);
+    this.analyzeReqTransaction(node, lineNumber, codeSnippet, writeContext, resolveKey, component, sourcePath, isLibrary);
+    this.analyzeDataUsage(node, lineNumber, codeSnippet, writeContext, resolveKey, component, sourcePath, isLibrary);
+    this.analyzeAliasAccess(node, ancestors, lineNumber, codeSnippet, writeContext, component, sourcePath, isLibrary);
+  }
+
+  /**
+   * Analyze a variable declaration for aliases and destructured reads:
+   * - `const ctx = res.locals` / `const { locals } = res` register an alias
+   * - `const { a, b: { c } } = res.locals` (or an alias) reads a, b.c
+   */
+  analyzeVariableDeclarator(
+    node: Node,
+    ancestors: Node[],
+    lineNumber: number,
+    codeSnippet: string,
+    component: ComponentAnalysis,
+    sourcePath: string,
+    isLibrary: boolean
+  ): void {
+    if (!node.id || !node.init) return;
+    this.analyzeBinding(node.id, node.init, ancestors, lineNumber, codeSnippet, component, sourcePath, isLibrary);
+  }
+
+  /**
+   * Analyze an assignment for aliases (`ctx = res.locals`) and
+   * destructuring assignments (`({ a } = res.locals)`)
+   */
+  analyzeAssignment(
+    node: Node,
+    ancestors: Node[],
+    lineNumber: number,
+    codeSnippet: string,
+    component: ComponentAnalysis,
+    sourcePath: string,
+    isLibrary: boolean
+  ): void {
+    if (node.operator !== '=' || !node.left || !node.right) return;
+    if (node.left.type !== 'Identifier' && node.left.type !== 'ObjectPattern') return;
+    this.analyzeBinding(node.left, node.right, ancestors, lineNumber, codeSnippet, component, sourcePath, isLibrary);
+  }
+
+  /**
+   * Analyze Object.assign(res.locals | alias, { ... }) as writes of the assigned keys
+   */
+  analyzeObjectAssign(
+    node: Node,
+    ancestors: Node[],
+    lineNumber: number,
+    codeSnippet: string,
+    component: ComponentAnalysis,
+    sourcePath: string,
+    isLibrary: boolean
+  ): void {
+    const callee = node.callee;
+    if (callee?.type !== 'MemberExpression' ||
+        AstUtils.getPropertyName(callee.object) !== 'Object' ||
+        AstUtils.getPropertyName(callee.property) !== 'assign') {
+      return;
+    }
+
+    const [targetArg, ...sources] = node.arguments ?? [];
+    const tracked = targetArg ? this.resolveTrackedPath(targetArg, ancestors) : null;
+    if (!tracked) return;
+
+    for (const source of sources) {
+      if (source.type !== 'ObjectExpression') continue;
+      for (const prop of source.properties ?? []) {
+        const key = prop.type === 'Property' && !prop.computed ? AstUtils.getPropertyName(prop.key) : null;
+        if (key) {
+          this.recordTrackedUsage(tracked.target, [...tracked.path, key], true, lineNumber, codeSnippet, component, sourcePath, isLibrary);
+        }
+      }
+    }
   }
 
   /**
@@ -60,6 +162,7 @@ export class DataUsageAnalyzer {
    */
   analyzeDeleteExpression(
     node: Node,
+    ancestors: Node[],
     lineNumber: number,
     codeSnippet: string,
     component: ComponentAnalysis,
@@ -78,7 +181,8 @@ export class DataUsageAnalyzer {
     ];
 
     for (const { prefixes, seenSet, writesArray } of patterns) {
-      const propPath = prefixes.map(([obj, prop]) => AstUtils.extractPropertyPath(arg, obj, prop)).find(p => p);
+      const resolveKey = this.getKeyResolver(ancestors);
+      const propPath = prefixes.map(([obj, prop]) => AstUtils.extractPropertyPath(arg, obj, prop, resolveKey)).find(p => p);
       if (propPath) {
         const key = `${propPath}:${lineNumber}:${sourcePath}`;
         if (!seenSet.has(key)) {
@@ -181,17 +285,203 @@ export class DataUsageAnalyzer {
 
   // Private methods
 
+  /**
+   * Bind a declaration/assignment target to a value: register aliases or record destructured reads
+   */
+  private analyzeBinding(
+    target: Node,
+    value: Node,
+    ancestors: Node[],
+    lineNumber: number,
+    codeSnippet: string,
+    component: ComponentAnalysis,
+    sourcePath: string,
+    isLibrary: boolean
+  ): void {
+    const record = (tracked: TrackedPath, pattern: Node) => {
+      if (pattern.type === 'Identifier' && tracked.path.length === 0) {
+        this.registerAlias(pattern.name!, tracked.target, ancestors);
+      } else if (pattern.type === 'ObjectPattern') {
+        this.recordDestructuredReads(pattern, tracked, lineNumber, codeSnippet, component, sourcePath, isLibrary);
+      }
+    };
+
+    // const ctx = res.locals / const { a } = res.locals (or alias)
+    const tracked = this.resolveTrackedPath(value, ancestors);
+    if (tracked) {
+      record(tracked, target);
+      return;
+    }
+
+    // const { locals } = res / const { transaction: tx } = req
+    if (value.type === 'Identifier' && target.type === 'ObjectPattern') {
+      for (const prop of target.properties ?? []) {
+        const key = prop.type === 'Property' && !prop.computed ? AstUtils.getPropertyName(prop.key) : null;
+        const match = TRACKED_OBJECTS.find(([obj, objProp]) => obj === value.name && objProp === key);
+        if (match && prop.value) {
+          record({ target: match[2], path: [] }, this.unwrapDefault(prop.value as Node));
+        }
+      }
+    }
+  }
+
+  /**
+   * Record reads for each (nested) key of an object pattern
+   */
+  private recordDestructuredReads(
+    pattern: Node,
+    tracked: TrackedPath,
+    lineNumber: number,
+    codeSnippet: string,
+    component: ComponentAnalysis,
+    sourcePath: string,
+    isLibrary: boolean
+  ): void {
+    for (const prop of pattern.properties ?? []) {
+      const key = prop.type === 'Property' && !prop.computed ? AstUtils.getPropertyName(prop.key) : null;
+      if (!key) continue;
+
+      const path = [...tracked.path, key];
+      const value = prop.value ? this.unwrapDefault(prop.value as Node) : undefined;
+      if (value?.type === 'ObjectPattern') {
+        this.recordDestructuredReads(value, { target: tracked.target, path }, lineNumber, codeSnippet, component, sourcePath, isLibrary);
+      } else {
+        this.recordTrackedUsage(tracked.target, path, false, lineNumber, codeSnippet, component, sourcePath, isLibrary);
+      }
+    }
+  }
+
+  /**
+   * Analyze member expressions rooted at an alias (e.g. ctx.foo = ..., ctx.foo.bar)
+   */
+  private analyzeAliasAccess(
+    node: Node,
+    ancestors: Node[],
+    lineNumber: number,
+    codeSnippet: string,
+    writeContext: WriteContext,
+    component: ComponentAnalysis,
+    sourcePath: string,
+    isLibrary: boolean
+  ): void {
+    let root: Node | undefined = node;
+    while (root?.type === 'MemberExpression') {
+      root = root.object;
+    }
+    if (root?.type !== 'Identifier') return;
+
+    const tracked = this.resolveTrackedPath(node, ancestors);
+    if (!tracked || tracked.path.length === 0) return;
+
+    const isWrite = AstUtils.isWriteOperation(writeContext);
+    this.recordTrackedUsage(tracked.target, tracked.path, isWrite, lineNumber, codeSnippet, component, sourcePath, isLibrary);
+  }
+
+  /**
+   * Resolve an expression to a tracked object path:
+   * res.locals -> { res.locals, [] }, res.locals.a.b -> { res.locals, [a, b] }, ctx.a -> { res.locals, [a] }
+   */
+  private resolveTrackedPath(node: Node, ancestors: Node[]): TrackedPath | null {
+    const { root, path } = AstUtils.getMemberPath(node, this.getKeyResolver(ancestors));
+    if (root?.type !== 'Identifier' || !root.name) return null;
+
+    const alias = this.resolveAlias(root.name, ancestors);
+    if (alias) {
+      return { target: alias, path };
+    }
+
+    const match = TRACKED_OBJECTS.find(([obj, prop]) => obj === root.name && prop === path[0]);
+    return match ? { target: match[2], path: path.slice(1) } : null;
+  }
+
+  /**
+   * Resolve computed keys (res.locals[KEYS.PAGE]) through constants visible at this point
+   */
+  private getKeyResolver(ancestors: Node[]): KeyResolver {
+    return key => this.constantResolver.resolve(key, ancestors);
+  }
+
+  private registerAlias(name: string, target: TrackedObject, ancestors: Node[]): void {
+    const scope = AstUtils.findEnclosingScopes(ancestors)[0];
+    if (!scope) return;
+
+    let scopeAliases = this.aliases.get(scope);
+    if (!scopeAliases) {
+      scopeAliases = new Map<string, TrackedObject>();
+      this.aliases.set(scope, scopeAliases);
+    }
+    scopeAliases.set(name, target);
+  }
+
+  /**
+   * Look up an alias from the innermost scope outwards (closures see their function's aliases)
+   */
+  private resolveAlias(name: string, ancestors: Node[]): TrackedObject | undefined {
+    for (const scope of AstUtils.findEnclosingScopes(ancestors)) {
+      const target = this.aliases.get(scope)?.get(name);
+      if (target) return target;
+    }
+    return undefined;
+  }
+
+  /**
+   * Strip default values from destructuring patterns ({ a = 1 } -> a)
+   */
+  private unwrapDefault(pattern: Node): Node {
+    return pattern.type === 'AssignmentPattern' && pattern.left ? pattern.left : pattern;
+  }
+
+  /**
+   * Record a read/write of a tracked object property
+   */
+  private recordTrackedUsage(
+    target: TrackedObject,
+    path: string[],
+    isWrite: boolean,
+    lineNumber: number,
+    codeSnippet: string,
+    component: ComponentAnalysis,
+    sourcePath: string,
+    isLibrary: boolean
+  ): void {
+    let property: string | null = AstUtils.trimDynamicTail(path).join('.');
+    if (target === 'res.locals') {
+      property = AstUtils.cleanPropertyPath(property);
+    }
+    if (!property) return;
+
+    const [reads, writes, seenReads, seenWrites] = target === 'res.locals'
+      ? [component.resLocalsReads, component.resLocalsWrites, this.seen.resLocalsReads, this.seen.resLocalsWrites]
+      : [component.reqTransactionReads, component.reqTransactionWrites, this.seen.reqTransactionReads, this.seen.reqTransactionWrites];
+
+    const key = `${property}:${lineNumber}:${sourcePath}`;
+    const seenSet = isWrite ? seenWrites : seenReads;
+    if (seenSet.has(key)) return;
+
+    seenSet.add(key);
+    (isWrite ? writes : reads).push({
+      property,
+      type: isWrite ? 'write' : 'read',
+      lineNumber,
+      codeSnippet,
+      fullPath: property,
+      sourcePath,
+      isLibrary
+    });
+  }
+
   private analyzeResLocals(
     node: Node,
     lineNumber: number,
     codeSnippet: string,
     writeContext: WriteContext,
+    resolveKey: KeyResolver,
     component: ComponentAnalysis,
     sourcePath: string,
     isLibrary: boolean
   ): void {
     this.analyzePropertyAccess(
-      node, lineNumber, codeSnippet, writeContext,
+      node, lineNumber, codeSnippet, writeContext, resolveKey,
       [['res', 'locals'], ['response', 'locals']],
       component.resLocalsReads, component.resLocalsWrites,
       this.seen.resLocalsReads, this.seen.resLocalsWrites,
@@ -204,12 +494,13 @@ export class DataUsageAnalyzer {
     lineNumber: number,
     codeSnippet: string,
     writeContext: WriteContext,
+    resolveKey: KeyResolver,
     component: ComponentAnalysis,
     sourcePath: string,
     isLibrary: boolean
   ): void {
     this.analyzePropertyAccess(
-      node, lineNumber, codeSnippet, writeContext,
+      node, lineNumber, codeSnippet, writeContext, resolveKey,
       [['req', 'transaction'], ['request', 'transaction']],
       component.reqTransactionReads, component.reqTransactionWrites,
       this.seen.reqTransactionReads, this.seen.reqTransactionWrites,
@@ -222,6 +513,7 @@ export class DataUsageAnalyzer {
     lineNumber: number,
     codeSnippet: string,
     writeContext: WriteContext,
+    resolveKey: KeyResolver,
     component: ComponentAnalysis,
     sourcePath: string,
     isLibrary: boolean
@@ -235,7 +527,7 @@ export class DataUsageAnalyzer {
     ];
 
     for (const [obj, prop, sourceType] of dataTypes) {
-      const property = AstUtils.extractPropertyPath(node, obj, prop);
+      const property = AstUtils.extractPropertyPath(node, obj, prop, resolveKey);
       if (property) {
         const usageType: 'write' | 'read' = AstUtils.isWriteOperation(writeContext) ? 'write' : 'read';
         const key = `${sourceType}:${property}:${lineNumber}:${usageType}`;
@@ -253,6 +545,7 @@ export class DataUsageAnalyzer {
     lineNumber: number,
     codeSnippet: string,
     writeContext: WriteContext,
+    resolveKey: KeyResolver,
     prefixes: [string, string][],
     readsArray: ComponentAnalysis['resLocalsReads'],
     writesArray: ComponentAnalysis['resLocalsWrites'],
@@ -265,7 +558,7 @@ export class DataUsageAnalyzer {
     let property: string | null = null;
     
     for (const [obj, prop] of prefixes) {
-      property = AstUtils.extractPropertyPath(node, obj, prop);
+      property = AstUtils.extractPropertyPath(node, obj, prop, resolveKey);
       if (property) break;
     }
 
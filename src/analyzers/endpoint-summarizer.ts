@@ -0,0 +1,170 @@
+import * as fs from 'fs';
+import {
+  ComponentAnalysis,
+  EndpointConfig,
+  EndpointSummary,
+  FlowAnalysisResult,
+  IndexedComponent,
+  IndexedExport,
+  IndexedExternalCall,
+  ResLocalsUsage
+} from '../models/flow-analyzer-types';
+
+/**
+ * EndpointSummarizer - Reduces flow analysis results to the compact summaries of the endpoint index
+ *
+ * A summary keeps what reverse lookups need (components, external calls, config keys, data properties)
+ * and the modification times of the analyzed files, which tell whether it is still up to date.
+ */
+export class EndpointSummarizer {
+  /**
+   * Identify an endpoint across middlewares
+   */
+  static getKey(middlewareName: string, endpoint: EndpointConfig): string {
+    return `${middlewareName} ${(endpoint.method ?? 'get').toUpperCase()} ${endpoint.endpointUri}`;
+  }
+
+  summarize(middlewareName: string, result: FlowAnalysisResult): EndpointSummary {
+    const components: IndexedComponent[] = [];
+    const collect = (children: ComponentAnalysis[], middleware: string) => {
+      for (const comp of children) {
+        if (!comp.isUnresolved && comp.filePath) {
+          components.push({
+            name: comp.name,
+            filePath: comp.filePath,
+            middleware,
+            depth: comp.depth,
+            parentPath: comp.parentPath,
+            calledFunctions: comp.calledFunctions,
+            exports: this.getExports(comp)
+          });
+        }
+        collect(comp.children, middleware);
+      }
+    };
+    for (const mw of result.middlewares) {
+      if (mw.exists) {
+        // The middleware's call graph is not kept; its entry function is the one export known
+        const exports = mw.runFunctionLine ? [{ name: 'run', localName: 'run', line: mw.runFunctionLine }] : undefined;
+        components.push({ name: mw.name, filePath: mw.filePath, middleware: mw.name, depth: -1, exports });
+      }
+      collect(mw.components, mw.name);
+    }
+
+    const middlewares = result.middlewares;
+    return {
+      key: EndpointSummarizer.getKey(middlewareName, result.endpoint),
+      middlewareName,
+      endpoint: result.endpoint,
+      analyzedAt: new Date().toISOString(),
+      components,
+      externalCalls: middlewares.flatMap(mw => mw.allExternalCalls.map(call => ({
+        type: call.type,
+        target: call.endpoint ?? call.urlTemplate ?? call.template,
+        templateNames: call.templateNames,
+        method: call.method,
+        middleware: mw.name,
+        sourcePath: call.sourcePath,
+        lineNumber: call.lineNumber
+      }))),
+      configKeys: middlewares.flatMap(mw => mw.allConfigDeps.map(dep => ({
+        source: dep.source,
+        key: dep.key,
+        middleware: mw.name,
+        sourcePath: dep.sourcePath,
+        lineNumber: dep.lineNumber
+      }))),
+      resLocals: {
+        reads: this.propertyNames(middlewares.flatMap(mw => mw.allResLocalsReads)),
+        writes: this.propertyNames(middlewares.flatMap(mw => mw.allResLocalsWrites))
+      },
+      reqTransaction: {
+        reads: this.propertyNames(middlewares.flatMap(mw => mw.allReqTransactionReads)),
+        writes: this.propertyNames(middlewares.flatMap(mw => mw.allReqTransactionWrites))
+      },
+      files: this.statFiles([...middlewares.map(mw => mw.filePath), ...components.map(comp => comp.filePath)])
+    };
+  }
+
+  /**
+   * Summary of an endpoint whose analysis failed (re-analyzed once one of its middleware files changes)
+   */
+  summarizeFailure(middlewareName: string, endpoint: EndpointConfig, middlewarePaths: string[], error: string): EndpointSummary {
+    return {
+      key: EndpointSummarizer.getKey(middlewareName, endpoint),
+      middlewareName,
+      endpoint,
+      analyzedAt: new Date().toISOString(),
+      components: [],
+      externalCalls: [],
+      configKeys: [],
+      resLocals: { reads: [], writes: [] },
+      reqTransaction: { reads: [], writes: [] },
+      files: this.statFiles(middlewarePaths),
+      error
+    };
+  }
+
+  /**
+   * Check whether a summary still describes the endpoint: same customRoutes.json entry, files unchanged
+   */
+  isUpToDate(summary: EndpointSummary, endpoint: EndpointConfig): boolean {
+    return JSON.stringify(summary.endpoint) === JSON.stringify(endpoint)
+      && Object.entries(summary.files).every(([filePath, mtime]) => this.getMtime(filePath) === mtime);
+  }
+
+  /**
+   * Components from the middleware down to the file of a call site (the call path shown for reverse lookups)
+   */
+  getCallPath(summary: EndpointSummary, call: IndexedExternalCall): IndexedComponent[] {
+    const components = summary.components.filter(comp => comp.middleware === call.middleware);
+    const callPath: IndexedComponent[] = [];
+    const visited = new Set<string>();
+
+    let current = components.find(comp => comp.filePath === call.sourcePath)
+      ?? components.find(comp => comp.depth === -1);
+    while (current && !visited.has(current.filePath)) {
+      visited.add(current.filePath);
+      callPath.unshift(current);
+      const parentPath = current.parentPath;
+      current = parentPath ? components.find(comp => comp.filePath === parentPath) : undefined;
+    }
+    return callPath;
+  }
+
+  /**
+   * Exported functions and their lines, from the component's call graph
+   */
+  private getExports(comp: ComponentAnalysis): IndexedExport[] | undefined {
+    const graph = comp.functionGraph;
+    if (!graph) {
+      return undefined;
+    }
+    return Object.entries(graph.exports).flatMap(([name, localName]) => {
+      const fn = graph.functions.find(candidate => candidate.name === localName);
+      return fn ? [{ name, localName, line: fn.startLine }] : [];
+    });
+  }
+
+  private propertyNames(usages: ResLocalsUsage[]): string[] {
+    return Array.from(new Set(usages.map(usage => usage.property))).sort();
+  }
+
+  private statFiles(filePaths: string[]): Record<string, number> {
+    const files: Record<string, number> = {};
+    for (const filePath of filePaths) {
+      if (filePath) {
+        files[filePath] = this.getMtime(filePath);
+      }
+    }
+    return files;
+  }
+
+  private getMtime(filePath: string): number {
+    try {
+      return fs.statSync(filePath).mtimeMs;
+    } catch {
+      return -1;
+    }
+  }
+}
@@ -1,46 +1,22 @@
-import { walk } from 'estree-walker';
-import { ComponentAnalysis } from '../models/flow-analyzer-types';
-import { AstUtils, Node } from './ast-utils';
+import { ComponentAnalysis, ExternalCall } from '../models/flow-analyzer-types';
+import { AstUtils, DYNAMIC_PROPERTY, Node } from './ast-utils';
+import { ConfigDependencyAnalyzer } from './config-dependency-analyzer';
+import { ConstantResolver } from './constant-resolver';
+import { ExternalCallRules } from './external-call-rules';
 
-/**
- * External call type derived from require path
- */
-export type ExternalCallType = 'dcq' | 'avs' | 'ava' | 'dsf' | 'elasticsearch' | 'external' | 'pinboard' | 'microservice' | 'http' | 'cache';
+/** Placeholder for URL parts that cannot be described */
+const UNKNOWN_URL_PART = '{…}';
 
-/**
- * Regex to extract wrapper type from require path
- */
-const WRAPPER_PATH_PATTERN = /\/wrapper\/request\/(\w+)(?:\.js)?$/;
+/** How many variable initializers are followed when building a URL template */
+const MAX_URL_DEPTH = 5;
 
 /**
- * Map short names to canonical type names
+ * Template argument of a wrapper call
  */
-const WRAPPER_TYPE_ALIASES: Record<string, ExternalCallType> = {
-  'es': 'elasticsearch'
-};
-
-/**
- * Template argument position for specific methods
- */
-const TEMPLATE_ARG_INDEX: [RegExp, number][] = [
-  [/^callAVSDCQTemplate$/, 4],
-  [/^callDCQ$/, 6],
-  [/^callAVS$/, 4],
-  [/^callAVSB2C(WithFullResponse)?$/, 2],
-  [/^callAVSB2B(WithFullResponse)?$/, 3],
-  [/^callAVSB2BVersioned(WithFullResponse)?$/, 4],
-  [/^callAVSESTemplate$/, 2],
-  [/^callDcqDecoupledESTemplate$/, 2],
-  [/^call(ES|ESTemplate)$/, 3],
-  [/^callExternal$/, 3],
-  [/^callDsf$/, 2],
-  [/^callAVSDCQSearch$/, -1],
-  [/^callAVSESSearch$/, 2],
-  [/^callPinboard$/, 3],
-  [/^callAVA$/, 3],
-  [/^callGet(AggregatedContentDetail|Live(ContentMetadata|ChannelList|Info)|VodContentMetadata|LauncherMetadata|Epg)$/, -1],
-  [/^callSearch(Suggestions|VodEvents|Contents)$/, -1],
-];
+interface TemplateArg {
+  label: string;     // Display name (alternatives joined with ' | ', or the variable name)
+  names: string[];   // Template names the argument can hold; empty when it is not a known value
+}
 
 /**
  * ExternalCallAnalyzer - Analyzes external API calls in components
@@ -49,11 +25,27 @@ const TEMPLATE_ARG_INDEX: [RegExp, number][] = [
  * - Wrapper calls (callAVS, callDCQ, etc.)
  * - HTTP client calls (httpClient, forwardRequest)
  * - Template arguments and URL patterns
+ * - URL templates of HTTP client calls, with config lookups and other dynamic parts as
+ *   {placeholders} (resolved against the config files by ConfigValueResolver)
+ *
+ * Wrapper modules, call types and template argument positions come from ExternalCallRules.
  */
 export class ExternalCallAnalyzer {
-  private wrapperImports = new Map<string, ExternalCallType>();
+  private wrapperImports = new Map<string, string>();
   private seen = new Set<string>();
 
+  constructor(
+    private constantResolver: ConstantResolver,
+    private rules: ExternalCallRules
+  ) {}
+
+  /**
+   * Replace the detection rules (e.g. after the workspace rules file changed)
+   */
+  setRules(rules: ExternalCallRules): void {
+    this.rules = rules;
+  }
+
   /**
    * Reset state for new file analysis
    */
@@ -65,26 +57,21 @@ export class ExternalCallAnalyzer {
   /**
    * Get wrapper imports map (for external access)
    */
-  getWrapperImports(): Map<string, ExternalCallType> {
+  getWrapperImports(): Map<string, string> {
     return this.wrapperImports;
   }
 
   /**
    * Detect wrapper type from require path
    */
-  detectWrapperType(modulePath: string): ExternalCallType | null {
-    const match = WRAPPER_PATH_PATTERN.exec(modulePath);
-    if (match) {
-      const rawType = match[1];
-      return WRAPPER_TYPE_ALIASES[rawType] || rawType as ExternalCallType;
-    }
-    return null;
+  detectWrapperType(modulePath: string): string | null {
+    return this.rules.detectWrapperType(modulePath);
   }
 
   /**
    * Register wrapper imports from require statement
    */
-  registerWrapperImports(ancestors: Node[], wrapperType: ExternalCallType): void {
+  registerWrapperImports(ancestors: Node[], wrapperType: string): void {
     for (let i = ancestors.length - 1; i >= 0; i--) {
       const ancestor = ancestors[i];
       if (ancestor.type === 'VariableDeclarator' && ancestor.id) {
@@ -104,6 +91,18 @@ export class ExternalCallAnalyzer {
     }
   }
 
+  /**
+   * Register wrapper imports from an ES import declaration's specifiers
+   */
+  registerImportSpecifiers(specifiers: Node[], wrapperType: string): void {
+    for (const spec of specifiers) {
+      const localName = spec.local?.name;
+      if (localName) {
+        this.wrapperImports.set(localName, wrapperType);
+      }
+    }
+  }
+
   /**
    * Track local variable assignments that reference wrapper methods
    */
@@ -145,8 +144,7 @@ export class ExternalCallAnalyzer {
 
     // Check for httpClient/forwardRequest calls
     if (methodName === 'httpClient' || methodName === 'forwardRequest') {
-      const urlTemplate = this.extractHttpClientUrl(node, ancestors);
-      this.addExternalCall(component, 'http', urlTemplate || methodName, lineNumber, codeSnippet, sourcePath, isLibrary);
+      this.addHttpCall(node, ancestors, methodName, component, lineNumber, codeSnippet, sourcePath, isLibrary);
       return;
     }
 
@@ -155,8 +153,7 @@ export class ExternalCallAnalyzer {
       const nestedProp = AstUtils.getPropertyName(callee.object.property);
       const topMethod = AstUtils.getPropertyName(callee.property);
       if (nestedProp === 'v2' && topMethod === 'httpClient') {
-        const urlTemplate = this.extractHttpClientUrl(node, ancestors);
-        this.addExternalCall(component, 'http', urlTemplate || 'httpClient', lineNumber, codeSnippet, sourcePath, isLibrary);
+        this.addHttpCall(node, ancestors, 'httpClient', component, lineNumber, codeSnippet, sourcePath, isLibrary);
         return;
       }
     }
@@ -164,39 +161,62 @@ export class ExternalCallAnalyzer {
     // wrapper.callXxx() - infer type from wrapper variable
     if (objectName && this.wrapperImports.has(objectName)) {
       const inferredType = this.wrapperImports.get(objectName)!;
-      const template = this.extractTemplateArg(node, methodName, ancestors) || methodName.replace(/^call/, '');
-      this.addExternalCall(component, inferredType, template, lineNumber, codeSnippet, sourcePath, isLibrary);
+      const templateArg = this.extractTemplateArg(node, methodName, ancestors);
+      const template = templateArg?.label || methodName.replace(/^call/, '');
+      this.addExternalCall(component, inferredType, template, lineNumber, codeSnippet, sourcePath, isLibrary, {
+        templateNames: templateArg?.names.length ? templateArg.names : undefined
+      });
       return;
     }
 
     // callXxx() directly - infer type from function name
     if (this.wrapperImports.has(methodName)) {
       const inferredType = this.wrapperImports.get(methodName)!;
-      const template = this.extractTemplateArg(node, methodName, ancestors) || methodName.replace(/^call/, '');
-      this.addExternalCall(component, inferredType, template, lineNumber, codeSnippet, sourcePath, isLibrary);
+      const templateArg = this.extractTemplateArg(node, methodName, ancestors);
+      const template = templateArg?.label || methodName.replace(/^call/, '');
+      this.addExternalCall(component, inferredType, template, lineNumber, codeSnippet, sourcePath, isLibrary, {
+        templateNames: templateArg?.names.length ? templateArg.names : undefined
+      });
       return;
     }
   }
 
   // Private methods
 
+  private addHttpCall(
+    node: Node,
+    ancestors: Node[],
+    methodName: string,
+    component: ComponentAnalysis,
+    lineNumber: number,
+    codeSnippet: string,
+    sourcePath: string,
+    isLibrary: boolean
+  ): void {
+    const urlNode = this.findHttpClientUrlNode(node, ancestors);
+    const template = urlNode ? this.extractUrlFromExpression(urlNode) : null;
+    const urlTemplate = urlNode ? this.buildUrlTemplate(urlNode, ancestors) : undefined;
+    this.addExternalCall(component, 'http', template || methodName, lineNumber, codeSnippet, sourcePath, isLibrary, { urlTemplate });
+  }
+
   private addExternalCall(
     component: ComponentAnalysis,
-    type: ExternalCallType,
+    type: string,
     template: string,
     lineNumber: number,
     codeSnippet: string,
     sourcePath: string,
-    isLibrary: boolean
+    isLibrary: boolean,
+    details: Pick<ExternalCall, 'urlTemplate' | 'templateNames'> = {}
   ): void {
     const key = `${type}:${template}:${lineNumber}:${sourcePath}`;
     if (!this.seen.has(key)) {
       this.seen.add(key);
-      component.externalCalls.push({ type, lineNumber, template, codeSnippet, sourcePath, isLibrary });
+      component.externalCalls.push({ type, lineNumber, template, ...details, codeSnippet, sourcePath, isLibrary });
     }
   }
 
-  private extractWrapperTypeFromExpression(node: Node): ExternalCallType | null {
+  private extractWrapperTypeFromExpression(node: Node): string | null {
     if (node.type === 'MemberExpression') {
       const objectName = AstUtils.getPropertyName(node.object);
       if (objectName && this.wrapperImports.has(objectName)) {
@@ -223,25 +243,27 @@ export class ExternalCallAnalyzer {
     return null;
   }
 
-  private extractTemplateArg(node: Node, methodName?: string, ancestors?: Node[]): string | undefined {
+  private extractTemplateArg(node: Node, methodName?: string, ancestors?: Node[]): TemplateArg | undefined {
     if (!node.arguments) return undefined;
 
-    if (methodName) {
-      for (const [pattern, argIndex] of TEMPLATE_ARG_INDEX) {
-        if (argIndex >= 0 && argIndex < node.arguments.length && node.arguments[argIndex] && pattern.test(methodName)) {
-          const arg = node.arguments[argIndex];
-          const values = AstUtils.extractPossibleStringValues(arg);
-          if (values.length > 0) {
-            return values.join(' | ');
-          }
-          if (arg?.type === 'Identifier' && arg.name) {
-            if (ancestors) {
-              const resolved = AstUtils.resolveVariableInScope(arg.name, ancestors);
-              if (resolved) return resolved;
-            }
-            return arg.name;
-          }
+    const argIndex = methodName ? this.rules.getTemplateArgIndex(methodName) : undefined;
+    if (argIndex !== undefined && argIndex >= 0 && argIndex < node.arguments.length && node.arguments[argIndex]) {
+      const arg = node.arguments[argIndex];
+      const values = AstUtils.extractPossibleStringValues(arg);
+      if (values.length > 0) {
+        return { label: values.join(' | '), names: values };
+      }
+      // Constants (KEYS.TEMPLATE, module-level consts, template literals)
+      const constant = this.constantResolver.resolve(arg, ancestors);
+      if (constant) {
+        return { label: constant, names: [constant] };
+      }
+      if (arg?.type === 'Identifier' && arg.name) {
+        if (ancestors) {
+          const resolved = AstUtils.resolveVariableInScope(arg.name, ancestors);
+          if (resolved) return { label: resolved, names: resolved.split(' | ') };
         }
+        return { label: arg.name, names: [] };
       }
     }
 
@@ -251,47 +273,45 @@ export class ExternalCallAnalyzer {
       if (arg?.type === 'Literal' && typeof arg.value === 'string') {
         const val = arg.value;
         if (val.length > 2 && !val.includes('/') && !/^(GET|POST|PUT|DELETE)$/i.test(val)) {
-          return val;
+          return { label: val, names: [val] };
         }
       }
     }
     return undefined;
   }
 
-  private extractHttpClientUrl(node: Node, ancestors: Node[]): string | null {
+  /**
+   * Find the `url` expression of an httpClient call: in the options object literal,
+   * or in the literal a local options variable is initialized with
+   */
+  private findHttpClientUrlNode(node: Node, ancestors: Node[]): Node | undefined {
     const args = node.arguments;
-    if (!args || args.length < 2) return null;
+    if (!args || args.length < 2) return undefined;
 
     for (let i = 1; i < Math.min(args.length, 3); i++) {
       const configArg = args[i];
-      
-      if (configArg?.type === 'ObjectExpression' && configArg.properties) {
-        for (const prop of configArg.properties) {
-          const keyName = AstUtils.getPropertyName(prop.key);
-          if (keyName === 'url') {
-            const propValue = (prop as { value?: Node }).value;
-            if (propValue) {
-              if (propValue.type === 'Literal' && typeof propValue.value === 'string') {
-                return propValue.value;
-              }
-              if (propValue.type === 'Identifier' && propValue.name) {
-                return propValue.name;
-              }
-              if (propValue.type === 'TemplateLiteral' || propValue.type === 'BinaryExpression') {
-                return this.extractUrlFromExpression(propValue);
-              }
-            }
-          }
-        }
+
+      if (configArg?.type === 'ObjectExpression') {
+        const urlNode = this.getUrlProperty(configArg);
+        if (urlNode) return urlNode;
       }
-      
+
       if (configArg?.type === 'Identifier' && configArg.name) {
         const urlFromVar = this.findUrlInConfigVariable(configArg.name, ancestors);
         if (urlFromVar) return urlFromVar;
       }
     }
 
-    return null;
+    return undefined;
+  }
+
+  private getUrlProperty(objectNode: Node): Node | undefined {
+    for (const prop of objectNode.properties ?? []) {
+      if (AstUtils.getPropertyName(prop.key) === 'url') {
+        return (prop as { value?: Node }).value;
+      }
+    }
+    return undefined;
   }
 
   private extractUrlFromExpression(node: Node): string | null {
@@ -312,51 +332,84 @@ export class ExternalCallAnalyzer {
     return null;
   }
 
-  private findUrlInConfigVariable(varName: string, ancestors: Node[]): string | null {
-    const scopes = AstUtils.findEnclosingScopes(ancestors);
-    
-    for (const scopeNode of scopes) {
-      let found: string | null = null;
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      walk(scopeNode as any, {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        enter: (n: any, parent: any) => {
-          const node = n as Node;
-          const parentNode = parent as Node | undefined;
-          
-          if (parentNode && 
-              (node.type === 'FunctionDeclaration' || 
-               node.type === 'FunctionExpression' || 
-               node.type === 'ArrowFunctionExpression') &&
-              node !== scopeNode) {
-            return false;
-          }
+  private findUrlInConfigVariable(varName: string, ancestors: Node[]): Node | undefined {
+    const init = AstUtils.findVariableInit(varName, ancestors);
+    return init?.type === 'ObjectExpression' ? this.getUrlProperty(init) : undefined;
+  }
 
-          if (node.type === 'VariableDeclarator' && 
-              node.id?.type === 'Identifier' && 
-              node.id.name === varName && 
-              node.init?.type === 'ObjectExpression' &&
-              node.init.properties) {
-            for (const prop of node.init.properties) {
-              const keyName = AstUtils.getPropertyName(prop.key);
-              if (keyName === 'url') {
-                const propValue = (prop as { value?: Node }).value;
-                if (propValue?.type === 'Literal' && typeof propValue.value === 'string') {
-                  found = propValue.value;
-                } else if (propValue?.type === 'Identifier' && propValue.name) {
-                  found = propValue.name;
-                } else if (propValue) {
-                  found = this.extractUrlFromExpression(propValue);
-                }
-              }
-            }
-          }
-        }
-      });
-      
-      if (found) return found;
+  /**
+   * Build a URL template from a URL expression. Literal parts are kept; config lookups become
+   * {mWareConfig.<key>.<path>}, process.env reads {env.<NAME>} and other dynamic parts
+   * {<expression>}. Local variables are followed to their initializers.
+   */
+  private buildUrlTemplate(node: Node, ancestors: Node[], depth: number = 0): string {
+    switch (node.type) {
+      case 'Literal':
+        return typeof node.value === 'string' || typeof node.value === 'number' ? String(node.value) : UNKNOWN_URL_PART;
+
+      case 'TemplateLiteral':
+        return (node.quasis ?? []).map((quasi, index) => {
+          const expression = node.expressions?.[index];
+          const text = (quasi as { value?: { cooked?: string } }).value?.cooked ?? '';
+          return expression ? text + this.buildUrlTemplate(expression, ancestors, depth) : text;
+        }).join('');
+
+      case 'BinaryExpression':
+        return node.operator === '+' && node.left && node.right
+          ? this.buildUrlTemplate(node.left, ancestors, depth) + this.buildUrlTemplate(node.right, ancestors, depth)
+          : UNKNOWN_URL_PART;
+
+      case 'Identifier': {
+        const constant = this.constantResolver.resolve(node);
+        if (constant !== undefined) return constant;
+
+        const init = node.name && depth < MAX_URL_DEPTH ? AstUtils.findVariableInit(node.name, ancestors) : undefined;
+        const initTemplate = init ? this.buildUrlTemplate(init, ancestors, depth + 1) : UNKNOWN_URL_PART;
+        return initTemplate !== UNKNOWN_URL_PART ? initTemplate : `{${node.name}}`;
+      }
+
+      case 'CallExpression':
+      case 'MemberExpression': {
+        const reference = this.describeReference(node, ancestors, depth);
+        if (reference) return `{${reference}}`;
+
+        const constant = this.constantResolver.resolve(node);
+        return constant ?? UNKNOWN_URL_PART;
+      }
+
+      default:
+        return UNKNOWN_URL_PART;
     }
-    
-    return null;
   }
+
+  /**
+   * Describe a config lookup, environment read or other member chain as a placeholder name
+   * (appCache.getMWareConfig('svc').host -> mWareConfig.svc.host, process.env.HOST -> env.HOST)
+   */
+  private describeReference(node: Node, ancestors: Node[], depth: number): string | undefined {
+    const { root, path } = AstUtils.getMemberPath(node, key => this.constantResolver.resolve(key, ancestors));
+
+    if (root?.type === 'CallExpression') {
+      const source = ConfigDependencyAnalyzer.getConfigSource(root);
+      const key = source && root.arguments?.[0] ? this.constantResolver.resolve(root.arguments[0], ancestors) : undefined;
+      return source && key ? [source, key, ...path].join('.') : undefined;
+    }
+
+    if (root?.type !== 'Identifier' || !root.name) {
+      return undefined;
+    }
+    if (root.name === 'process' && path[0] === 'env') {
+      return path.length > 1 ? path.join('.') : undefined;
+    }
+
+    // A local bound to a config lookup or process.env (const svc = appCache.getMWareConfig('svc'))
+    const init = depth < MAX_URL_DEPTH ? AstUtils.findVariableInit(root.name, ancestors) : undefined;
+    if (init?.type === 'CallExpression' || init?.type === 'MemberExpression') {
+      const base = this.describeReference(init, ancestors, depth + 1);
+      if (base) return [base, ...path].join('.');
+    }
+
+    return path.includes(DYNAMIC_PROPERTY) ? undefined : [root.name, ...path].join('.');
+  }
+
 }
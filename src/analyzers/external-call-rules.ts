@@ -0,0 +1,147 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExternalCallRulesConfig } from '../models/flow-analyzer-types';
+
+/** Workspace rules file, at the root of the workspace folder */
+export const RULES_FILE_NAME = '.agl-essentials.json';
+
+/**
+ * Built-in rules for the AGL platform wrappers (utils/wrapper/request/<type>.js)
+ */
+const DEFAULT_RULES: Required<ExternalCallRulesConfig> = {
+  wrappers: [
+    { pathPattern: '/wrapper/request/(\\w+)(?:\\.js)?$' }
+  ],
+  typeAliases: {
+    'es': 'elasticsearch'
+  },
+  templateArgs: [
+    { method: '^callAVSDCQTemplate$', index: 4 },
+    { method: '^callDCQ$', index: 6 },
+    { method: '^callAVS$', index: 4 },
+    { method: '^callAVSB2C(WithFullResponse)?$', index: 2 },
+    { method: '^callAVSB2B(WithFullResponse)?$', index: 3 },
+    { method: '^callAVSB2BVersioned(WithFullResponse)?$', index: 4 },
+    { method: '^callAVSESTemplate$', index: 2 },
+    { method: '^callDcqDecoupledESTemplate$', index: 2 },
+    { method: '^call(ES|ESTemplate)$', index: 3 },
+    { method: '^callExternal$', index: 3 },
+    { method: '^callDsf$', index: 2 },
+    { method: '^callAVSDCQSearch$', index: -1 },
+    { method: '^callAVSESSearch$', index: 2 },
+    { method: '^callPinboard$', index: 3 },
+    { method: '^callAVA$', index: 3 },
+    { method: '^callGet(AggregatedContentDetail|Live(ContentMetadata|ChannelList|Info)|VodContentMetadata|LauncherMetadata|Epg)$', index: -1 },
+    { method: '^callSearch(Suggestions|VodEvents|Contents)$', index: -1 }
+  ],
+  icons: {
+    'avs': '🔗',
+    'dcq': '📊',
+    'elasticsearch': '🔍',
+    'pinboard': '📌',
+    'http': '🌐',
+    'external': '🔌',
+    'microservice': '⚡',
+    'dsf': '📡',
+    'ava': '🎬'
+  }
+};
+
+/**
+ * Compiled wrapper rule: require paths matching the pattern are wrapper modules of a call type
+ */
+interface WrapperRule {
+  pattern: RegExp;
+  type?: string;   // Fixed type; otherwise the first capture group of the pattern
+}
+
+/**
+ * ExternalCallRules - Wrapper detection rules: the built-in defaults merged with the workspace rules file
+ *
+ * The `externalCalls` section of `.agl-essentials.json` adds wrapper path patterns, type aliases,
+ * template argument positions and icons. Workspace rules are tried before the built-in ones,
+ * so they can also override them. Invalid patterns are skipped.
+ */
+export class ExternalCallRules {
+  private readonly wrappers: WrapperRule[];
+  private readonly templateArgs: [RegExp, number][];
+  private readonly typeAliases: Record<string, string>;
+
+  /** Icons by (lower case) call type */
+  readonly icons: Record<string, string>;
+
+  private constructor(config: ExternalCallRulesConfig, readonly hash: string) {
+    this.wrappers = [...(config.wrappers ?? []), ...DEFAULT_RULES.wrappers].flatMap(rule => {
+      const pattern = ExternalCallRules.compile(rule.pathPattern);
+      return pattern ? [{ pattern, type: rule.type }] : [];
+    });
+    this.templateArgs = [...(config.templateArgs ?? []), ...DEFAULT_RULES.templateArgs].flatMap(rule => {
+      const pattern = ExternalCallRules.compile(rule.method);
+      return pattern && Number.isInteger(rule.index) ? [[pattern, rule.index] as [RegExp, number]] : [];
+    });
+    this.typeAliases = { ...DEFAULT_RULES.typeAliases, ...config.typeAliases };
+    this.icons = Object.fromEntries(
+      Object.entries({ ...DEFAULT_RULES.icons, ...config.icons }).map(([type, icon]) => [type.toLowerCase(), icon])
+    );
+  }
+
+  /**
+   * Load the rules of a workspace folder (the built-in rules when it has no rules file)
+   */
+  static load(workspaceFolder: string): ExternalCallRules {
+    const filePath = path.join(workspaceFolder, RULES_FILE_NAME);
+    if (!fs.existsSync(filePath)) {
+      return new ExternalCallRules({}, '');
+    }
+
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const hash = crypto.createHash('sha1').update(content).digest('hex');
+      return new ExternalCallRules(JSON.parse(content).externalCalls ?? {}, hash);
+    } catch (error) {
+      console.error(`Failed to read ${filePath}:`, error);
+      return new ExternalCallRules({}, '');
+    }
+  }
+
+  /**
+   * Detect the call type of a wrapper module from its require path
+   */
+  detectWrapperType(modulePath: string): string | null {
+    for (const rule of this.wrappers) {
+      const match = rule.pattern.exec(modulePath);
+      const rawType = match && (rule.type ?? match[1]);
+      if (rawType) {
+        return this.normalizeType(rawType);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Canonical call type of a type name (after the type aliases, e.g. es -> elasticsearch)
+   */
+  normalizeType(rawType: string): string {
+    return this.typeAliases[rawType] ?? rawType;
+  }
+
+  /**
+   * Position of the template argument of a wrapper method (-1: the method has no template argument)
+   */
+  getTemplateArgIndex(methodName: string): number | undefined {
+    return this.templateArgs.find(([pattern]) => pattern.test(methodName))?.[1];
+  }
+
+  private static compile(pattern: string | undefined): RegExp | undefined {
+    if (typeof pattern !== 'string') {
+      return undefined;
+    }
+    try {
+      return new RegExp(pattern);
+    } catch (error) {
+      console.error(`Invalid pattern in ${RULES_FILE_NAME}: ${pattern}`, error);
+      return undefined;
+    }
+  }
+}
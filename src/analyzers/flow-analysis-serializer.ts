@@ -0,0 +1,115 @@
+import * as path from 'path';
+import { FlowAnalysisExport, FlowAnalysisResult, ImportedFlowAnalysis, PropertyFlow } from '../models/flow-analyzer-types';
+import { ANALYZER_VERSION } from './analysis-cache-store';
+
+/** Value of the `format` field of exported analyses */
+export const FLOW_ANALYSIS_EXPORT_FORMAT = 'agl-essentials/flow-analysis';
+
+/**
+ * Version of the export schema. Increment it on changes that break existing readers
+ * (removed or renamed fields, changed meanings); added optional fields keep the version.
+ */
+export const FLOW_ANALYSIS_SCHEMA_VERSION = 1;
+
+/** Fields holding file paths, at any depth of a result */
+const PATH_FIELDS = new Set(['filePath', 'sourcePath', 'parentPath', 'resolvedPath', 'rootPath']);
+
+/**
+ * FlowAnalysisSerializer - Converts flow analysis results to and from the versioned export format
+ *
+ * Exports are plain JSON: the property Maps become arrays and file paths become relative to the
+ * workspace folder (with '/' separators), so exports can be shared between machines and read by
+ * other tools. Paths outside of the workspace folder stay absolute.
+ */
+export class FlowAnalysisSerializer {
+  constructor(private workspaceFolder: string) {}
+
+  serialize(result: FlowAnalysisResult, middlewareName: string): FlowAnalysisExport {
+    const { allResLocalsProperties, allReqTransactionProperties, ...rest } = result;
+    return {
+      format: FLOW_ANALYSIS_EXPORT_FORMAT,
+      schemaVersion: FLOW_ANALYSIS_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      analyzerVersion: ANALYZER_VERSION,
+      middlewareName,
+      result: {
+        ...this.mapPaths(rest, filePath => this.toRelative(filePath)),
+        allResLocalsProperties: this.toPropertyFlows(allResLocalsProperties),
+        allReqTransactionProperties: this.toPropertyFlows(allReqTransactionProperties)
+      }
+    };
+  }
+
+  /**
+   * Restore a result from an export, resolving its paths against the workspace folder
+   * @throws When the data is not an export, or was written by a newer schema version
+   */
+  deserialize(data: unknown): ImportedFlowAnalysis {
+    const exported = data as Partial<FlowAnalysisExport> | null;
+    if (!exported || typeof exported !== 'object' || exported.format !== FLOW_ANALYSIS_EXPORT_FORMAT) {
+      throw new Error('Not an AGL Essentials flow analysis export');
+    }
+    if (typeof exported.schemaVersion !== 'number' || exported.schemaVersion > FLOW_ANALYSIS_SCHEMA_VERSION) {
+      throw new Error(`Unsupported flow analysis schema version ${exported.schemaVersion} (supported: ${FLOW_ANALYSIS_SCHEMA_VERSION})`);
+    }
+    if (!exported.result || !Array.isArray(exported.result.middlewares) || typeof exported.middlewareName !== 'string') {
+      throw new Error('The flow analysis export has no result');
+    }
+
+    const { allResLocalsProperties, allReqTransactionProperties, ...rest } = exported.result;
+    const restored = this.mapPaths(rest, filePath => this.toAbsolute(filePath));
+    return {
+      middlewareName: exported.middlewareName,
+      exportedAt: exported.exportedAt ?? '',
+      result: {
+        ...restored,
+        // Fields added after the export was written
+        configIssues: restored.configIssues ?? [],
+        dataIssues: restored.dataIssues ?? [],
+        externalCallIcons: restored.externalCallIcons ?? {},
+        templateDefinitions: restored.templateDefinitions ?? {},
+        libraries: restored.libraries ?? [],
+        allResLocalsProperties: this.fromPropertyFlows(allResLocalsProperties),
+        allReqTransactionProperties: this.fromPropertyFlows(allReqTransactionProperties)
+      }
+    };
+  }
+
+  /**
+   * Deep copy of a value with the path fields converted
+   */
+  private mapPaths<T>(value: T, convert: (filePath: string) => string): T {
+    if (Array.isArray(value)) {
+      return value.map(item => this.mapPaths(item, convert)) as unknown as T;
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+    const copy: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      copy[key] = PATH_FIELDS.has(key) && typeof field === 'string' && field
+        ? convert(field)
+        : this.mapPaths(field, convert);
+    }
+    return copy as T;
+  }
+
+  private toRelative(filePath: string): string {
+    const relativePath = path.relative(this.workspaceFolder, filePath);
+    return relativePath.startsWith('..') || path.isAbsolute(relativePath)
+      ? filePath
+      : relativePath.replace(/\\/g, '/');
+  }
+
+  private toAbsolute(filePath: string): string {
+    return path.isAbsolute(filePath) ? filePath : path.join(this.workspaceFolder, filePath);
+  }
+
+  private toPropertyFlows(properties: FlowAnalysisResult['allResLocalsProperties']): PropertyFlow[] {
+    return Array.from(properties.entries()).map(([property, { producers, consumers }]) => ({ property, producers, consumers }));
+  }
+
+  private fromPropertyFlows(flows: PropertyFlow[] | undefined): FlowAnalysisResult['allResLocalsProperties'] {
+    return new Map((flows ?? []).map(({ property, producers, consumers }) => [property, { producers, consumers }]));
+  }
+}
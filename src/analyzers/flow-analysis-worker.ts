@@ -0,0 +1,44 @@
+import { parentPort, workerData } from 'worker_threads';
+import {
+  FlowAnalysisWorkerData,
+  FlowAnalysisWorkerRequest,
+  FlowAnalysisWorkerResponse
+} from '../models/flow-analyzer-types';
+import { FlowAnalyzer } from './flow-analyzer';
+
+/**
+ * Worker thread entry point (bundled to out/flow-analysis-worker.js).
+ *
+ * Runs the flow analysis off the extension host thread. Requests are handled one at a time;
+ * cancellation is done by terminating the worker, since the AST walk is synchronous.
+ * The analyzer (and its in-memory cache) lives as long as the worker.
+ */
+const { workspaceFolder, middlewareName, options } = workerData as FlowAnalysisWorkerData;
+const flowAnalyzer = new FlowAnalyzer(workspaceFolder, middlewareName, options);
+
+function post(response: FlowAnalysisWorkerResponse): void {
+  parentPort?.postMessage(response);
+}
+
+parentPort?.on('message', (request: FlowAnalysisWorkerRequest) => {
+  try {
+    switch (request.type) {
+      case 'analyze': {
+        const result = flowAnalyzer.analyze(request.endpoint, progress => {
+          post({ type: 'progress', requestId: request.requestId, progress });
+        }, request.mode);
+        post({ type: 'result', requestId: request.requestId, result });
+        break;
+      }
+      case 'invalidate':
+        post({
+          type: 'invalidated',
+          requestId: request.requestId,
+          filePaths: flowAnalyzer.invalidate(request.filePaths)
+        });
+        break;
+    }
+  } catch (error: any) {
+    post({ type: 'error', requestId: request.requestId, message: error?.message ?? String(error) });
+  }
+});
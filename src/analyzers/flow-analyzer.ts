@@ -1,38 +1,73 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import {
+  AnalyzerOptions,
   ComponentAnalysis,
   ComponentDataFlowEdge,
   DataFlowEdge,
   EndpointConfig,
+  FlowAnalysisMode,
+  FlowAnalysisProgress,
   FlowAnalysisResult,
-  MiddlewareAnalysis
+  MiddlewareAnalysis,
+  PanicConfigInfo
 } from '../models/flow-analyzer-types';
-import { getShortPath as sharedGetShortPath } from '../shared';
+import { CONFIG_PREFIX, getShortPath as sharedGetShortPath } from '../shared';
+import { ConfigValidator } from './config-validator';
+import { ConfigValueResolver } from './config-value-resolver';
+import { DataIssueAnalyzer } from './data-issue-analyzer';
 import { MiddlewareAnalyzer } from './middleware-analyzer';
+import { TemplateIndex } from './template-index';
 
 /**
  * Orchestrates the complete flow analysis for an endpoint
  */
 export class FlowAnalyzer {
   private middlewareAnalyzer: MiddlewareAnalyzer;
+  private dataIssueAnalyzer = new DataIssueAnalyzer();
+  private configValidator: ConfigValidator;
+  private configValueResolver: ConfigValueResolver;
+  private templateIndex: TemplateIndex;
+  private externalCallIcons: Record<string, string> = {};  // Icons of the result being rendered
 
   constructor(
     private workspaceFolder: string,
-    private middlewareName: string
+    private middlewareName: string,
+    options: AnalyzerOptions = {}
   ) {
-    this.middlewareAnalyzer = new MiddlewareAnalyzer(workspaceFolder, middlewareName);
+    this.middlewareAnalyzer = new MiddlewareAnalyzer(workspaceFolder, middlewareName, options);
+    this.configValidator = new ConfigValidator(workspaceFolder, middlewareName);
+    this.configValueResolver = new ConfigValueResolver(workspaceFolder, middlewareName);
+    this.templateIndex = new TemplateIndex(workspaceFolder);
+  }
+
+  /**
+   * Invalidate cached analysis results affected by changed files
+   * @returns The invalidated file paths (changed files plus the components that require them)
+   */
+  public invalidate(filePaths: string[]): string[] {
+    return this.middlewareAnalyzer.invalidate(filePaths);
   }
 
   /**
    * Perform complete flow analysis for an endpoint
+   * @param onProgress Called before each middleware of the chain is analyzed
+   * @param mode 'panic' follows each middleware's panic function instead of run
    */
-  public analyze(endpoint: EndpointConfig): FlowAnalysisResult {
+  public analyze(
+    endpoint: EndpointConfig,
+    onProgress?: (progress: FlowAnalysisProgress) => void,
+    mode: FlowAnalysisMode = 'normal'
+  ): FlowAnalysisResult {
+    this.middlewareAnalyzer.reloadRules();
     const middlewares: MiddlewareAnalysis[] = [];
     const allResLocalsProperties = new Map<string, { producers: string[]; consumers: string[] }>();
     const allReqTransactionProperties = new Map<string, { producers: string[]; consumers: string[] }>();
 
     // Analyze each middleware in the chain
-    for (const middlewarePath of endpoint.middleware) {
-      const analysis = this.middlewareAnalyzer.analyzeMiddleware(middlewarePath);
+    for (const [index, middlewarePath] of endpoint.middleware.entries()) {
+      onProgress?.({ middlewarePath, index, total: endpoint.middleware.length });
+      const analysis = this.middlewareAnalyzer.analyzeMiddleware(middlewarePath, mode);
       middlewares.push(analysis);
 
       // Track res.locals producers and consumers
@@ -52,20 +87,69 @@ export class FlowAnalyzer {
       );
     }
 
+    // Show HTTP call URLs with the current config values
+    this.configValueResolver.load();
+    this.configValueResolver.resolveExternalCalls(middlewares);
+
+    // Link template names to their definitions in the config repos
+    const externalCallRules = this.middlewareAnalyzer.getExternalCallRules();
+    this.templateIndex.refresh(externalCallRules);
+    const templateDefinitions = this.templateIndex.resolveExternalCalls(middlewares);
+
     // Build data flow edges
     const dataFlow = this.buildDataFlowEdges(middlewares, endpoint.middleware);
     const componentDataFlow = this.buildComponentDataFlowEdges(middlewares);
+    // The panic path starts after an unknown part of the normal chain ran, so ordering checks do not apply
+    const dataIssues = mode === 'normal' ? this.dataIssueAnalyzer.analyze(middlewares) : [];
+    const configIssues = [
+      ...this.configValidator.validate(middlewares),
+      ...this.configValidator.findUnusedKeys(this.middlewareAnalyzer.collectProjectConfigDependencies())
+    ];
 
     return {
       endpoint,
+      mode,
       middlewares,
       dataFlow,
       allResLocalsProperties,
       allReqTransactionProperties,
-      componentDataFlow
+      componentDataFlow,
+      dataIssues,
+      configIssues,
+      externalCallIcons: externalCallRules.icons,
+      templateDefinitions,
+      libraries: this.middlewareAnalyzer.getLibraries(),
+      panicConfig: endpoint.panicConfigKey ? this.findPanicConfig(endpoint.panicConfigKey) : undefined
     };
   }
 
+  /**
+   * Locate an endpoint's panicConfigKey entry in customPanicConfig.json
+   */
+  private findPanicConfig(key: string): PanicConfigInfo {
+    const filePath = path.join(this.workspaceFolder, `${CONFIG_PREFIX}${this.middlewareName}`, 'files', 'customPanicConfig.json');
+    const info: PanicConfigInfo = { key, filePath, found: false };
+    if (!fs.existsSync(filePath)) {
+      return info;
+    }
+
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const config = JSON.parse(content);
+      if (config && Object.prototype.hasOwnProperty.call(config, key)) {
+        info.found = true;
+        info.entry = config[key];
+        const escapedKey = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const keyLine = content.split('\n').findIndex(line => new RegExp(`"${escapedKey}"\\s*:`).test(line));
+        info.lineNumber = keyLine >= 0 ? keyLine + 1 : undefined;
+      }
+    } catch (error) {
+      console.error(`Failed to read panic config ${filePath}:`, error);
+    }
+
+    return info;
+  }
+
   /**
    * Track property usage (producers and consumers)
    */
@@ -231,6 +315,7 @@ export class FlowAnalyzer {
   public generateMermaidDiagram(result: FlowAnalysisResult, expandedNodes: Set<string> = new Set()): { diagram: string, externalCallsMap: Map<string, any> } {
     // Map to store extId -> call data for click navigation
     const externalCallsMap = new Map<string, any>();
+    this.externalCallIcons = result.externalCallIcons ?? {};
     
     let diagram = 'flowchart TD\n';
     diagram += '    classDef default fill:#2d2d2d,stroke:#555,color:#fff\n';
@@ -239,7 +324,13 @@ export class FlowAnalyzer {
     diagram += '    classDef hasBoth fill:#4a3728,stroke:#6b4423,color:#DEB887\n';
     diagram += '    classDef component fill:#3d3d3d,stroke:#666,color:#ccc\n';
     diagram += '    classDef expandable fill:#3d3d3d,stroke:#888,color:#fff,stroke-width:2px,font-weight:bold\n';
-    diagram += '    classDef external fill:#4a1a2e,stroke:#6b2340,color:#FFB6C1,font-size:12px\n\n';
+    diagram += '    classDef external fill:#4a1a2e,stroke:#6b2340,color:#FFB6C1,font-size:12px\n';
+    diagram += '    classDef missingTemplate fill:#4a1a2e,stroke:#f44336,color:#FFB6C1,font-size:12px,stroke-dasharray:4 4\n';
+    diagram += '    classDef skipped fill:#252526,stroke:#555,color:#777,stroke-dasharray:4 4\n';
+    diagram += '    classDef unresolved fill:#3d2e1a,stroke:#ce9178,color:#ce9178,stroke-dasharray:4 4\n';
+    // Compared with another git ref (FlowDiffAnalyzer.merge)
+    diagram += '    classDef added fill:#1e3a1e,stroke:#4caf50,color:#b5e7b5,stroke-width:2px\n';
+    diagram += '    classDef removed fill:#3a1e1e,stroke:#f44336,color:#f4a6a6,stroke-width:2px,stroke-dasharray:4 4\n\n';
 
     // Build component path map for external call linking
     // Maps filePath -> visible component node ID
@@ -486,6 +577,12 @@ export class FlowAnalyzer {
       } else if (hasReads) {
         nodeClass = ':::hasReads';
       }
+      if (mw.entryFunctionMissing) {
+        nodeClass = ':::skipped';
+      }
+      if (mw.diffChange) {
+        nodeClass = `:::${mw.diffChange}`;
+      }
 
       // Register middleware file path
       if (mw.filePath) {
@@ -497,7 +594,9 @@ export class FlowAnalyzer {
       const mwExternalCalls = mw.filePath ? effectiveExternalCallsMap.get(normalizePathForKey(mw.filePath)) : [];
 
       // Build labels - toggle symbol goes on the main node (inside subgraph), not on subgraph title
-      const mwLabel = `${index + 1}. ${shortName}`;
+      const mwLabel = mw.entryFunctionMissing
+        ? `${index + 1}. ${shortName} (no panic)`
+        : `${index + 1}. ${shortName}`;
       let mainLabel = shortName;
       let mainNodeClass = nodeClass;
       if (hasComponents) {
@@ -506,7 +605,7 @@ export class FlowAnalyzer {
         mainLabel = isMwExpanded 
           ? `${toggleSymbol}  ${shortName}`
           : `${toggleSymbol}  ${shortName} (${componentCount})`;
-        mainNodeClass = ':::expandable'; // Use expandable style for nodes with toggle
+        mainNodeClass = mw.diffChange ? nodeClass : ':::expandable'; // Use expandable style for nodes with toggle
       }
 
       // Create a subgraph for middleware with components (only if expanded)
@@ -636,11 +735,14 @@ export class FlowAnalyzer {
       } else if (hasReads) {
         nodeClass = ':::hasReads';
       }
+      if (comp.isUnresolved) {
+        nodeClass = ':::unresolved';
+      }
 
       const indent = '        ' + '    '.repeat(depth);
       
       // Build label - include toggle symbol
-      let label = comp.displayName;
+      let label = comp.isUnresolved ? `❓ ${comp.displayName}` : comp.displayName;
       if (hasChildren) {
         const childCount = this.countAllChildren(comp);
         const toggleSymbol = isExpanded ? '▼' : '▶';
@@ -649,6 +751,9 @@ export class FlowAnalyzer {
           : `${toggleSymbol}  ${label} (${childCount})`;
         nodeClass = ':::expandable';
       }
+      if (comp.diffChange) {
+        nodeClass = `:::${comp.diffChange}`;
+      }
       
       // If expanded, wrap in a subgraph to keep children close together
       if (hasChildren && isExpanded) {
@@ -724,10 +829,15 @@ export class FlowAnalyzer {
         extIdToCallMap.set(extId, {
           type: call.type,
           template: call.template,
+          templateNames: call.templateNames,
+          missingTemplates: call.missingTemplates,
+          endpoint: call.endpoint,
+          urlTemplate: call.urlTemplate,
           sourcePath: call.sourcePath,
           lineNumber: call.lineNumber,
           codeSnippet: call.codeSnippet,
-          isLibrary: call.isLibrary
+          isLibrary: call.isLibrary,
+          diffChange: call.diffChange
         });
       }
       
@@ -738,9 +848,12 @@ export class FlowAnalyzer {
       }
       
       // Use rounded rectangle syntax: ([...])
-      // Format: TYPE: TemplateName (e.g., "DCQ: GetUnifiedAssetDetailById")
-      const typeLabel = call.type ? `${call.type.toUpperCase()}: ` : '';
-      diagram += `${indent}${extId}(["${typeLabel}${callName}"]):::external\n`;
+      // Format: ICON TYPE: TemplateName (e.g., "📊 DCQ: GetUnifiedAssetDetailById")
+      const typeLabel = call.type
+        ? `${this.externalCallIcons[call.type.toLowerCase()] ?? ''} ${call.type.toUpperCase()}: `.trimStart()
+        : '';
+      const nodeClass = call.diffChange ?? (call.missingTemplates?.length ? 'missingTemplate' : 'external');
+      diagram += `${indent}${extId}(["${typeLabel}${callName}"]):::${nodeClass}\n`;
       diagram += `${indent}${parentId} -.-> ${extId}\n`;
     });
     
@@ -769,6 +882,47 @@ export class FlowAnalyzer {
     return count;
   }
 
+  /**
+   * Node IDs of all components that have children (expanding them renders the whole tree)
+   */
+  public getExpandableNodeIds(result: FlowAnalysisResult): Set<string> {
+    const nodeIds = new Set<string>();
+    const collect = (components: ComponentAnalysis[], prefix: string) => {
+      components.forEach((comp, idx) => {
+        const compId = `${prefix}_c${idx}`;
+        if (comp.children.length > 0) {
+          nodeIds.add(compId);
+          collect(comp.children, compId);
+        }
+      });
+    };
+
+    result.middlewares.forEach((mw, index) => collect(mw.components, `MW${index + 1}`));
+    return nodeIds;
+  }
+
+  /**
+   * Node IDs of the components whose subtree has an added or removed component (expanding them shows the changes)
+   */
+  public getChangedAncestorNodeIds(result: FlowAnalysisResult): Set<string> {
+    const nodeIds = new Set<string>();
+    const collect = (components: ComponentAnalysis[], prefix: string): boolean => {
+      let hasChange = false;
+      components.forEach((comp, idx) => {
+        const compId = `${prefix}_c${idx}`;
+        if (collect(comp.children, compId)) {
+          nodeIds.add(compId);
+          hasChange = true;
+        }
+        hasChange = hasChange || !!comp.diffChange;
+      });
+      return hasChange;
+    };
+
+    result.middlewares.forEach((mw, index) => collect(mw.components, `MW${index + 1}`));
+    return nodeIds;
+  }
+
   /**
    * Generate a summary of res.locals data flow
    */
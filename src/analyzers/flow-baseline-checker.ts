@@ -0,0 +1,249 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  BaselineDeviation,
+  BaselineDeviationKind,
+  BaselineResLocalsProperty,
+  EndpointConfig,
+  ExternalCall,
+  FlowAnalysisMode,
+  FlowAnalysisResult,
+  FlowBaseline,
+  FlowDiffChange
+} from '../models/flow-analyzer-types';
+import { CONFIG_PREFIX, readCustomRoutes } from '../shared';
+import { ANALYZER_VERSION } from './analysis-cache-store';
+
+/** Value of the `format` field of baseline files */
+export const FLOW_BASELINE_FORMAT = 'agl-essentials/flow-baseline';
+
+/**
+ * Version of the baseline schema. Increment it on changes that break existing readers.
+ */
+export const FLOW_BASELINE_SCHEMA_VERSION = 1;
+
+/** Folder of the baselines in a config repo */
+export const FLOW_BASELINES_FOLDER = 'flow-baselines';
+
+/**
+ * FlowBaselineChecker - Records the contract of an endpoint's flow and checks later analyses against it
+ *
+ * A baseline lists the external calls, config keys and res.locals properties (with the middlewares
+ * writing and reading them) of an endpoint. It is committed to the config repo of the middleware
+ * (agl-config-<mw>/flow-baselines/<method>-<uri>-<hash>.json), so contract changes show up in reviews:
+ * every deviation fails the check until the baseline is recorded again.
+ * Usages inside AGL libraries are left out, as they depend on the library sources in use.
+ */
+export class FlowBaselineChecker {
+  constructor(private workspaceFolder: string, private middlewareName: string) {}
+
+  /**
+   * Middlewares whose config repo has baselines
+   */
+  static findMiddlewares(workspaceFolder: string): string[] {
+    try {
+      return fs.readdirSync(workspaceFolder, { withFileTypes: true })
+        .filter(entry => entry.isDirectory() && entry.name.startsWith(CONFIG_PREFIX))
+        .filter(entry => fs.existsSync(path.join(workspaceFolder, entry.name, FLOW_BASELINES_FOLDER)))
+        .map(entry => entry.name.slice(CONFIG_PREFIX.length))
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  getBaselineFolder(): string {
+    return path.join(this.workspaceFolder, `${CONFIG_PREFIX}${this.middlewareName}`, FLOW_BASELINES_FOLDER);
+  }
+
+  /**
+   * File of an endpoint's baseline, e.g. flow-baselines/get-api-v1-page-14f9eae2.json (get-api-v1-page-14f9eae2.panic.json).
+   * The readable slug is shared by routes differing only in punctuation (`/api/v1/page`, `/api/v1-page`),
+   * so it ends with a hash of the exact method and URI.
+   */
+  getBaselinePath(endpoint: Pick<EndpointConfig, 'method' | 'endpointUri'>, mode: FlowAnalysisMode): string {
+    const method = (endpoint.method ?? 'get').toUpperCase();
+    const slug = `${method}-${endpoint.endpointUri}`
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+    const hash = crypto.createHash('sha1').update(`${method} ${endpoint.endpointUri}`).digest('hex').slice(0, 8);
+    return path.join(this.getBaselineFolder(), `${slug}-${hash}${mode === 'panic' ? '.panic' : ''}.json`);
+  }
+
+  listBaselineFiles(): string[] {
+    const folder = this.getBaselineFolder();
+    if (!fs.existsSync(folder)) {
+      return [];
+    }
+    return fs.readdirSync(folder)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .map(file => path.join(folder, file));
+  }
+
+  /**
+   * Contract of an analysis, with entries in a stable order
+   */
+  createBaseline(result: FlowAnalysisResult): FlowBaseline {
+    const externalCalls = new Map<string, FlowBaseline['externalCalls'][number]>();
+    const configKeys = new Map<string, FlowBaseline['configKeys'][number]>();
+    const resLocals = new Map<string, BaselineResLocalsProperty>();
+    const getProperty = (property: string) => {
+      let entry = resLocals.get(property);
+      if (!entry) {
+        entry = { property, writers: [], readers: [] };
+        resLocals.set(property, entry);
+      }
+      return entry;
+    };
+
+    for (const mw of result.middlewares) {
+      for (const call of mw.allExternalCalls.filter(candidate => !candidate.isLibrary)) {
+        const target = this.getCallTarget(call);
+        externalCalls.set(`${mw.name}|${call.type}|${target}`, { middleware: mw.name, type: call.type, target });
+      }
+      for (const dep of mw.allConfigDeps.filter(candidate => !candidate.isLibrary)) {
+        const key = `${dep.source}.${dep.key}`;
+        configKeys.set(`${mw.name}|${key}`, { middleware: mw.name, key });
+      }
+      for (const usage of mw.allResLocalsWrites.filter(candidate => !candidate.isLibrary)) {
+        this.addOnce(getProperty(usage.property).writers, mw.name);
+      }
+      for (const usage of mw.allResLocalsReads.filter(candidate => !candidate.isLibrary)) {
+        this.addOnce(getProperty(usage.property).readers, mw.name);
+      }
+    }
+
+    const byKey = <T>(entries: Map<string, T>) =>
+      Array.from(entries.keys()).sort().map(key => entries.get(key)!);
+    return {
+      format: FLOW_BASELINE_FORMAT,
+      schemaVersion: FLOW_BASELINE_SCHEMA_VERSION,
+      recordedAt: new Date().toISOString(),
+      analyzerVersion: ANALYZER_VERSION,
+      middlewareName: this.middlewareName,
+      endpoint: { method: (result.endpoint.method ?? 'get').toUpperCase(), endpointUri: result.endpoint.endpointUri },
+      mode: result.mode,
+      externalCalls: byKey(externalCalls),
+      configKeys: byKey(configKeys),
+      resLocals: byKey(resLocals)
+    };
+  }
+
+  /**
+   * Write the baseline of an analysis to the config repo
+   * @returns The baseline file
+   */
+  record(result: FlowAnalysisResult): string {
+    const baselinePath = this.getBaselinePath(result.endpoint, result.mode);
+    fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+    fs.writeFileSync(baselinePath, `${JSON.stringify(this.createBaseline(result), null, 2)}\n`);
+    return baselinePath;
+  }
+
+  /**
+   * Read a baseline file and find its endpoint in customRoutes.json
+   * @throws When the file is not a baseline, or the endpoint is no longer routed
+   */
+  load(baselinePath: string): { baseline: FlowBaseline; endpoint: EndpointConfig } {
+    const baseline = JSON.parse(fs.readFileSync(baselinePath, 'utf-8')) as Partial<FlowBaseline> | null;
+    if (!baseline || typeof baseline !== 'object' || baseline.format !== FLOW_BASELINE_FORMAT || !baseline.endpoint) {
+      throw new Error('Not an AGL Essentials flow baseline');
+    }
+    if (typeof baseline.schemaVersion !== 'number' || baseline.schemaVersion > FLOW_BASELINE_SCHEMA_VERSION) {
+      throw new Error(`Unsupported flow baseline schema version ${baseline.schemaVersion} (supported: ${FLOW_BASELINE_SCHEMA_VERSION})`);
+    }
+
+    const { method, endpointUri } = baseline.endpoint;
+    const endpoint = readCustomRoutes(this.workspaceFolder, this.middlewareName).find(route =>
+      route.endpointUri === endpointUri && (route.method ?? 'get').toLowerCase() === method.toLowerCase()
+    );
+    if (!endpoint) {
+      throw new Error(`${method} ${endpointUri} is no longer in customRoutes.json of ${this.middlewareName}`);
+    }
+    return {
+      baseline: {
+        ...baseline,
+        mode: baseline.mode ?? 'normal',
+        externalCalls: baseline.externalCalls ?? [],
+        configKeys: baseline.configKeys ?? [],
+        resLocals: baseline.resLocals ?? []
+      } as FlowBaseline,
+      endpoint
+    };
+  }
+
+  /**
+   * Deviations of an analysis from a baseline: what the current code adds to or removes from the contract
+   */
+  check(baseline: FlowBaseline, result: FlowAnalysisResult): BaselineDeviation[] {
+    const current = this.createBaseline(result);
+    const deviations: BaselineDeviation[] = [];
+    const add = (change: FlowDiffChange, kind: BaselineDeviationKind, middleware: string, label: string, message: string) =>
+      deviations.push({ change, kind, middleware, label, message });
+
+    const callLabel = (call: FlowBaseline['externalCalls'][number]) => `${call.type}: ${call.target}`;
+    this.compareLists(baseline.externalCalls, current.externalCalls, call => `${call.middleware}|${callLabel(call)}`,
+      (call, change) => add(change, 'externalCall', call.middleware, callLabel(call), change === 'added'
+        ? `New external call ${callLabel(call)} in ${call.middleware}`
+        : `External call ${callLabel(call)} is no longer made in ${call.middleware}`));
+
+    this.compareLists(baseline.configKeys, current.configKeys, dep => `${dep.middleware}|${dep.key}`,
+      (dep, change) => add(change, 'configKey', dep.middleware, dep.key, change === 'added'
+        ? `New config key ${dep.key} read in ${dep.middleware}`
+        : `Config key ${dep.key} is no longer read in ${dep.middleware}`));
+
+    const properties = new Set([...baseline.resLocals, ...current.resLocals].map(entry => entry.property));
+    for (const property of Array.from(properties).sort()) {
+      const before = baseline.resLocals.find(entry => entry.property === property) ?? { property, writers: [], readers: [] };
+      const after = current.resLocals.find(entry => entry.property === property) ?? { property, writers: [], readers: [] };
+      const label = `res.locals.${property}`;
+
+      this.compareLists(before.writers, after.writers, mw => mw, (mw, change) => {
+        if (change === 'added') {
+          add(change, 'resLocalsWrite', mw, label, `${label} is now written by ${mw}`);
+          return;
+        }
+        const readers = after.readers.filter(reader => reader !== mw);
+        add(change, 'resLocalsWrite', mw, label, readers.length > 0
+          ? `${label} is no longer written by ${mw}, but ${readers.join(', ')} still read${readers.length === 1 ? 's' : ''} it`
+          : `${label} is no longer written by ${mw}`);
+      });
+      this.compareLists(before.readers, after.readers, mw => mw, (mw, change) =>
+        add(change, 'resLocalsRead', mw, label, change === 'added'
+          ? `${label} is now read by ${mw}`
+          : `${label} is no longer read by ${mw}`));
+    }
+    return deviations;
+  }
+
+  /**
+   * Report the entries only in the current list ('added'), then those only in the baseline ('removed')
+   */
+  private compareLists<T>(
+    baseline: T[],
+    current: T[],
+    getKey: (entry: T) => string,
+    report: (entry: T, change: FlowDiffChange) => void
+  ): void {
+    const baselineKeys = new Set(baseline.map(getKey));
+    const currentKeys = new Set(current.map(getKey));
+    current.filter(entry => !baselineKeys.has(getKey(entry))).forEach(entry => report(entry, 'added'));
+    baseline.filter(entry => !currentKeys.has(getKey(entry))).forEach(entry => report(entry, 'removed'));
+  }
+
+  /**
+   * Target as written in the code, so changed config values do not break the contract
+   */
+  private getCallTarget(call: ExternalCall): string {
+    return call.template ?? call.urlTemplate ?? (call.templateNames?.length ? call.templateNames.join(', ') : call.endpoint) ?? '(dynamic)';
+  }
+
+  private addOnce(list: string[], value: string): void {
+    if (!list.includes(value)) {
+      list.push(value);
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import * as path from 'path';
+import {
+  ComponentAnalysis,
+  ExternalCall,
+  FlowAnalysisResult,
+  FlowDiffChange,
+  FlowDiffEntry,
+  MiddlewareAnalysis,
+  ResLocalsUsage
+} from '../models/flow-analyzer-types';
+
+type DiffItem = Omit<FlowDiffEntry, 'change'>;
+
+/**
+ * FlowDiffAnalyzer - Compares two flow analyses of an endpoint (the current code and the code at another git ref)
+ *
+ * Items are matched by identity rather than position: middlewares by name, components by middleware and
+ * file, external calls by type, target and source file, config keys by source and key, data properties
+ * by name. Line numbers are ignored, so edits that only move code do not show up as changes.
+ * Both results must use workspace paths (see FlowComparisonService).
+ */
+export class FlowDiffAnalyzer {
+  constructor(private workspaceFolder: string) {}
+
+  /**
+   * Items only in the current result ('added') and only in the base result ('removed')
+   */
+  compare(base: FlowAnalysisResult, current: FlowAnalysisResult): FlowDiffEntry[] {
+    const baseItems = this.collectItems(base);
+    const currentItems = this.collectItems(current);
+    const entries: FlowDiffEntry[] = [];
+    currentItems.forEach((item, key) => {
+      if (!baseItems.has(key)) {
+        entries.push({ ...item, change: 'added' });
+      }
+    });
+    baseItems.forEach((item, key) => {
+      if (!currentItems.has(key)) {
+        entries.push({ ...item, change: 'removed' });
+      }
+    });
+    return entries;
+  }
+
+  /**
+   * Copy of the current result for the diagram: added middlewares, components and external calls are
+   * marked, and the removed components and external calls of the middlewares still in the chain are put
+   * back (marked as removed) where they were in the base result.
+   */
+  merge(base: FlowAnalysisResult, current: FlowAnalysisResult, entries: FlowDiffEntry[]): FlowAnalysisResult {
+    const added = new Set(entries.filter(entry => entry.change === 'added').map(entry => entry.key));
+    const removed = new Set(entries.filter(entry => entry.change === 'removed').map(entry => entry.key));
+
+    const middlewares = current.middlewares.map((mw): MiddlewareAnalysis => {
+      const components = this.copyComponents(mw.name, mw.components, added, 'added');
+      const allExternalCalls: ExternalCall[] = mw.allExternalCalls.map(call =>
+        added.has(this.externalCallKey(mw.name, call)) ? { ...call, diffChange: 'added' } : call
+      );
+
+      const baseMw = base.middlewares.find(candidate => candidate.name === mw.name);
+      if (baseMw) {
+        this.insertRemovedComponents(mw.name, baseMw.components, components, removed);
+        for (const call of baseMw.allExternalCalls) {
+          if (removed.has(this.externalCallKey(mw.name, call))) {
+            allExternalCalls.push({ ...call, diffChange: 'removed' });
+          }
+        }
+      }
+
+      return {
+        ...mw,
+        components,
+        allExternalCalls,
+        diffChange: added.has(this.middlewareKey(mw.name)) ? 'added' : undefined
+      };
+    });
+
+    return { ...current, middlewares };
+  }
+
+  private collectItems(result: FlowAnalysisResult): Map<string, DiffItem> {
+    const items = new Map<string, DiffItem>();
+    const add = (item: DiffItem) => {
+      if (!items.has(item.key)) {
+        items.set(item.key, item);
+      }
+    };
+
+    for (const mw of result.middlewares) {
+      add({ kind: 'middleware', key: this.middlewareKey(mw.name), label: mw.name, middleware: mw.name, filePath: mw.filePath });
+
+      const collect = (components: ComponentAnalysis[]) => {
+        for (const comp of components) {
+          add({
+            kind: 'component',
+            key: this.componentKey(mw.name, comp),
+            label: comp.isUnresolved || !comp.filePath ? comp.name : this.relative(comp.filePath),
+            middleware: mw.name,
+            filePath: comp.filePath || comp.parentPath,
+            lineNumber: comp.isUnresolved ? comp.requireLine : comp.mainFunctionLine
+          });
+          collect(comp.children);
+        }
+      };
+      collect(mw.components);
+
+      for (const call of mw.allExternalCalls) {
+        add({
+          kind: 'externalCall',
+          key: this.externalCallKey(mw.name, call),
+          label: `${call.type}: ${this.getCallTarget(call) || '(dynamic)'}`,
+          middleware: mw.name,
+          filePath: call.sourcePath,
+          lineNumber: call.lineNumber
+        });
+      }
+
+      for (const dep of mw.allConfigDeps) {
+        add({
+          kind: 'configKey',
+          key: `configKey|${mw.name}|${dep.source}.${dep.key}`,
+          label: `${dep.source}.${dep.key}`,
+          middleware: mw.name,
+          filePath: dep.sourcePath,
+          lineNumber: dep.lineNumber
+        });
+      }
+
+      const addProperties = (kind: 'resLocals' | 'reqTransaction', usages: ResLocalsUsage[]) => {
+        for (const usage of usages) {
+          add({
+            kind,
+            key: `${kind}|${usage.property}`,
+            label: `${kind === 'resLocals' ? 'res.locals' : 'req.transaction'}.${usage.property}`,
+            middleware: mw.name,
+            filePath: usage.sourcePath ?? mw.filePath,
+            lineNumber: usage.lineNumber
+          });
+        }
+      };
+      addProperties('resLocals', [...mw.allResLocalsWrites, ...mw.allResLocalsReads]);
+      addProperties('reqTransaction', [...mw.allReqTransactionWrites, ...mw.allReqTransactionReads]);
+    }
+    return items;
+  }
+
+  /**
+   * Deep copy of a component tree, marking the components whose key is listed
+   */
+  private copyComponents(
+    middlewareName: string,
+    components: ComponentAnalysis[],
+    keys: Set<string>,
+    change: FlowDiffChange
+  ): ComponentAnalysis[] {
+    return components.map(comp => ({
+      ...comp,
+      children: this.copyComponents(middlewareName, comp.children, keys, change),
+      diffChange: keys.has(this.componentKey(middlewareName, comp)) ? change : undefined
+    }));
+  }
+
+  /**
+   * Put the removed subtrees of the base tree under their counterparts in the merged tree
+   * (subtrees whose parent no longer exists are only listed in the diff)
+   */
+  private insertRemovedComponents(
+    middlewareName: string,
+    baseComponents: ComponentAnalysis[],
+    mergedComponents: ComponentAnalysis[] | undefined,
+    removed: Set<string>
+  ): void {
+    for (const comp of baseComponents) {
+      const key = this.componentKey(middlewareName, comp);
+      if (removed.has(key)) {
+        mergedComponents?.push(...this.copyComponents(middlewareName, [comp], removed, 'removed'));
+        continue;
+      }
+      const counterpart = mergedComponents?.find(candidate => this.componentKey(middlewareName, candidate) === key);
+      this.insertRemovedComponents(middlewareName, comp.children, counterpart?.children, removed);
+    }
+  }
+
+  private middlewareKey(middlewareName: string): string {
+    return `middleware|${middlewareName}`;
+  }
+
+  private componentKey(middlewareName: string, comp: ComponentAnalysis): string {
+    const id = comp.isUnresolved || !comp.filePath ? `?${comp.name}` : this.relative(comp.filePath);
+    return `component|${middlewareName}|${id}`;
+  }
+
+  private externalCallKey(middlewareName: string, call: ExternalCall): string {
+    const source = call.sourcePath ? this.relative(call.sourcePath) : '';
+    return `externalCall|${middlewareName}|${call.type}|${this.getCallTarget(call)}|${source}`;
+  }
+
+  private getCallTarget(call: ExternalCall): string {
+    return call.endpoint ?? call.urlTemplate ?? call.template ?? (call.templateNames ?? []).join(', ');
+  }
+
+  private relative(filePath: string): string {
+    const relativePath = path.relative(this.workspaceFolder, filePath);
+    return (relativePath.startsWith('..') ? filePath : relativePath).replace(/\\/g, '/');
+  }
+}
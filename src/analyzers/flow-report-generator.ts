@@ -0,0 +1,196 @@
+import * as path from 'path';
+import {
+  BaselineCheckResult,
+  ComponentAnalysis,
+  ExternalCall,
+  FlowAnalysisResult,
+  ImpactReport
+} from '../models/flow-analyzer-types';
+
+/**
+ * FlowReportGenerator - Renders a FlowAnalysisResult as a Markdown report outside of the webview
+ *
+ * The report is a review-friendly summary with the Mermaid diagram, the component tree,
+ * external calls and issues. File paths are relative to the workspace folder.
+ * Also renders git diff impact reports for PR descriptions and flow baseline check reports.
+ * (JSON exports are written by FlowAnalysisSerializer.)
+ */
+export class FlowReportGenerator {
+  constructor(private workspaceFolder: string) {}
+
+  /**
+   * Render a result as a Markdown report
+   * @param mermaidDiagram The flow diagram (FlowAnalyzer.generateMermaidDiagram)
+   */
+  toMarkdown(result: FlowAnalysisResult, mermaidDiagram: string): string {
+    const { endpoint } = result;
+    const lines: string[] = [
+      `# ${endpoint.method.toUpperCase()} ${endpoint.endpointUri}`,
+      '',
+      `- **Mode**: ${result.mode === 'panic' ? 'panic path' : 'normal'}`,
+      `- **Middleware chain**: ${endpoint.middleware.map(mw => `\`${mw}\``).join(' → ')}`
+    ];
+    if (endpoint.template) {
+      lines.push(`- **Template**: \`${endpoint.template}\``);
+    }
+    lines.push('');
+
+    lines.push('## Flow', '', '```mermaid', mermaidDiagram.trimEnd(), '```', '');
+
+    lines.push('## Middlewares', '');
+    result.middlewares.forEach((mw, index) => {
+      const status = !mw.exists ? ' (not found)' : mw.entryFunctionMissing ? ' (no panic function)' : '';
+      lines.push(`${index + 1}. **${mw.name}**${status} - \`${this.relative(mw.filePath)}\``);
+      this.renderComponents(mw.components, 1, lines);
+    });
+    lines.push('');
+
+    const externalCalls = result.middlewares.flatMap(mw => mw.allExternalCalls.map(call => ({ mw: mw.name, call })));
+    if (externalCalls.length > 0) {
+      lines.push('## External Calls', '', '| Middleware | Type | Template / URL | Location |', '| --- | --- | --- | --- |');
+      for (const { mw, call } of externalCalls) {
+        lines.push(`| ${mw} | ${call.type} | ${this.describeCall(call)} | ${this.location(call.sourcePath, call.lineNumber)} |`);
+      }
+      lines.push('');
+    }
+
+    const properties = Array.from(result.allResLocalsProperties.entries());
+    if (properties.length > 0) {
+      lines.push('## res.locals Data Flow', '', '| Property | Producers | Consumers |', '| --- | --- | --- |');
+      for (const [property, { producers, consumers }] of properties) {
+        lines.push(`| \`${property}\` | ${producers.join(', ') || '-'} | ${consumers.join(', ') || '-'} |`);
+      }
+      lines.push('');
+    }
+
+    const issues = [
+      ...result.dataIssues.map(issue => ({ message: issue.message, filePath: issue.filePath, lineNumber: issue.lineNumber })),
+      ...result.configIssues
+        .filter(issue => issue.kind !== 'unusedKey')
+        .map(issue => ({ message: issue.message, filePath: issue.filePath, lineNumber: issue.lineNumber }))
+    ];
+    lines.push('## Issues', '');
+    if (issues.length === 0) {
+      lines.push('No data or config issues found.');
+    }
+    for (const issue of issues) {
+      lines.push(`- ⚠️ ${this.escape(issue.message)} (${this.location(issue.filePath, issue.lineNumber)})`);
+    }
+    lines.push('');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Render an impact report as a Markdown section for a PR description
+   */
+  toImpactMarkdown(report: ImpactReport): string {
+    const lines: string[] = [
+      `## Affected endpoints (${report.title})`,
+      ''
+    ];
+    if (!report.indexComplete) {
+      lines.push('> ⚠️ The endpoint index was still being built; the list may be incomplete.', '');
+    }
+    if (report.skippedRepositories.length > 0) {
+      lines.push(`> Skipped (no such branch): ${report.skippedRepositories.map(repo => `\`${this.relative(repo)}\``).join(', ')}`, '');
+    }
+
+    if (report.endpoints.length === 0) {
+      lines.push('No indexed endpoint is affected by the changes.', '');
+    } else {
+      lines.push('| Middleware | Endpoint | Reasons |', '| --- | --- | --- |');
+      for (const impact of report.endpoints) {
+        const endpoint = `\`${impact.endpoint.method.toUpperCase()} ${impact.endpoint.endpointUri}\`${impact.removed ? ' (removed)' : ''}`;
+        const reasons = impact.reasons
+          .map(reason => `${this.escape(reason.message)} (${this.location(reason.filePath, reason.lineNumber)})`)
+          .join('<br>');
+        lines.push(`| ${impact.middlewareName} | ${endpoint} | ${reasons} |`);
+      }
+      lines.push('');
+    }
+
+    lines.push(`<details><summary>${report.changedFiles.length} changed file(s)</summary>`, '');
+    for (const file of report.changedFiles) {
+      const renamed = file.oldFilePath ? ` (from \`${this.relative(file.oldFilePath)}\`)` : '';
+      const unmatched = report.unmatchedFiles.includes(file.filePath) ? ' - not used by any endpoint' : '';
+      lines.push(`- ${file.status}: \`${this.relative(file.filePath)}\`${renamed}${unmatched}`);
+    }
+    lines.push('', '</details>', '');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Render flow baseline check results: the deviations of every failed endpoint, then the passed ones
+   */
+  toBaselineMarkdown(results: BaselineCheckResult[]): string {
+    const failed = results.filter(result => result.error || result.deviations.length > 0);
+    const lines: string[] = [
+      '## Flow baseline check',
+      '',
+      `${results.length} baseline(s) checked: ${results.length - failed.length} passed, ${failed.length} failed.`,
+      ''
+    ];
+    const title = (result: BaselineCheckResult) => result.endpoint
+      ? `\`${result.endpoint.method} ${result.endpoint.endpointUri}\` (${result.middlewareName}${result.mode === 'panic' ? ', panic path' : ''})`
+      : `\`${this.relative(result.baselinePath)}\``;
+
+    for (const result of failed) {
+      lines.push(`### ❌ ${title(result)}`, '', `Baseline: \`${this.relative(result.baselinePath)}\``, '');
+      if (result.error) {
+        lines.push(`- ⚠️ Not checked: ${this.escape(result.error)}`);
+      }
+      for (const deviation of result.deviations) {
+        lines.push(`- ${deviation.change === 'added' ? '➕' : '➖'} ${this.escape(deviation.message)}`);
+      }
+      lines.push('');
+    }
+
+    const passed = results.filter(result => !failed.includes(result));
+    if (passed.length > 0) {
+      lines.push('### ✅ Matching their baseline', '');
+      passed.forEach(result => lines.push(`- ${title(result)}`));
+      lines.push('');
+    }
+    if (failed.length > 0) {
+      lines.push('Record the baseline again when a change of the contract is intended.', '');
+    }
+    return lines.join('\n');
+  }
+
+  private renderComponents(components: ComponentAnalysis[], depth: number, lines: string[]): void {
+    for (const comp of components) {
+      const indent = '   '.repeat(depth);
+      if (comp.isUnresolved) {
+        lines.push(`${indent}- ❓ \`${comp.name}\` (unresolved)`);
+        continue;
+      }
+      const calls = comp.externalCalls.length > 0 ? ` - ${comp.externalCalls.length} external call(s)` : '';
+      lines.push(`${indent}- ${comp.displayName} \`${this.relative(comp.filePath)}\`${calls}`);
+      this.renderComponents(comp.children, depth + 1, lines);
+    }
+  }
+
+  private describeCall(call: ExternalCall): string {
+    const target = call.endpoint ?? call.template;
+    const missing = call.missingTemplates?.length ? ` ⚠️ no definition for ${call.missingTemplates.join(', ')}` : '';
+    return `${target ? `\`${this.escape(target)}\`` : '-'}${missing}`;
+  }
+
+  private location(filePath: string | undefined, lineNumber: number | undefined): string {
+    return filePath ? `\`${this.relative(filePath)}:${lineNumber ?? 1}\`` : '-';
+  }
+
+  private relative(filePath: string): string {
+    const relativePath = path.relative(this.workspaceFolder, filePath);
+    return (relativePath.startsWith('..') ? filePath : relativePath).replace(/\\/g, '/');
+  }
+
+  /**
+   * Escape table separators in free text
+   */
+  private escape(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  }
+}
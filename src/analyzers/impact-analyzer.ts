@@ -0,0 +1,428 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ChangedFile,
+  EndpointConfig,
+  EndpointImpact,
+  EndpointSummary,
+  ImpactReason
+} from '../models/flow-analyzer-types';
+import { CONFIG_PREFIX, findJsonKeyLines, getFullMiddlewareName, normalizePath } from '../shared';
+import { EndpointSummarizer } from './endpoint-summarizer';
+import { TEMPLATE_DIR_PATTERN, TEMPLATE_EXTENSIONS, TEMPLATE_FILE_PATTERN } from './template-index';
+
+/** Config files whose top-level keys are read through appCache (file name -> ConfigDependency source) */
+const CONFIG_FILES: Record<string, string> = {
+  'mWareConfig.json': 'mWareConfig',
+  'appConfig.json': 'appConfig',
+  'sysParameter.json': 'sysParameter'
+};
+
+const ROUTES_FILE = 'customRoutes.json';
+const MAPPER_CONFIG_FILE = 'autoMapperConfig.json';
+
+const STATUS_VERBS: Record<ChangedFile['status'], string> = {
+  added: 'added',
+  modified: 'changed',
+  deleted: 'deleted',
+  renamed: 'renamed'
+};
+
+/**
+ * Changed file inside a config repo: agl-config-<middleware>/files/<configPath>
+ */
+interface ConfigFileLocation {
+  middlewareName: string;
+  configPath: string;       // Path below files/, with '/' separators
+}
+
+/**
+ * Mappers of a middleware (autoMapperConfig.json) and the mappers each one nests (`items`)
+ */
+interface MapperGraph {
+  files: Map<string, string>;          // Normalized mapper file path -> mapper name
+  nested: Map<string, string[]>;
+}
+
+type AddReason = (middlewareName: string, endpoint: EndpointConfig, reason: ImpactReason, removed?: boolean) => void;
+
+/**
+ * ImpactAnalyzer - Maps the files of a change set to the endpoints they affect
+ *
+ * Uses the summaries of the endpoint index:
+ * - Source files affect the endpoints whose component tree contains them
+ * - customRoutes.json changes affect the added, removed and modified routes
+ * - Mapper files and autoMapperConfig.json entries affect the endpoints whose template (or a mapper it nests) changed
+ * - mWareConfig.json / appConfig.json / sysParameter.json keys affect the endpoints reading them
+ * - Template definitions in the config repos affect the endpoints calling the templates
+ */
+export class ImpactAnalyzer {
+  private mapperGraphs = new Map<string, MapperGraph>();
+
+  constructor(private workspaceFolder: string) {}
+
+  /**
+   * Whether the content before and after the change is needed (config files compared key by key)
+   */
+  static needsContent(workspaceFolder: string, filePath: string): boolean {
+    return path.extname(filePath) === '.json' && !!ImpactAnalyzer.getConfigFileLocation(workspaceFolder, filePath);
+  }
+
+  analyze(changes: ChangedFile[], summaries: EndpointSummary[]): { endpoints: EndpointImpact[]; unmatchedFiles: string[] } {
+    this.mapperGraphs.clear();
+    const impacts = new Map<string, EndpointImpact>();
+    const unmatchedFiles: string[] = [];
+
+    const addReason = (middlewareName: string, endpoint: EndpointConfig, reason: ImpactReason, removed = false) => {
+      const key = EndpointSummarizer.getKey(middlewareName, endpoint);
+      let impact = impacts.get(key);
+      if (!impact) {
+        impact = { key, middlewareName, endpoint, reasons: [] };
+        impacts.set(key, impact);
+      }
+      if (removed) {
+        impact.removed = true;
+      }
+      if (!impact.reasons.some(existing => existing.message === reason.message && existing.filePath === reason.filePath)) {
+        impact.reasons.push(reason);
+      }
+    };
+
+    for (const change of changes) {
+      const reasonCount = this.countReasons(impacts);
+      const location = ImpactAnalyzer.getConfigFileLocation(this.workspaceFolder, change.filePath);
+
+      if (location?.configPath === ROUTES_FILE) {
+        this.analyzeRoutes(change, location.middlewareName, addReason);
+      } else if (location?.configPath === MAPPER_CONFIG_FILE) {
+        this.analyzeMapperConfig(change, location.middlewareName, summaries, addReason);
+      } else if (location && CONFIG_FILES[location.configPath]) {
+        this.analyzeConfigFile(change, location.middlewareName, CONFIG_FILES[location.configPath], summaries, addReason);
+      } else if (location) {
+        this.analyzeTemplateFile(change, location.configPath, summaries, addReason);
+      } else {
+        this.analyzeSourceFile(change, summaries, addReason);
+        this.analyzeMapperFile(change, summaries, addReason);
+      }
+
+      if (this.countReasons(impacts) === reasonCount) {
+        unmatchedFiles.push(change.filePath);
+      }
+    }
+
+    const endpoints = Array.from(impacts.values()).sort((a, b) =>
+      a.middlewareName.localeCompare(b.middlewareName) || a.endpoint.endpointUri.localeCompare(b.endpoint.endpointUri)
+    );
+    return { endpoints, unmatchedFiles };
+  }
+
+  private static getConfigFileLocation(workspaceFolder: string, filePath: string): ConfigFileLocation | undefined {
+    const [repo, files, ...rest] = path.relative(workspaceFolder, filePath).split(/[\\/]/);
+    if (!repo.startsWith(CONFIG_PREFIX) || files !== 'files' || rest.length === 0) {
+      return undefined;
+    }
+    return { middlewareName: repo.slice(CONFIG_PREFIX.length), configPath: rest.join('/') };
+  }
+
+  private analyzeSourceFile(change: ChangedFile, summaries: EndpointSummary[], addReason: AddReason): void {
+    const paths = new Set([change.filePath, change.oldFilePath].filter((p): p is string => !!p).map(normalizePath));
+    for (const summary of summaries) {
+      const component = summary.components.find(comp => paths.has(normalizePath(comp.filePath)));
+      if (!component) {
+        continue;
+      }
+      const verb = STATUS_VERBS[change.status];
+      const message = component.depth === -1
+        ? `Middleware ${component.middleware} ${verb}`
+        : `Component ${this.relative(component.filePath)} ${verb} (in ${component.middleware})`;
+      addReason(summary.middlewareName, summary.endpoint, { kind: 'source', message, filePath: change.filePath });
+    }
+  }
+
+  /**
+   * Compare the routes before and after the change by method and URI
+   */
+  private analyzeRoutes(change: ChangedFile, middlewareName: string, addReason: AddReason): void {
+    const before = this.parseRoutes(change.oldContent);
+    const after = this.parseRoutes(change.newContent);
+    const routeKey = (endpoint: EndpointConfig) => EndpointSummarizer.getKey(middlewareName, endpoint);
+    const oldRoutes = new Map(before.map(endpoint => [routeKey(endpoint), endpoint]));
+    const newRoutes = new Map(after.map(endpoint => [routeKey(endpoint), endpoint]));
+
+    for (const [key, endpoint] of newRoutes) {
+      const oldEndpoint = oldRoutes.get(key);
+      const lineNumber = this.findLine(change.newContent, `"${endpoint.endpointUri}"`);
+      if (!oldEndpoint) {
+        addReason(middlewareName, endpoint, { kind: 'route', message: 'Route added', filePath: change.filePath, lineNumber });
+        continue;
+      }
+      const fields = Array.from(new Set([...Object.keys(oldEndpoint), ...Object.keys(endpoint)]))
+        .filter(field => JSON.stringify((oldEndpoint as any)[field]) !== JSON.stringify((endpoint as any)[field]));
+      if (fields.length > 0) {
+        addReason(middlewareName, endpoint, {
+          kind: 'route',
+          message: `Route changed (${fields.join(', ')})`,
+          filePath: change.filePath,
+          lineNumber
+        });
+      }
+    }
+
+    for (const [key, endpoint] of oldRoutes) {
+      if (!newRoutes.has(key)) {
+        addReason(middlewareName, endpoint, { kind: 'route', message: 'Route removed', filePath: change.filePath }, true);
+      }
+    }
+  }
+
+  /**
+   * Mapper entries added, removed or pointing to another file
+   */
+  private analyzeMapperConfig(change: ChangedFile, middlewareName: string, summaries: EndpointSummary[], addReason: AddReason): void {
+    const before = this.parseMapConfigs(change.oldContent);
+    const after = this.parseMapConfigs(change.newContent);
+    const names = new Set([...before.keys(), ...after.keys()]);
+    const changed = Array.from(names).filter(name => before.get(name) !== after.get(name));
+
+    for (const mapperName of changed) {
+      this.addMapperReasons(middlewareName, mapperName, summaries, addReason, {
+        message: `Mapper entry ${mapperName} ${!before.has(mapperName) ? 'added' : !after.has(mapperName) ? 'removed' : 'changed'}`,
+        filePath: change.filePath,
+        lineNumber: this.findLine(change.newContent, `"${mapperName}"`)
+      });
+    }
+  }
+
+  /**
+   * A mapper JSON file of a middleware (agl-<mw>-middleware/<file>.json listed in autoMapperConfig.json)
+   */
+  private analyzeMapperFile(change: ChangedFile, summaries: EndpointSummary[], addReason: AddReason): void {
+    if (path.extname(change.filePath) !== '.json') {
+      return;
+    }
+    const middlewareNames = new Set(summaries.map(summary => summary.middlewareName));
+    for (const middlewareName of middlewareNames) {
+      for (const filePath of [change.filePath, change.oldFilePath]) {
+        const mapperName = filePath && this.getMapperGraph(middlewareName).files.get(normalizePath(filePath));
+        if (mapperName) {
+          this.addMapperReasons(middlewareName, mapperName, summaries, addReason, {
+            message: `Mapper ${mapperName} ${STATUS_VERBS[change.status]}`,
+            filePath: change.filePath
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Add a reason to the endpoints whose template is the mapper or nests it
+   */
+  private addMapperReasons(
+    middlewareName: string,
+    mapperName: string,
+    summaries: EndpointSummary[],
+    addReason: AddReason,
+    reason: Omit<ImpactReason, 'kind'>
+  ): void {
+    const graph = this.getMapperGraph(middlewareName);
+    for (const summary of summaries) {
+      const template = summary.endpoint.template;
+      if (summary.middlewareName !== middlewareName || !template) {
+        continue;
+      }
+      if (template === mapperName || this.nestsMapper(graph, template, mapperName)) {
+        const via = template === mapperName ? '' : ` (nested in template ${template})`;
+        addReason(middlewareName, summary.endpoint, { kind: 'mapper', ...reason, message: `${reason.message}${via}` });
+      }
+    }
+  }
+
+  private nestsMapper(graph: MapperGraph, rootName: string, mapperName: string): boolean {
+    const visited = new Set<string>();
+    const visit = (name: string): boolean => {
+      if (visited.has(name)) {
+        return false;
+      }
+      visited.add(name);
+      return (graph.nested.get(name) ?? []).some(child => child === mapperName || visit(child));
+    };
+    return visit(rootName);
+  }
+
+  /**
+   * Read the current mappers of a middleware and the mappers they nest
+   */
+  private getMapperGraph(middlewareName: string): MapperGraph {
+    let graph = this.mapperGraphs.get(middlewareName);
+    if (graph) {
+      return graph;
+    }
+
+    graph = { files: new Map(), nested: new Map() };
+    this.mapperGraphs.set(middlewareName, graph);
+    const configPath = path.join(this.workspaceFolder, `${CONFIG_PREFIX}${middlewareName}`, 'files', MAPPER_CONFIG_FILE);
+    let mapConfigs: Map<string, string>;
+    try {
+      mapConfigs = this.parseMapConfigs(fs.readFileSync(configPath, 'utf-8'));
+    } catch {
+      return graph;
+    }
+
+    for (const [name, file] of mapConfigs) {
+      let mapperPath = path.join(this.workspaceFolder, getFullMiddlewareName(middlewareName), file);
+      if (!mapperPath.endsWith('.json')) {
+        mapperPath += '.json';
+      }
+      graph.files.set(normalizePath(mapperPath), name);
+      try {
+        graph.nested.set(name, this.findNestedMappers(JSON.parse(fs.readFileSync(mapperPath, 'utf-8'))));
+      } catch {
+        graph.nested.set(name, []);
+      }
+    }
+    return graph;
+  }
+
+  /**
+   * Mapper names referenced by `items` (as in the Mappers view)
+   */
+  private findNestedMappers(mapper: unknown): string[] {
+    const nested: string[] = [];
+    const visit = (value: unknown) => {
+      if (!value || typeof value !== 'object') {
+        return;
+      }
+      for (const [key, child] of Object.entries(value)) {
+        if (key === 'items' && typeof child === 'string' && child !== '$original') {
+          nested.push(child);
+        } else {
+          visit(child);
+        }
+      }
+    };
+    visit(mapper);
+    return nested;
+  }
+
+  private analyzeConfigFile(
+    change: ChangedFile,
+    middlewareName: string,
+    source: string,
+    summaries: EndpointSummary[],
+    addReason: AddReason
+  ): void {
+    const keys = this.findChangedKeys(change.oldContent, change.newContent);
+    if (keys.length === 0) {
+      return;
+    }
+    const keyLines = change.newContent ? findJsonKeyLines(keys, change.newContent) : new Map<string, number>();
+
+    for (const summary of summaries) {
+      if (summary.middlewareName !== middlewareName) {
+        continue;
+      }
+      const readKeys = new Set(summary.configKeys
+        .filter(dep => dep.source === source)
+        .map(dep => dep.key.split('.')[0]));
+      if (source === 'mWareConfig' && summary.endpoint.nanoConfigKey) {
+        readKeys.add(summary.endpoint.nanoConfigKey);
+      }
+      for (const key of keys.filter(candidate => readKeys.has(candidate))) {
+        addReason(middlewareName, summary.endpoint, {
+          kind: 'config',
+          message: `${source} key '${key}' changed`,
+          filePath: change.filePath,
+          lineNumber: keyLines.get(key)
+        });
+      }
+    }
+  }
+
+  /**
+   * Template definitions: files of a <type>Templates directory, or keys of a <type>Templates.json file
+   */
+  private analyzeTemplateFile(change: ChangedFile, configPath: string, summaries: EndpointSummary[], addReason: AddReason): void {
+    const segments = configPath.split('/');
+    const fileName = segments[segments.length - 1];
+    let templateNames: string[] = [];
+    if (segments.slice(0, -1).some(dir => TEMPLATE_DIR_PATTERN.test(dir)) && TEMPLATE_EXTENSIONS.includes(path.extname(fileName))) {
+      templateNames = [path.basename(fileName, path.extname(fileName))];
+    } else if (TEMPLATE_FILE_PATTERN.test(fileName)) {
+      templateNames = this.findChangedKeys(change.oldContent, change.newContent);
+    }
+    if (templateNames.length === 0) {
+      return;
+    }
+    const keyLines = change.newContent ? findJsonKeyLines(templateNames, change.newContent) : new Map<string, number>();
+
+    for (const summary of summaries) {
+      const called = new Set(summary.externalCalls.flatMap(call => call.templateNames ?? (call.target ? [call.target] : [])));
+      for (const templateName of templateNames.filter(name => called.has(name))) {
+        addReason(summary.middlewareName, summary.endpoint, {
+          kind: 'template',
+          message: `Template ${templateName} ${templateNames.length === 1 ? STATUS_VERBS[change.status] : 'changed'}`,
+          filePath: change.filePath,
+          lineNumber: keyLines.get(templateName)
+        });
+      }
+    }
+  }
+
+  /**
+   * Top-level keys added, removed or changed between two JSON objects (all keys when one side is not an object)
+   */
+  private findChangedKeys(oldContent: string | undefined, newContent: string | undefined): string[] {
+    const before = this.parseObject(oldContent);
+    const after = this.parseObject(newContent);
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return Array.from(keys).filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+  }
+
+  private parseObject(content: string | undefined): Record<string, unknown> {
+    try {
+      const value = content ? JSON.parse(content) : {};
+      return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private parseRoutes(content: string | undefined): EndpointConfig[] {
+    try {
+      const routes = content ? JSON.parse(content) : [];
+      return Array.isArray(routes) ? routes.filter(route => route?.endpointUri) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * autoMapperConfig.json mapConfigs as mapper name -> file
+   */
+  private parseMapConfigs(content: string | undefined): Map<string, string> {
+    try {
+      const mapConfigs = content ? JSON.parse(content).mapConfigs : [];
+      return new Map((Array.isArray(mapConfigs) ? mapConfigs : [])
+        .filter(mapConfig => mapConfig?.name)
+        .map(mapConfig => [mapConfig.name, String(mapConfig.file)]));
+    } catch {
+      return new Map();
+    }
+  }
+
+  private findLine(content: string | undefined, text: string): number | undefined {
+    const index = content?.indexOf(text) ?? -1;
+    return index >= 0 ? content!.slice(0, index).split('\n').length : undefined;
+  }
+
+  private countReasons(impacts: Map<string, EndpointImpact>): number {
+    let count = 0;
+    impacts.forEach(impact => count += impact.reasons.length);
+    return count;
+  }
+
+  private relative(filePath: string): string {
+    const relativePath = path.relative(this.workspaceFolder, filePath);
+    return (relativePath.startsWith('..') ? filePath : relativePath).replace(/\\/g, '/');
+  }
+}
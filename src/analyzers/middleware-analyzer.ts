@@ -1,11 +1,30 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import {
+  AnalyzerOptions,
   ComponentAnalysis,
+  ConfigDependency,
+  FlowAnalysisMode,
+  LibraryResolution,
   MiddlewareAnalysis
 } from '../models/flow-analyzer-types';
-import { normalizePath } from '../shared';
+import { normalizePath, resolveMiddlewareFilePath, SOURCE_FILE_EXTENSIONS } from '../shared';
 import { ComponentAnalyzer } from './component-analyzer-acorn';
+import { ExternalCallRules } from './external-call-rules';
+
+/**
+ * Exported middleware function each analysis mode starts from
+ */
+const ENTRY_FUNCTIONS: Record<FlowAnalysisMode, string> = {
+  normal: 'run',
+  panic: 'panic'
+};
+
+/** Folders of unit tests and mocks, whose config keys do not count as used */
+const TEST_FOLDERS = new Set(['test', 'tests', '__tests__', '__mocks__', 'spec']);
+
+/** Test files placed next to the sources, e.g. foo.test.js */
+const TEST_FILE_PATTERN = /\.(?:test|spec)\.[^.]+$/;
 
 /**
  * MiddlewareAnalyzer - Wrapper around ComponentAnalyzer for middleware entry points
@@ -21,13 +40,15 @@ import { ComponentAnalyzer } from './component-analyzer-acorn';
 export class MiddlewareAnalyzer {
   private componentAnalyzer: ComponentAnalyzer;
   private normalizedWorkspaceFolder: string;
+  private projectSourceFiles?: string[];  // Source files of the middleware project (without tests)
 
   constructor(
     private workspaceFolder: string,
-    private middlewareName: string
+    private middlewareName: string,
+    options: AnalyzerOptions = {}
   ) {
     this.normalizedWorkspaceFolder = normalizePath(workspaceFolder);
-    this.componentAnalyzer = new ComponentAnalyzer(workspaceFolder, middlewareName);
+    this.componentAnalyzer = new ComponentAnalyzer(workspaceFolder, middlewareName, options);
   }
 
   private get middlewareRoot(): string {
@@ -39,6 +60,45 @@ export class MiddlewareAnalyzer {
    */
   public clearCache(): void {
     this.componentAnalyzer.clearCache();
+    this.projectSourceFiles = undefined;
+  }
+
+  /**
+   * Invalidate cached components affected by changed files
+   * @returns The invalidated file paths
+   */
+  public invalidate(filePaths: string[]): string[] {
+    // Created or deleted source files change the project file list
+    const knownFiles = new Set(this.projectSourceFiles ?? []);
+    const isProjectFile = (filePath: string) => {
+      const relativePath = path.relative(this.middlewareRoot, filePath);
+      return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+    };
+    if (filePaths.map(p => normalizePath(p)).some(p => isProjectFile(p) && knownFiles.has(p) !== fs.existsSync(p))) {
+      this.projectSourceFiles = undefined;
+    }
+    return this.componentAnalyzer.invalidate(filePaths);
+  }
+
+  /**
+   * Pick up changes of the workspace rules file
+   */
+  public reloadRules(): void {
+    this.componentAnalyzer.reloadRules();
+  }
+
+  /**
+   * External call detection rules currently in effect (built-in and workspace rules)
+   */
+  public getExternalCallRules(): ExternalCallRules {
+    return this.componentAnalyzer.getExternalCallRules();
+  }
+
+  /**
+   * The AGL libraries and the copies the requires resolve to
+   */
+  public getLibraries(): LibraryResolution[] {
+    return this.componentAnalyzer.getLibraries();
   }
 
   /**
@@ -52,8 +112,11 @@ export class MiddlewareAnalyzer {
    * Analyze a middleware and return MiddlewareAnalysis
    * This method uses ComponentAnalyzer for the actual analysis,
    * then aggregates the results into the MiddlewareAnalysis format.
+   * @param mode Selects the exported function the analysis starts from (run / panic); the
+   *   components and all* data only cover code reachable from it
    */
-  public analyzeMiddleware(middlewarePath: string): MiddlewareAnalysis {
+  public analyzeMiddleware(middlewarePath: string, mode: FlowAnalysisMode = 'normal'): MiddlewareAnalysis {
+    const entryFunction = ENTRY_FUNCTIONS[mode];
     const result: MiddlewareAnalysis = {
       name: middlewarePath,
       filePath: '',
@@ -77,18 +140,14 @@ export class MiddlewareAnalyzer {
     };
 
     // Resolve the middleware file path
-    let fullPath = path.join(this.middlewareRoot, `${middlewarePath}.js`);
-    if (!fs.existsSync(fullPath)) {
-      fullPath = path.join(this.middlewareRoot, `${middlewarePath}/index.js`);
-    }
-
-    if (!fs.existsSync(fullPath)) {
-      result.filePath = fullPath;
+    const fullPath = resolveMiddlewareFilePath(this.workspaceFolder, this.middlewareName, middlewarePath);
+    if (!fullPath) {
+      result.filePath = path.join(this.middlewareRoot, `${middlewarePath}.js`);
       return result;
     }
 
     // Use ComponentAnalyzer to analyze the middleware entry point
-    const componentResult = this.componentAnalyzer.analyze(fullPath, 0);
+    const componentResult = this.componentAnalyzer.analyze(fullPath, 0, undefined, [entryFunction]);
     
     if (!componentResult) {
       result.filePath = fullPath;
@@ -98,6 +157,15 @@ export class MiddlewareAnalyzer {
     // Convert ComponentAnalysis to MiddlewareAnalysis
     result.filePath = componentResult.filePath;
     result.exists = componentResult.exists;
+
+    // Without a panic function the framework has nothing to call on the panic path
+    // (a missing run still falls back to the whole module, e.g. module.exports = function)
+    if (mode === 'panic' && !componentResult.exportedFunctions.includes(entryFunction)) {
+      result.entryFunctionMissing = true;
+      this.findFunctionLocations(fullPath, result);
+      return result;
+    }
+
     result.resLocalsReads = componentResult.resLocalsReads;
     result.resLocalsWrites = componentResult.resLocalsWrites;
     result.reqTransactionReads = componentResult.reqTransactionReads;
@@ -117,6 +185,41 @@ export class MiddlewareAnalyzer {
     return result;
   }
 
+  /**
+   * Collect the config dependencies of every source file of the middleware, whether or not
+   * an analyzed endpoint reaches it. Each file is only re-analyzed after it was invalidated.
+   */
+  public collectProjectConfigDependencies(): ConfigDependency[] {
+    if (!this.projectSourceFiles) {
+      this.projectSourceFiles = this.findSourceFiles(this.middlewareRoot).map(filePath => normalizePath(filePath));
+    }
+    return this.projectSourceFiles.flatMap(filePath => this.componentAnalyzer.getFileConfigDependencies(filePath));
+  }
+
+  /**
+   * Recursively list the analyzable source files of a directory, skipping node_modules, hidden folders and tests
+   */
+  private findSourceFiles(dir: string): string[] {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    return entries.flatMap(entry => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        const skipped = entry.name === 'node_modules' || entry.name.startsWith('.') || TEST_FOLDERS.has(entry.name);
+        return skipped ? [] : this.findSourceFiles(entryPath);
+      }
+      const isSource = (SOURCE_FILE_EXTENSIONS as readonly string[]).includes(path.extname(entry.name))
+        && !entry.name.endsWith('.d.ts')
+        && !TEST_FILE_PATTERN.test(entry.name);
+      return entry.isFile() && isSource ? [entryPath] : [];
+    });
+  }
+
   /**
    * Find run and panic function locations
    */
@@ -130,7 +233,7 @@ export class MiddlewareAnalyzer {
         if (/(?:module\.exports\.run|exports\.run|const run|function run)\s*=?\s*(?:\(|async)/.test(line)) {
           result.runFunctionLine = lineNumber;
         }
-        if (/(?:module\.exports\.panic|exports\.panic)\s*=/.test(line)) {
+        if (/(?:module\.exports\.panic|exports\.panic)\s*=|\b(?:function|const|let)\s+panic\b/.test(line)) {
           result.panicFunctionLine = lineNumber;
         }
       });
@@ -148,10 +251,12 @@ export class MiddlewareAnalyzer {
 
     // Helper to collect data from a component
     const collectFromComponent = (component: ComponentAnalysis) => {
-      if (collectedPaths.has(component.filePath)) {
+      // A file can appear several times, pruned to different functions
+      const key = `${component.filePath}#${component.calledFunctions?.join(',') ?? ''}`;
+      if (collectedPaths.has(key)) {
         return;
       }
-      collectedPaths.add(component.filePath);
+      collectedPaths.add(key);
 
       result.allResLocalsReads.push(...component.resLocalsReads);
       result.allResLocalsWrites.push(...component.resLocalsWrites);
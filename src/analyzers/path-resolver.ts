@@ -1,20 +1,62 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { normalizePath } from '../shared';
+import { LibraryResolution, LibrarySource } from '../models/flow-analyzer-types';
+import { AGL_LIBS, normalizePath, SOURCE_FILE_EXTENSIONS } from '../shared';
+
+/** Matches an analyzable source file extension at the end of a path */
+const SOURCE_EXTENSION_PATTERN = /\.(?:js|ts|mjs|cjs)$/;
+
+/** Required files that are data, not source (not analyzed, so never reported as unresolved) */
+const DATA_FILE_PATTERN = /\.(?:json|node)$/;
+
+/** Packages of this scope are always analyzed */
+const AGL_SCOPE = '@opus/';
+
+/** Conditions of package `exports` that are matched (in the order the package lists them) */
+const EXPORT_CONDITIONS = new Set(['node', 'require', 'import', 'default']);
+
+/**
+ * The fields of package.json used for resolution
+ */
+interface PackageManifest {
+  name?: string;
+  version?: string;
+  main?: string;
+  exports?: unknown;
+}
 
 /**
  * PathResolver - Handles module path resolution
  * 
- * Responsible for resolving local and @opus/agl-* module paths
- * to their actual file system locations.
+ * Resolves local paths and the bare specifiers of analyzable packages (every @opus/* package,
+ * plus the packages listed in the aglEssentials.analyzablePackages setting) like Node does:
+ * package.json `exports` (subpaths, patterns and conditions), then `main`, then index files.
+ * Packages are looked up in a workspace clone of the same name first (so local edits are analyzed),
+ * then in the node_modules folders up from the requiring file. Symlinked packages resolve to their
+ * real location. The AGL libraries (agl-core, agl-utils, ...) can be pinned to the workspace clone
+ * or to the installed copy with the aglEssentials.librarySources setting.
  */
 export class PathResolver {
   private normalizedWorkspaceFolder: string;
   private middlewareRoot: string;
+  private analyzablePatterns: RegExp[];
+  private librarySources: Record<string, LibrarySource>;
+  private manifests = new Map<string, { mtimeMs: number; manifest: PackageManifest }>();
 
-  constructor(workspaceFolder: string, middlewareName: string) {
+  /**
+   * @param analyzablePackages Package names, or globs such as '@acme/*', analyzed besides @opus/* packages
+   * @param librarySources Source of the AGL libraries, by library name ('auto' when not listed)
+   */
+  constructor(
+    workspaceFolder: string,
+    middlewareName: string,
+    analyzablePackages: string[] = [],
+    librarySources: Record<string, LibrarySource> = {}
+  ) {
     this.normalizedWorkspaceFolder = normalizePath(workspaceFolder);
     this.middlewareRoot = path.join(this.normalizedWorkspaceFolder, `agl-${middlewareName}-middleware`);
+    this.analyzablePatterns = analyzablePackages.map(PathResolver.compilePackagePattern);
+    this.librarySources = librarySources;
   }
 
   /**
@@ -31,122 +73,321 @@ export class PathResolver {
     return this.normalizedWorkspaceFolder;
   }
 
+  /**
+   * Resolve a middleware entry (e.g. 'middleware/getPage') to its source file
+   */
+  resolveMiddlewareEntry(middlewarePath: string): string | undefined {
+    return this.resolveFileOrDirectory(path.join(this.middlewareRoot, middlewarePath));
+  }
+
   /**
    * Resolve a local module path to absolute path
    */
   resolveLocalPath(modulePath: string, currentDir: string): string | undefined {
-    const basePath = path.resolve(currentDir, modulePath);
-    
-    if (modulePath.endsWith('.js') || modulePath.endsWith('.ts')) {
-      return fs.existsSync(basePath) ? basePath : undefined;
-    }
-    
-    return this.findExistingPath(this.getPathCandidates(basePath));
+    return this.resolveFileOrDirectory(path.resolve(currentDir, modulePath));
   }
 
   /**
-   * Resolve an @opus/agl-* module path to absolute path
+   * Resolve the bare specifier of a package (e.g. '@opus/agl-utils/lib/http') to its source file
    */
-  resolveAglModulePath(modulePath: string): string | undefined {
-    const moduleMapping: { [key: string]: string } = {
-      '@opus/agl-core': 'agl-core',
-      '@opus/agl-utils': 'agl-utils',
-      '@opus/agl-cache': 'agl-cache',
-      '@opus/agl-logger': 'agl-logger'
-    };
-
-    if (moduleMapping[modulePath]) {
-      const root = this.getAglModuleRoot(moduleMapping[modulePath]);
-      if (root) {
-        const indexPath = path.join(root, 'index.js');
-        if (fs.existsSync(indexPath)) {
-          return indexPath;
-        }
-      }
+  resolvePackagePath(modulePath: string, currentFilePath: string): string | undefined {
+    const specifier = PathResolver.parsePackageSpecifier(modulePath);
+    if (!specifier) {
       return undefined;
     }
 
-    for (const [modulePrefix, moduleName] of Object.entries(moduleMapping)) {
-      if (modulePath.startsWith(modulePrefix + '/')) {
-        const root = this.getAglModuleRoot(moduleName);
-        if (!root) continue;
-        
-        const subPath = modulePath.substring(modulePrefix.length + 1);
-        const basePath = path.join(root, subPath);
-        
-        const resolved = this.findExistingPath(this.getPathCandidates(basePath));
-        if (resolved) return resolved;
+    for (const root of this.findPackageRoots(specifier.packageName, path.dirname(currentFilePath))) {
+      const resolved = this.resolvePackageEntry(root, specifier.subpath);
+      if (resolved) {
+        return resolved;
       }
     }
-
     return undefined;
   }
 
   /**
-   * Resolve module path based on type (local or agl-module)
+   * Whether a required module is analyzed as a child component: local files and analyzable packages
    */
-  resolvePath(modulePath: string, currentFilePath: string): string | undefined {
-    const isLocal = modulePath.startsWith('./') || modulePath.startsWith('../');
-    const isAglModule = modulePath.startsWith('@opus/agl-');
-    const currentDir = path.dirname(currentFilePath);
+  isAnalyzable(modulePath: string): boolean {
+    if (DATA_FILE_PATTERN.test(modulePath)) {
+      return false;
+    }
+    if (PathResolver.isLocalPath(modulePath)) {
+      return true;
+    }
+    const packageName = PathResolver.parsePackageSpecifier(modulePath)?.packageName;
+    return !!packageName
+      && (packageName.startsWith(AGL_SCOPE) || this.analyzablePatterns.some(pattern => pattern.test(packageName)));
+  }
 
-    if (isLocal) {
-      return this.resolveLocalPath(modulePath, currentDir);
-    } else if (isAglModule) {
-      return this.resolveAglModulePath(modulePath);
+  /**
+   * Resolve module path based on type (local or analyzable package)
+   */
+  resolvePath(modulePath: string, currentFilePath: string): string | undefined {
+    if (PathResolver.isLocalPath(modulePath)) {
+      return this.resolveLocalPath(modulePath, path.dirname(currentFilePath));
+    }
+    if (this.isAnalyzable(modulePath)) {
+      return this.resolvePackagePath(modulePath, currentFilePath);
     }
     return undefined;
   }
 
+  /**
+   * The AGL libraries with the copy analyzed for this middleware and the versions of both copies
+   */
+  getLibraries(): LibraryResolution[] {
+    return AGL_LIBS.map(name => {
+      const packageName = `${AGL_SCOPE}${name}`;
+      const source = PathResolver.getLibrarySource(name, this.librarySources);
+      const localRoot = this.findWorkspaceClone(packageName);
+      const installedPath = path.join(this.middlewareRoot, 'node_modules', packageName);
+      const installedRoot = fs.existsSync(installedPath) ? fs.realpathSync(installedPath) : undefined;
+
+      const localVersion = localRoot ? this.readManifest(localRoot)?.version : undefined;
+      const installedVersion = installedRoot ? this.readManifest(installedRoot)?.version : undefined;
+      const useLocal = source === 'local' || (source === 'auto' && !!localRoot);
+      const rootPath = useLocal ? localRoot : installedRoot;
+
+      return {
+        name,
+        packageName,
+        source,
+        resolvedFrom: rootPath ? (useLocal ? 'local' : 'node_modules') : undefined,
+        rootPath,
+        version: useLocal ? localVersion : installedVersion,
+        localVersion,
+        installedVersion,
+        // An installed symlink to the clone (npm link) is the same copy
+        versionMismatch: !!localVersion && !!installedVersion && localRoot !== installedRoot
+          && localVersion !== installedVersion
+      };
+    });
+  }
+
   /**
    * Get module name from file path (relative to middleware root)
    */
   getModuleName(filePath: string): string {
     const relativePath = path.relative(this.middlewareRoot, filePath);
-    return relativePath.replace(/\\/g, '/').replace(/\.js$/, '');
+    return relativePath.replace(/\\/g, '/').replace(SOURCE_EXTENSION_PATTERN, '');
   }
 
   /**
    * Get display name from file path
    */
   getDisplayName(filePath: string): string {
-    const fileName = path.basename(filePath, '.js');
+    const fileName = path.basename(filePath).replace(SOURCE_EXTENSION_PATTERN, '');
     if (fileName === 'index') {
       return path.basename(path.dirname(filePath));
     }
     return fileName;
   }
 
+  /**
+   * Configured source of an AGL library ('auto' when not set or invalid)
+   */
+  static getLibrarySource(name: string, librarySources: Record<string, LibrarySource>): LibrarySource {
+    const source = librarySources[name];
+    return source === 'local' || source === 'node_modules' ? source : 'auto';
+  }
+
   // Private helper methods
 
-  private getNodeModulesAglPath(moduleName: string): string {
-    return path.join(this.middlewareRoot, 'node_modules', '@opus', moduleName);
+  /**
+   * Package name glob ('*' matches within one path segment) to a regex
+   */
+  private static compilePackagePattern(pattern: string): RegExp {
+    const escapedParts = pattern.split('*').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`^${escapedParts.join('[^/]*')}$`);
   }
 
-  private getAglModuleRoot(moduleName: string): string | undefined {
-    const workspacePath = path.join(this.normalizedWorkspaceFolder, moduleName);
-    if (fs.existsSync(workspacePath)) {
-      return workspacePath;
+  private static isLocalPath(modulePath: string): boolean {
+    return modulePath.startsWith('./') || modulePath.startsWith('../');
+  }
+
+  /**
+   * Split a bare specifier into the package name and the subpath ('.' or './sub/path')
+   */
+  private static parsePackageSpecifier(modulePath: string): { packageName: string; subpath: string } | undefined {
+    const parts = modulePath.split('/');
+    const nameLength = modulePath.startsWith('@') ? 2 : 1;
+    if (modulePath.startsWith('node:') || parts.length < nameLength || parts.slice(0, nameLength).some(part => !part)) {
+      return undefined;
     }
-    
-    const nodeModulesPath = this.getNodeModulesAglPath(moduleName);
-    if (fs.existsSync(nodeModulesPath)) {
-      return nodeModulesPath;
+
+    const rest = parts.slice(nameLength);
+    return {
+      packageName: parts.slice(0, nameLength).join('/'),
+      subpath: rest.length > 0 ? `./${rest.join('/')}` : '.'
+    };
+  }
+
+  /**
+   * Real path of the workspace clone of a package (a folder named after it), if there is one
+   */
+  private findWorkspaceClone(packageName: string): string | undefined {
+    const clonePath = path.join(this.normalizedWorkspaceFolder, packageName.split('/').pop()!);
+    const cloneName = this.readManifest(clonePath)?.name;
+    if (cloneName === packageName || (!cloneName && packageName.startsWith(AGL_SCOPE) && fs.existsSync(clonePath))) {
+      return fs.realpathSync(clonePath);
     }
-    
     return undefined;
   }
 
-  private findExistingPath(candidates: string[]): string | undefined {
-    return candidates.find(c => fs.existsSync(c));
+  /**
+   * Candidate package folders: a workspace clone named after the package, then node_modules up from the requiring file
+   * (restricted to one of them by the configured source of AGL libraries)
+   */
+  private findPackageRoots(packageName: string, fromDir: string): string[] {
+    const source = packageName.startsWith(AGL_SCOPE)
+      ? PathResolver.getLibrarySource(packageName.slice(AGL_SCOPE.length), this.librarySources)
+      : 'auto';
+    const clonePath = source !== 'node_modules' ? this.findWorkspaceClone(packageName) : undefined;
+    if (source === 'local') {
+      return clonePath ? [clonePath] : [];
+    }
+
+    const candidates: string[] = clonePath ? [clonePath] : [];
+    for (let dir = fromDir; ; dir = path.dirname(dir)) {
+      if (path.basename(dir) !== 'node_modules') {
+        candidates.push(path.join(dir, 'node_modules', packageName));
+      }
+      if (path.dirname(dir) === dir) {
+        break;
+      }
+    }
+    candidates.push(path.join(this.middlewareRoot, 'node_modules', packageName));
+
+    const roots = new Set<string>();
+    for (const candidate of candidates) {
+      if (fs.existsSync(candidate)) {
+        roots.add(fs.realpathSync(candidate));
+      }
+    }
+    return Array.from(roots);
   }
 
-  private getPathCandidates(basePath: string): string[] {
-    return [
-      `${basePath}.js`,
-      `${basePath}.ts`,
-      path.join(basePath, 'index.js'),
-      path.join(basePath, 'index.ts')
-    ];
+  /**
+   * Resolve a subpath of a package folder through its package.json
+   */
+  private resolvePackageEntry(root: string, subpath: string): string | undefined {
+    const manifest = this.readManifest(root);
+
+    // `exports` encapsulates the package: subpaths it does not list cannot be required
+    if (manifest?.exports !== undefined && manifest.exports !== null) {
+      const target = this.resolveExports(manifest.exports, subpath);
+      return target ? this.resolveFileOrDirectory(path.resolve(root, target)) : undefined;
+    }
+
+    return this.resolveFileOrDirectory(path.join(root, subpath));
+  }
+
+  /**
+   * Map a subpath through a package's `exports` field
+   */
+  private resolveExports(exports: unknown, subpath: string): string | undefined {
+    const isSubpathMap = !!exports && typeof exports === 'object' && !Array.isArray(exports)
+      && Object.keys(exports).some(key => key.startsWith('.'));
+    if (!isSubpathMap) {
+      // Shorthand for { ".": exports }
+      return subpath === '.' ? this.resolveExportTarget(exports, '') : undefined;
+    }
+
+    const subpaths = exports as Record<string, unknown>;
+    if (Object.prototype.hasOwnProperty.call(subpaths, subpath)) {
+      return this.resolveExportTarget(subpaths[subpath], '');
+    }
+
+    // Patterns ('./features/*'), the longest prefix first
+    const patterns = Object.keys(subpaths)
+      .filter(key => key.includes('*'))
+      .sort((a, b) => b.indexOf('*') - a.indexOf('*'));
+    for (const pattern of patterns) {
+      const [prefix, suffix] = pattern.split('*');
+      if (subpath.startsWith(prefix) && subpath.endsWith(suffix) && subpath.length >= prefix.length + suffix.length) {
+        return this.resolveExportTarget(subpaths[pattern], subpath.slice(prefix.length, subpath.length - suffix.length));
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * @param patternMatch The part of the subpath matched by '*' of the exports key
+   */
+  private resolveExportTarget(target: unknown, patternMatch: string): string | undefined {
+    if (typeof target === 'string') {
+      return target.replace(/\*/g, () => patternMatch);
+    }
+    if (Array.isArray(target)) {
+      for (const fallback of target) {
+        const resolved = this.resolveExportTarget(fallback, patternMatch);
+        if (resolved) {
+          return resolved;
+        }
+      }
+      return undefined;
+    }
+    if (target && typeof target === 'object') {
+      for (const [condition, value] of Object.entries(target)) {
+        if (EXPORT_CONDITIONS.has(condition)) {
+          const resolved = this.resolveExportTarget(value, patternMatch);
+          if (resolved) {
+            return resolved;
+          }
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolve a path as a source file, then as a directory (package.json `main`, then index files)
+   */
+  private resolveFileOrDirectory(basePath: string): string | undefined {
+    if (SOURCE_EXTENSION_PATTERN.test(basePath)) {
+      if (fs.existsSync(basePath)) {
+        return basePath;
+      }
+      // TypeScript sources import compiled names: './helper.js' -> './helper.ts'
+      if (basePath.endsWith('.js')) {
+        const tsPath = basePath.replace(/\.js$/, '.ts');
+        return fs.existsSync(tsPath) ? tsPath : undefined;
+      }
+      return undefined;
+    }
+
+    const file = this.findExistingPath(SOURCE_FILE_EXTENSIONS.map(ext => `${basePath}${ext}`));
+    if (file) {
+      return file;
+    }
+
+    const main = this.readManifest(basePath)?.main;
+    const mainPath = typeof main === 'string' ? path.resolve(basePath, main) : undefined;
+    const resolvedMain = mainPath && mainPath !== basePath ? this.resolveFileOrDirectory(mainPath) : undefined;
+    return resolvedMain ?? this.findExistingPath(SOURCE_FILE_EXTENSIONS.map(ext => path.join(basePath, `index${ext}`)));
+  }
+
+  /**
+   * Read a folder's package.json (cached until the file changes)
+   */
+  private readManifest(dir: string): PackageManifest | undefined {
+    const manifestPath = path.join(dir, 'package.json');
+    try {
+      const mtimeMs = fs.statSync(manifestPath).mtimeMs;
+      const cached = this.manifests.get(manifestPath);
+      if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.manifest;
+      }
+      const manifest: PackageManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+      this.manifests.set(manifestPath, { mtimeMs, manifest });
+      return manifest;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private findExistingPath(candidates: string[]): string | undefined {
+    return candidates.find(c => fs.existsSync(c));
   }
 }
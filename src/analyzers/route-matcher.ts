@@ -0,0 +1,542 @@
+import { EndpointConfig, RouteConflict, RouteMatch } from '../models/flow-analyzer-types';
+
+/** Example values generated per route segment; beyond this, the values are not exhaustive */
+const MAX_SAMPLES = 256;
+
+/** Routes with more optional parameters are compared through their first variants only */
+const MAX_VARIANTS = 16;
+
+/** Marks the capture group of a named parameter while a route path is compiled */
+const NAMED_GROUP = '\u0000';
+
+/**
+ * One `/`-separated part of a route path
+ */
+interface RouteSegment {
+  text: string;            // As written, e.g. "content", ":contentType(movie|series)"
+  pattern?: RegExp;        // Anchored pattern of a constrained segment (undefined: any value)
+  samples: string[];       // Values the segment matches
+  exhaustive: boolean;     // The samples are every value the segment matches
+  optional: boolean;       // `:name?`: the segment may be left out
+  rest: boolean;           // `*`: any number of segments (including none)
+}
+
+interface CompiledRoute {
+  index: number;           // Position in customRoutes.json
+  endpoint: EndpointConfig;
+  method: string;          // Lower case
+  regexp: RegExp;
+  keys: string[];
+  variants: RouteSegment[][];   // Segment lists, one per combination of the optional segments
+}
+
+/**
+ * RouteMatcher - Express routing semantics for the endpoints of a customRoutes.json
+ *
+ * Route paths are compiled like Express 4 does (path-to-regexp 0.1): `:name` matches one segment,
+ * `:name(regex)` constrains it (dots are literal), `:name?` is optional, `*` matches anything, matching is
+ * case-insensitive and ignores a trailing slash. Routes are tried in declaration order, so the first
+ * matching route of a method handles a request.
+ *
+ * Conflicts are found segment by segment: parameter regexes are expanded into example values
+ * (`T7.[2-9]|T8.\d` → T7.2 … T8.9), which are tested against the other route's segment. A later route is
+ * shadowed when every value of each of its segments is matched by the earlier route; when the example
+ * values of a regex are not exhaustive (e.g. `\w+`), the routes are only reported as overlapping.
+ */
+export class RouteMatcher {
+  private readonly routes: CompiledRoute[] = [];
+
+  constructor(endpoints: EndpointConfig[]) {
+    endpoints.forEach((endpoint, index) => {
+      if (typeof endpoint?.endpointUri !== 'string') {
+        return;
+      }
+      try {
+        const { regexp, keys } = RouteMatcher.toRegExp(endpoint.endpointUri);
+        this.routes.push({
+          index,
+          endpoint,
+          method: (endpoint.method ?? 'get').toLowerCase(),
+          regexp,
+          keys,
+          variants: this.getVariants(this.parseSegments(endpoint.endpointUri))
+        });
+      } catch (error) {
+        // Invalid parameter regex: Express fails on it too, nothing to compare
+        console.error(`Invalid route path ${endpoint.endpointUri}:`, error);
+      }
+    });
+  }
+
+  /**
+   * Compile a route path into the regular expression Express matches request paths with.
+   * The keys name the capture groups in order: unnamed groups (`*`, groups nested in a parameter regex)
+   * get numbered keys like Express gives them, e.g. `/a/*` followed by `/:id` → `['0', 'id']`.
+   */
+  static toRegExp(routePath: string): { regexp: RegExp; keys: string[] } {
+    const namedKeys: string[] = [];
+    const marked = ('^' + routePath + (routePath.endsWith('/') ? '?' : '/?'))
+      .replace(/\/\(/g, '/(?:')
+      .replace(/([/.])/g, '\\$1')
+      .replace(/(\\\/)?(\\\.)?:(\w+)(\(.*?\))?(\*)?(\?)?/g, (_match, slash = '', format = '', key, capture, star, optional = '') => {
+        namedKeys.push(key);
+        return (optional ? '' : slash)
+          + '(?:'
+          + format + (optional ? slash : '') + NAMED_GROUP + (capture ?? `([^\\/${format}]+?)`)
+          + (star ? `((?:[\\/${format}].+?)?)` : '')
+          + ')'
+          + optional;
+      })
+      .replace(/\*/g, '(.*)');
+
+    // Every capturing group without a name gets the next number (path-to-regexp 0.1)
+    const keys: string[] = [];
+    let unnamed = 0;
+    for (let i = 0; i < marked.length; i++) {
+      if (marked[i] !== '(' || marked[i + 1] === '?') {
+        continue;
+      }
+      let escapes = 0;
+      while (marked[i - 1 - escapes] === '\\') {
+        escapes++;
+      }
+      if (escapes % 2 === 1) {
+        continue;
+      }
+      keys.push(marked[i - 1] === NAMED_GROUP ? namedKeys.shift()! : String(unnamed++));
+    }
+    const source = marked.split(NAMED_GROUP).join('');
+    return { regexp: new RegExp(`${source}$`, 'i'), keys };
+  }
+
+  /**
+   * Routes matching a request, in the order Express tries them (the first one handles the request)
+   * @param url Path of the request; a query string is ignored
+   */
+  match(method: string, url: string): RouteMatch[] {
+    const requestPath = url.split(/[?#]/)[0] || '/';
+    const matches: RouteMatch[] = [];
+    for (const route of this.routes) {
+      if (!this.sameMethod(route.method, method.toLowerCase())) {
+        continue;
+      }
+      const match = route.regexp.exec(requestPath);
+      if (match) {
+        const params: Record<string, string> = {};
+        route.keys.forEach((key, i) => {
+          if (match[i + 1] !== undefined) {
+            params[key] = this.decode(match[i + 1]);
+          }
+        });
+        matches.push({ index: route.index, endpoint: route.endpoint, params });
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Pairs of routes of the same method that can match the same request, reported on the later route
+   * (the earlier one handles the request). Routes declared after a route they are more specific than
+   * are shadowed; more specific routes declared first are the intended Express pattern and not reported.
+   */
+  findConflicts(): RouteConflict[] {
+    const conflicts: RouteConflict[] = [];
+    this.routes.forEach((route, i) => {
+      for (const earlier of this.routes.slice(0, i)) {
+        if (!this.sameMethod(earlier.method, route.method)) {
+          continue;
+        }
+        const exampleUrl = this.findCommonUrl(earlier, route);
+        if (!exampleUrl) {
+          continue;
+        }
+
+        const shadowed = this.covers(earlier, route);
+        if (!shadowed && this.covers(route, earlier)) {
+          continue;
+        }
+        const kind = shadowed && this.covers(route, earlier) ? 'duplicate' : shadowed ? 'shadowed' : 'overlap';
+        const other = `${(earlier.endpoint.method ?? 'get').toUpperCase()} ${earlier.endpoint.endpointUri}`;
+        const message = kind === 'duplicate'
+          ? `Duplicate of the earlier route ${other}: this route is never reached`
+          : kind === 'shadowed'
+            ? `Shadowed by the earlier route ${other}: every request it matches (e.g. ${exampleUrl}) is handled there`
+            : `Overlaps the earlier route ${other}: requests such as ${exampleUrl} match both and are handled by the earlier route`;
+        conflicts.push({
+          kind,
+          index: route.index,
+          endpoint: route.endpoint,
+          otherIndex: earlier.index,
+          otherEndpoint: earlier.endpoint,
+          exampleUrl,
+          message
+        });
+      }
+    });
+    return conflicts;
+  }
+
+  private sameMethod(a: string, b: string): boolean {
+    return a === b || a === 'all' || b === 'all';
+  }
+
+  /**
+   * A request path both routes match, with `:name` for segments that can be any value
+   */
+  private findCommonUrl(a: CompiledRoute, b: CompiledRoute): string | undefined {
+    for (const variantA of a.variants) {
+      for (const variantB of b.variants) {
+        const segments = this.overlapSegments(variantA, variantB, 0, 0);
+        if (segments) {
+          return `/${segments.join('/')}`;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether route a matches every request route b matches
+   */
+  private covers(a: CompiledRoute, b: CompiledRoute): boolean {
+    return b.variants.every(variantB => a.variants.some(variantA => this.coversSegments(variantA, variantB, 0, 0)));
+  }
+
+  private overlapSegments(a: RouteSegment[], b: RouteSegment[], i: number, j: number): string[] | undefined {
+    if (i === a.length && j === b.length) {
+      return [];
+    }
+    if (i < a.length && a[i].rest) {
+      for (let k = j; k <= b.length; k++) {
+        const rest = this.overlapSegments(a, b, i + 1, k);
+        if (rest) {
+          return [...b.slice(j, k).map(segment => this.example(segment)), ...rest];
+        }
+      }
+      return undefined;
+    }
+    if (j < b.length && b[j].rest) {
+      return this.overlapSegments(b, a, j, i);
+    }
+    if (i === a.length || j === b.length) {
+      return undefined;
+    }
+
+    const value = this.commonValue(a[i], b[j]);
+    const rest = value !== undefined ? this.overlapSegments(a, b, i + 1, j + 1) : undefined;
+    return rest && [value!, ...rest];
+  }
+
+  private coversSegments(a: RouteSegment[], b: RouteSegment[], i: number, j: number): boolean {
+    if (i === a.length && j === b.length) {
+      return true;
+    }
+    if (i < a.length && a[i].rest) {
+      for (let k = j; k <= b.length; k++) {
+        if (this.coversSegments(a, b, i + 1, k)) {
+          return true;
+        }
+      }
+      return false;
+    }
+    if (i === a.length || j === b.length || b[j].rest) {
+      return false;
+    }
+    return this.segmentCovers(a[i], b[j]) && this.coversSegments(a, b, i + 1, j + 1);
+  }
+
+  /**
+   * A value both segments match, if any
+   */
+  private commonValue(a: RouteSegment, b: RouteSegment): string | undefined {
+    if (!a.pattern) {
+      return this.example(b);
+    }
+    if (!b.pattern) {
+      return this.example(a);
+    }
+    return a.samples.find(value => b.pattern!.test(value)) ?? b.samples.find(value => a.pattern!.test(value));
+  }
+
+  private segmentCovers(a: RouteSegment, b: RouteSegment): boolean {
+    if (!a.pattern) {
+      return true;
+    }
+    return !!b.pattern && b.exhaustive && b.samples.length > 0 && b.samples.every(value => a.pattern!.test(value));
+  }
+
+  private example(segment: RouteSegment): string {
+    return segment.pattern ? segment.samples[0] ?? segment.text : segment.text;
+  }
+
+  /**
+   * Split a route path at the slashes outside of parameter regexes
+   */
+  private parseSegments(routePath: string): RouteSegment[] {
+    const parts: string[] = [];
+    let current = '';
+    let depth = 0;
+    for (const char of routePath) {
+      if (char === '(') {
+        depth++;
+      } else if (char === ')') {
+        depth = Math.max(depth - 1, 0);
+      }
+      if (char === '/' && depth === 0) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current);
+    return parts.filter(Boolean).flatMap(part => this.parseSegment(part));
+  }
+
+  private parseSegment(text: string): RouteSegment[] {
+    const segment = { text, optional: false, rest: false };
+    if (text === '*') {
+      return [{ ...segment, samples: [], exhaustive: false, rest: true }];
+    }
+
+    const param = /^:(\w+)(\(.*\))?(\*)?(\?)?$/.exec(text);
+    if (param) {
+      const [, , capture, star, optional] = param;
+      const parsed: RouteSegment = capture
+        ? { ...segment, text: text.replace(/[*?]+$/, ''), optional: !!optional, ...this.compileCapture(capture) }
+        : { ...segment, text: `:${param[1]}`, optional: !!optional, samples: [], exhaustive: false };
+      return star ? [parsed, { ...segment, text: '*', samples: [], exhaustive: false, rest: true }] : [parsed];
+    }
+
+    if (!/[:*()]/.test(text)) {
+      return [{ ...segment, pattern: new RegExp(`^${this.escape(text)}$`, 'i'), samples: [text], exhaustive: true }];
+    }
+
+    // Several parameters or literals mixed in one segment, e.g. ":from-:to": matched as Express does, without samples
+    const { regexp } = RouteMatcher.toRegExp(text);
+    return [{ ...segment, pattern: new RegExp(regexp.source.replace(/\\\/\?\$$/, '$'), 'i'), samples: [], exhaustive: false }];
+  }
+
+  /**
+   * Pattern and example values of a parameter regex, with the escaping Express applies to it
+   */
+  private compileCapture(capture: string): Pick<RouteSegment, 'pattern' | 'samples' | 'exhaustive'> {
+    const source = capture.replace(/([/.])/g, '\\$1').replace(/\*/g, '(.*)');
+    const pattern = new RegExp(`^(?:${source})$`, 'i');
+    const sampled = new PatternSampler(source).sample();
+    return {
+      pattern,
+      samples: sampled ? sampled.values.filter(value => pattern.test(value)) : [],
+      exhaustive: sampled?.exhaustive ?? false
+    };
+  }
+
+  /**
+   * Segment lists with and without each optional segment
+   */
+  private getVariants(segments: RouteSegment[]): RouteSegment[][] {
+    let variants: RouteSegment[][] = [[]];
+    for (const segment of segments) {
+      const next = variants.map(variant => [...variant, segment]);
+      variants = segment.optional ? [...next, ...variants] : next;
+      variants = variants.slice(0, MAX_VARIANTS);
+    }
+    return variants;
+  }
+
+  private decode(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+
+  private escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
+
+/**
+ * Expands a regular expression into example values it matches.
+ * Supports literals, escapes, character classes, groups, alternations and quantifiers; constructs
+ * matching unbounded sets (`\w`, `+`, negated classes) produce a few examples and clear `exhaustive`.
+ */
+class PatternSampler {
+  private pos = 0;
+  private exhaustive = true;
+
+  constructor(private readonly source: string) {}
+
+  /**
+   * @returns undefined when the regex uses unsupported syntax (lookarounds, back references)
+   */
+  sample(): { values: string[]; exhaustive: boolean } | undefined {
+    try {
+      const values = this.alternation();
+      if (this.pos < this.source.length) {
+        return undefined;
+      }
+      return { values, exhaustive: this.exhaustive };
+    } catch {
+      return undefined;
+    }
+  }
+
+  private alternation(): string[] {
+    let values = this.sequence();
+    while (this.source[this.pos] === '|') {
+      this.pos++;
+      values = this.limit([...values, ...this.sequence()]);
+    }
+    return values;
+  }
+
+  private sequence(): string[] {
+    let values = [''];
+    while (this.pos < this.source.length && this.source[this.pos] !== '|' && this.source[this.pos] !== ')') {
+      const atom = this.quantify(this.atom());
+      values = this.limit(values.flatMap(prefix => atom.map(value => prefix + value)));
+    }
+    return values;
+  }
+
+  private atom(): string[] {
+    const char = this.source[this.pos++];
+    switch (char) {
+      case '(': {
+        if (this.source[this.pos] === '?') {
+          if (this.source[this.pos + 1] !== ':') {
+            throw new Error('Unsupported group');
+          }
+          this.pos += 2;
+        }
+        const values = this.alternation();
+        if (this.source[this.pos++] !== ')') {
+          throw new Error('Unterminated group');
+        }
+        return values;
+      }
+      case '[':
+        return this.characterClass();
+      case '\\':
+        return this.escape(this.source[this.pos++]);
+      case '.':
+        this.exhaustive = false;
+        return ['a'];
+      case '^':
+      case '$':
+        return [''];
+      default:
+        return [char];
+    }
+  }
+
+  private escape(char: string): string[] {
+    switch (char) {
+      case 'd':
+        return '0123456789'.split('');
+      case 'w':
+      case 'W':
+      case 's':
+      case 'S':
+      case 'D':
+        this.exhaustive = false;
+        return { w: ['a', '0'], W: ['-'], s: [' '], S: ['a'], D: ['a'] }[char];
+      case 'b':
+      case 'B':
+        return [''];
+      default:
+        if (/[1-9]/.test(char)) {
+          throw new Error('Unsupported back reference');
+        }
+        return [char];
+    }
+  }
+
+  private characterClass(): string[] {
+    const negated = this.source[this.pos] === '^';
+    if (negated) {
+      this.pos++;
+    }
+    const chars: string[] = [];
+    while (this.pos < this.source.length && this.source[this.pos] !== ']') {
+      let char = this.source[this.pos++];
+      if (char === '\\') {
+        const escaped = this.escape(this.source[this.pos++]);
+        chars.push(...escaped);
+        continue;
+      }
+      if (this.source[this.pos] === '-' && this.source[this.pos + 1] && this.source[this.pos + 1] !== ']') {
+        const end = this.source[this.pos + 1] === '\\' ? this.source[this.pos + 2] : this.source[this.pos + 1];
+        this.pos += this.source[this.pos + 1] === '\\' ? 3 : 2;
+        for (let code = char.charCodeAt(0); code <= end.charCodeAt(0); code++) {
+          chars.push(String.fromCharCode(code));
+        }
+        continue;
+      }
+      chars.push(char);
+    }
+    if (this.source[this.pos++] !== ']') {
+      throw new Error('Unterminated character class');
+    }
+
+    if (negated) {
+      this.exhaustive = false;
+      return ['a', '0', 'x', '_'].filter(candidate => !chars.includes(candidate)).slice(0, 1);
+    }
+    return Array.from(new Set(chars));
+  }
+
+  private quantify(values: string[]): string[] {
+    const char = this.source[this.pos];
+    let min = 1;
+    let max = 1;
+    if (char === '?' || char === '*' || char === '+') {
+      this.pos++;
+      min = char === '+' ? 1 : 0;
+      max = 1;
+      if (char !== '?') {
+        this.exhaustive = false;
+      }
+    } else if (char === '{') {
+      const bounds = /^\{(\d+)(,(\d*))?\}/.exec(this.source.slice(this.pos));
+      if (!bounds) {
+        return values;
+      }
+      this.pos += bounds[0].length;
+      min = parseInt(bounds[1], 10);
+      max = bounds[2] ? (bounds[3] ? parseInt(bounds[3], 10) : min + 1) : min;
+      if (!bounds[3] && bounds[2]) {
+        this.exhaustive = false;
+      }
+    } else {
+      return values;
+    }
+    if (this.source[this.pos] === '?') {
+      this.pos++;   // Lazy quantifier: same values
+    }
+
+    const result: string[] = [];
+    let repeated = [''];
+    for (let count = 0; count <= max; count++) {
+      if (count >= min) {
+        result.push(...repeated);
+      }
+      if (result.length > MAX_SAMPLES) {
+        break;
+      }
+      repeated = this.limit(repeated.flatMap(prefix => values.map(value => prefix + value)));
+    }
+    return this.limit(result);
+  }
+
+  private limit(values: string[]): string[] {
+    const unique = Array.from(new Set(values));
+    if (unique.length > MAX_SAMPLES) {
+      this.exhaustive = false;
+      return unique.slice(0, MAX_SAMPLES);
+    }
+    return unique;
+  }
+}
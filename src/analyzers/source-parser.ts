@@ -0,0 +1,70 @@
+import { tsPlugin } from '@sveltejs/acorn-typescript';
+import * as acorn from 'acorn';
+import * as path from 'path';
+import { Node } from './ast-utils';
+
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.mts', '.cts'];
+
+/**
+ * SourceParser - Parses JavaScript and TypeScript sources into an ESTree AST
+ *
+ * - `.mjs` / `.mts` are always ES modules, `.cjs` / `.cts` always CommonJS scripts
+ * - `.js` / `.ts` are tried as the most likely type first and re-parsed as the other on syntax errors
+ * - TypeScript syntax is parsed by the acorn-typescript plugin; type-only nodes
+ *   (TS*) are simply not matched by the analyzers, so line numbers stay exact
+ */
+export class SourceParser {
+  private static tsParser: typeof acorn.Parser | undefined;
+
+  /**
+   * Parse a source file
+   * @throws SyntaxError when the content cannot be parsed as any supported source type
+   */
+  static parse(content: string, filePath: string): Node {
+    const ext = path.extname(filePath).toLowerCase();
+    const parser = TYPESCRIPT_EXTENSIONS.includes(ext) ? SourceParser.getTsParser() : acorn.Parser;
+
+    let lastError: unknown;
+    for (const sourceType of SourceParser.getSourceTypes(ext)) {
+      try {
+        return parser.parse(content, {
+          ecmaVersion: 'latest',
+          sourceType,
+          locations: true,
+          allowHashBang: true,
+          allowReturnOutsideFunction: sourceType === 'script',
+          allowImportExportEverywhere: sourceType === 'module'
+        }) as unknown as Node;
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Source types to try, in order
+   */
+  private static getSourceTypes(ext: string): acorn.Options['sourceType'][] {
+    switch (ext) {
+      case '.mjs':
+      case '.mts':
+        return ['module'];
+      case '.cjs':
+      case '.cts':
+        return ['script'];
+      case '.ts':
+        // TypeScript helpers are mostly written with import/export
+        return ['module', 'script'];
+      default:
+        return ['script', 'module'];
+    }
+  }
+
+  private static getTsParser(): typeof acorn.Parser {
+    if (!SourceParser.tsParser) {
+      SourceParser.tsParser = acorn.Parser.extend(tsPlugin());
+    }
+    return SourceParser.tsParser;
+  }
+}
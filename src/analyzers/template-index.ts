@@ -0,0 +1,235 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComponentAnalysis, ExternalCall, MiddlewareAnalysis, TemplateDefinition } from '../models/flow-analyzer-types';
+import { CONFIG_PREFIX, findJsonKeyLines } from '../shared';
+import { ExternalCallRules } from './external-call-rules';
+
+/** Directories holding one template per file (dcqTemplates/, esTemplates/, templates/); group 1 is the call type */
+export const TEMPLATE_DIR_PATTERN = /^(\w*?)templates?$/i;
+
+/** Files holding one template per top-level key (dcqTemplates.json, templates.json); group 1 is the call type */
+export const TEMPLATE_FILE_PATTERN = /^(\w*?)templates?\.json$/i;
+
+/** Extensions of single-template files */
+export const TEMPLATE_EXTENSIONS = ['.json', '.mustache'];
+
+/** Mustache tags ({{param}}, {{{param}}}, {{#section}}); group 1 is the parameter */
+const PARAMETER_PATTERN = /\{\{\{?\s*[#^&]?\s*([\w.]+)\s*\}?\}\}/;
+
+/**
+ * Templates parsed from one file (without the call type, which depends on the rules)
+ */
+interface IndexedFile {
+  mtimeMs: number;
+  rawType: string;   // Prefix of the templates directory or file name ('' when untyped)
+  templates: Omit<TemplateDefinition, 'type' | 'filePath'>[];
+}
+
+/**
+ * TemplateIndex - Index of the DCQ/ES/AVS template definitions in the config repos
+ *
+ * Every agl-config-<mw> folder of the workspace is scanned below `files/`:
+ * - Each .json/.mustache file inside a `<type>Templates` directory defines one template named after the file
+ * - Each top-level key of a `<type>Templates.json` file defines one template
+ *
+ * The prefix gives the call type of the templates (`dcqTemplates` -> dcq, `esTemplates` -> elasticsearch);
+ * templates of a plain `templates` directory or file match calls of any type. Template names of a call are
+ * only checked when its type has typed definitions, so call types whose templates live elsewhere are never
+ * reported. Parsed files are cached by modification time.
+ */
+export class TemplateIndex {
+  private files = new Map<string, IndexedFile>();
+  private definitions = new Map<string, TemplateDefinition[]>();
+  private checkedTypes = new Set<string>();
+
+  constructor(private workspaceFolder: string) {}
+
+  /**
+   * Re-scan the config repos, re-parsing the template files that changed
+   */
+  refresh(rules: ExternalCallRules): void {
+    const files = new Map<string, IndexedFile>();
+    for (const configDir of this.findConfigDirs()) {
+      this.scanDirectory(configDir, undefined, files);
+    }
+    this.files = files;
+
+    this.definitions.clear();
+    this.checkedTypes.clear();
+    this.files.forEach((file, filePath) => {
+      const type = file.rawType ? rules.normalizeType(file.rawType.toLowerCase()) : undefined;
+      if (type) {
+        this.checkedTypes.add(type);
+      }
+      for (const template of file.templates) {
+        const definitions = this.definitions.get(template.name) ?? [];
+        definitions.push({ ...template, type, filePath });
+        this.definitions.set(template.name, definitions);
+      }
+    });
+  }
+
+  /**
+   * Definitions of a template that a call of the given type can use
+   */
+  find(name: string, type: string): TemplateDefinition[] {
+    return (this.definitions.get(name) ?? []).filter(definition => !definition.type || definition.type === type);
+  }
+
+  /**
+   * Flag the calls of the middlewares whose templates have no definition.
+   * Calls are shared with the component cache; the flags are recomputed on every analysis.
+   * @returns The definitions of the templates called, by name
+   */
+  resolveExternalCalls(middlewares: MiddlewareAnalysis[]): Record<string, TemplateDefinition[]> {
+    const calledDefinitions: Record<string, TemplateDefinition[]> = {};
+
+    const resolveCalls = (calls: ExternalCall[]) => {
+      for (const call of calls) {
+        const missing: string[] = [];
+        for (const name of call.templateNames ?? []) {
+          const definitions = this.find(name, call.type);
+          if (definitions.length > 0) {
+            calledDefinitions[name] = this.definitions.get(name)!;
+          } else if (this.checkedTypes.has(call.type)) {
+            missing.push(name);
+          }
+        }
+        call.missingTemplates = missing.length > 0 ? missing : undefined;
+      }
+    };
+    const resolveComponents = (components: ComponentAnalysis[]) => {
+      for (const component of components) {
+        resolveCalls(component.externalCalls);
+        resolveComponents(component.children);
+      }
+    };
+
+    for (const mw of middlewares) {
+      resolveCalls(mw.externalCalls);
+      resolveCalls(mw.allExternalCalls);
+      resolveComponents(mw.components);
+    }
+
+    return calledDefinitions;
+  }
+
+  private findConfigDirs(): string[] {
+    try {
+      return fs.readdirSync(this.workspaceFolder, { withFileTypes: true })
+        .filter(entry => entry.isDirectory() && entry.name.startsWith(CONFIG_PREFIX))
+        .map(entry => path.join(this.workspaceFolder, entry.name, 'files'))
+        .filter(dir => fs.existsSync(dir));
+    } catch (error) {
+      console.error(`Failed to list config repos in ${this.workspaceFolder}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * @param templateDirType Type prefix of the enclosing templates directory (undefined outside of one)
+   */
+  private scanDirectory(dir: string, templateDirType: string | undefined, files: Map<string, IndexedFile>): void {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.') || entry.name === 'node_modules') {
+        continue;
+      }
+      const entryPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        this.scanDirectory(entryPath, TEMPLATE_DIR_PATTERN.exec(entry.name)?.[1] ?? templateDirType, files);
+        continue;
+      }
+
+      const fileMatch = TEMPLATE_FILE_PATTERN.exec(entry.name);
+      const isTemplateFile = templateDirType !== undefined && TEMPLATE_EXTENSIONS.includes(path.extname(entry.name));
+      if (!entry.isFile() || (!isTemplateFile && !fileMatch)) {
+        continue;
+      }
+
+      try {
+        const mtimeMs = fs.statSync(entryPath).mtimeMs;
+        const cached = this.files.get(entryPath);
+        if (cached && cached.mtimeMs === mtimeMs) {
+          files.set(entryPath, cached);
+          continue;
+        }
+
+        const content = fs.readFileSync(entryPath, 'utf-8');
+        files.set(entryPath, isTemplateFile
+          ? { mtimeMs, rawType: templateDirType!, templates: [this.parseTemplateFile(entryPath, content)] }
+          : { mtimeMs, rawType: fileMatch![1], templates: this.parseTemplatesFile(content) });
+      } catch (error) {
+        console.error(`Failed to read template file ${entryPath}:`, error);
+      }
+    }
+  }
+
+  /**
+   * A file holding a single template, named after the file
+   */
+  private parseTemplateFile(filePath: string, content: string): IndexedFile['templates'][number] {
+    let declared: string[] = [];
+    if (path.extname(filePath) === '.json') {
+      try {
+        declared = this.getDeclaredParameters(JSON.parse(content));
+      } catch {
+        // Templates with mustache sections are not always valid JSON
+      }
+    }
+
+    return {
+      name: path.basename(filePath, path.extname(filePath)),
+      lineNumber: 1,
+      parameters: this.collectParameters(content, declared)
+    };
+  }
+
+  /**
+   * A JSON file holding one template per top-level key
+   */
+  private parseTemplatesFile(content: string): IndexedFile['templates'] {
+    const templates = JSON.parse(content);
+    if (!templates || typeof templates !== 'object' || Array.isArray(templates)) {
+      return [];
+    }
+
+    const keyLines = findJsonKeyLines(Object.keys(templates), content);
+    return Object.entries(templates).map(([name, template]) => ({
+      name,
+      lineNumber: keyLines.get(name) ?? 1,
+      parameters: this.collectParameters(JSON.stringify(template), this.getDeclaredParameters(template))
+    }));
+  }
+
+  /**
+   * Parameters declared by a `params`/`parameters` list or object of the template
+   */
+  private getDeclaredParameters(template: unknown): string[] {
+    if (!template || typeof template !== 'object') {
+      return [];
+    }
+    const declared = (template as Record<string, unknown>).params ?? (template as Record<string, unknown>).parameters;
+    if (Array.isArray(declared)) {
+      return declared.filter((param): param is string => typeof param === 'string');
+    }
+    return declared && typeof declared === 'object' ? Object.keys(declared) : [];
+  }
+
+  private collectParameters(text: string, declared: string[]): string[] {
+    const parameters = new Set(declared);
+    const pattern = new RegExp(PARAMETER_PATTERN.source, 'g');
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+      parameters.add(match[1]);
+    }
+    return Array.from(parameters);
+  }
+}
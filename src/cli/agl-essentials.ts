@@ -0,0 +1,303 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { FlowAnalysisSerializer } from '../analyzers/flow-analysis-serializer';
+import { FlowAnalyzer } from '../analyzers/flow-analyzer';
+import { FlowBaselineChecker } from '../analyzers/flow-baseline-checker';
+import { FlowReportGenerator } from '../analyzers/flow-report-generator';
+import {
+  BaselineCheckResult,
+  EndpointConfig,
+  FlowAnalysisMode,
+  FlowAnalysisProgress,
+  FlowAnalysisResult,
+  LibrarySource
+} from '../models/flow-analyzer-types';
+import { AGL_LIBS, readCustomRoutes } from '../shared';
+
+/**
+ * Command-line entry point (bundled to out/cli.js, installed as `agl-essentials`).
+ *
+ * Runs the same flow analysis as the Flow Analyzer panel without VS Code, e.g. in pre-merge checks:
+ *   agl-essentials analyze --middleware content --endpoint /api/v1/page --format markdown
+ *   agl-essentials check-baselines --middleware content
+ */
+
+const USAGE = `Usage: agl-essentials <command> [options]
+
+Commands:
+  analyze                      Analyze the middleware flow of an endpoint
+  record-baseline              Record the flow baseline of an endpoint (agl-config-<mw>/flow-baselines)
+  check-baselines              Re-analyze the endpoints with a baseline; exit code 2 when one deviates
+
+Options of analyze:
+  -m, --middleware <name>      Middleware serving the endpoint (e.g. content)
+  -e, --endpoint <uri>         Endpoint URI as written in customRoutes.json
+      --method <method>        HTTP method, when several endpoints share the URI
+  -w, --workspace <dir>        Folder holding the agl-* repos (default: current directory)
+  -f, --format <format>        markdown | mermaid | json (versioned export format; default: markdown)
+      --mode <mode>            normal | panic (default: normal)
+      --expand-all             Expand every component of the diagram
+      --analyzable-package <p> Package name or glob analyzed besides @opus/* (repeatable)
+      --library-source <l=s>   Source of an AGL library, e.g. agl-core=local (repeatable)
+  -o, --output <file>          Write the report to a file instead of stdout
+      --fail-on-issues         Exit with code 2 when data or config issues are found
+
+Options of record-baseline:
+  -m, --middleware, -e, --endpoint, --method, -w, --workspace, --mode,
+  --analyzable-package, --library-source as for analyze
+
+Options of check-baselines:
+  -m, --middleware <name>      Only check the baselines of a middleware (default: every middleware)
+  -w, --workspace, --analyzable-package, --library-source as for analyze
+  -o, --output <file>          Write the Markdown report to a file instead of stdout
+
+  -h, --help                   Show this help
+`;
+
+const FORMATS = ['markdown', 'mermaid', 'json'] as const;
+type ReportFormat = typeof FORMATS[number];
+
+/** Exit code when --fail-on-issues is set and the analysis found issues, or when a baseline check fails */
+const EXIT_ISSUES = 2;
+
+/**
+ * Invalid usage: reported without a stack trace
+ */
+class UsageError extends Error {}
+
+function runAnalyze(args: string[]): number {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'middleware': { type: 'string', short: 'm' },
+      'endpoint': { type: 'string', short: 'e' },
+      'method': { type: 'string' },
+      'workspace': { type: 'string', short: 'w' },
+      'format': { type: 'string', short: 'f', default: 'markdown' },
+      'mode': { type: 'string', default: 'normal' },
+      'expand-all': { type: 'boolean', default: false },
+      'analyzable-package': { type: 'string', multiple: true, default: [] },
+      'library-source': { type: 'string', multiple: true, default: [] },
+      'output': { type: 'string', short: 'o' },
+      'fail-on-issues': { type: 'boolean', default: false }
+    }
+  });
+
+  if (!values.middleware || !values.endpoint) {
+    throw new UsageError('analyze needs --middleware and --endpoint');
+  }
+  const format = values.format as ReportFormat;
+  if (!FORMATS.includes(format)) {
+    throw new UsageError(`Unknown format '${values.format}' (expected ${FORMATS.join(', ')})`);
+  }
+  const mode = parseMode(values.mode);
+
+  const workspaceFolder = path.resolve(values.workspace ?? process.cwd());
+  const endpoint = findEndpoint(workspaceFolder, values.middleware, values.endpoint, values.method);
+  const flowAnalyzer = createFlowAnalyzer(workspaceFolder, values.middleware, values);
+  const result = flowAnalyzer.analyze(endpoint, reportProgress, mode);
+
+  const report = renderReport(result, format, flowAnalyzer, {
+    workspaceFolder,
+    middlewareName: values.middleware,
+    expandAll: values['expand-all'] ?? false
+  });
+  if (values.output) {
+    fs.writeFileSync(values.output, report);
+  } else {
+    process.stdout.write(report.endsWith('\n') ? report : `${report}\n`);
+  }
+
+  const issueCount = result.dataIssues.length + result.configIssues.filter(issue => issue.kind !== 'unusedKey').length;
+  if (issueCount > 0) {
+    process.stderr.write(`${issueCount} data/config issue(s) found\n`);
+  }
+  return values['fail-on-issues'] && issueCount > 0 ? EXIT_ISSUES : 0;
+}
+
+function runRecordBaseline(args: string[]): number {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'middleware': { type: 'string', short: 'm' },
+      'endpoint': { type: 'string', short: 'e' },
+      'method': { type: 'string' },
+      'workspace': { type: 'string', short: 'w' },
+      'mode': { type: 'string', default: 'normal' },
+      'analyzable-package': { type: 'string', multiple: true, default: [] },
+      'library-source': { type: 'string', multiple: true, default: [] }
+    }
+  });
+
+  if (!values.middleware || !values.endpoint) {
+    throw new UsageError('record-baseline needs --middleware and --endpoint');
+  }
+  const mode = parseMode(values.mode);
+  const workspaceFolder = path.resolve(values.workspace ?? process.cwd());
+  const endpoint = findEndpoint(workspaceFolder, values.middleware, values.endpoint, values.method);
+
+  const result = createFlowAnalyzer(workspaceFolder, values.middleware, values).analyze(endpoint, reportProgress, mode);
+  const baselinePath = new FlowBaselineChecker(workspaceFolder, values.middleware).record(result);
+  process.stdout.write(`Baseline recorded in ${path.relative(process.cwd(), baselinePath) || baselinePath}\n`);
+  return 0;
+}
+
+function runCheckBaselines(args: string[]): number {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'middleware': { type: 'string', short: 'm' },
+      'workspace': { type: 'string', short: 'w' },
+      'analyzable-package': { type: 'string', multiple: true, default: [] },
+      'library-source': { type: 'string', multiple: true, default: [] },
+      'output': { type: 'string', short: 'o' }
+    }
+  });
+
+  const workspaceFolder = path.resolve(values.workspace ?? process.cwd());
+  const middlewareNames = values.middleware ? [values.middleware] : FlowBaselineChecker.findMiddlewares(workspaceFolder);
+  const results: BaselineCheckResult[] = [];
+  for (const middlewareName of middlewareNames) {
+    const checker = new FlowBaselineChecker(workspaceFolder, middlewareName);
+    const flowAnalyzer = createFlowAnalyzer(workspaceFolder, middlewareName, values);
+    for (const baselinePath of checker.listBaselineFiles()) {
+      const checkResult: BaselineCheckResult = { baselinePath, middlewareName, deviations: [] };
+      try {
+        const { baseline, endpoint } = checker.load(baselinePath);
+        checkResult.endpoint = baseline.endpoint;
+        checkResult.mode = baseline.mode;
+        checkResult.deviations = checker.check(baseline, flowAnalyzer.analyze(endpoint, reportProgress, baseline.mode));
+      } catch (error: any) {
+        checkResult.error = error?.message ?? String(error);
+      }
+      results.push(checkResult);
+    }
+  }
+  if (results.length === 0) {
+    throw new UsageError(`No flow baselines found in ${values.middleware ? `the config repo of ${values.middleware}` : workspaceFolder}`);
+  }
+
+  const report = new FlowReportGenerator(workspaceFolder).toBaselineMarkdown(results);
+  if (values.output) {
+    fs.writeFileSync(values.output, report);
+  } else {
+    process.stdout.write(report);
+  }
+
+  const failedCount = results.filter(result => result.error || result.deviations.length > 0).length;
+  if (failedCount > 0) {
+    process.stderr.write(`${failedCount} of ${results.length} flow baseline check(s) failed\n`);
+  }
+  return failedCount > 0 ? EXIT_ISSUES : 0;
+}
+
+function createFlowAnalyzer(
+  workspaceFolder: string,
+  middlewareName: string,
+  values: { 'analyzable-package'?: string[]; 'library-source'?: string[] }
+): FlowAnalyzer {
+  return new FlowAnalyzer(workspaceFolder, middlewareName, {
+    analyzablePackages: values['analyzable-package'],
+    librarySources: parseLibrarySources(values['library-source'] ?? [])
+  });
+}
+
+function reportProgress({ middlewarePath, index, total }: FlowAnalysisProgress): void {
+  if (process.stderr.isTTY) {
+    process.stderr.write(`Analyzing ${middlewarePath} (${index + 1}/${total})\n`);
+  }
+}
+
+function parseMode(value: string | undefined): FlowAnalysisMode {
+  if (value !== 'normal' && value !== 'panic') {
+    throw new UsageError(`Unknown mode '${value}' (expected normal or panic)`);
+  }
+  return value;
+}
+
+function findEndpoint(workspaceFolder: string, middlewareName: string, uri: string, method?: string): EndpointConfig {
+  let endpoints: EndpointConfig[];
+  try {
+    endpoints = readCustomRoutes(workspaceFolder, middlewareName);
+  } catch (error: any) {
+    throw new UsageError(`Cannot read the endpoints of ${middlewareName}: ${error.message}`);
+  }
+
+  const matches = endpoints.filter(endpoint =>
+    endpoint.endpointUri === uri && (!method || endpoint.method?.toUpperCase() === method.toUpperCase())
+  );
+  if (matches.length === 0) {
+    throw new UsageError(`No endpoint ${method ? `${method.toUpperCase()} ` : ''}${uri} in the ${middlewareName} middleware`);
+  }
+  if (matches.length > 1) {
+    const methods = matches.map(endpoint => endpoint.method.toUpperCase()).join(', ');
+    throw new UsageError(`${uri} is served for several methods (${methods}); pick one with --method`);
+  }
+  return matches[0];
+}
+
+/**
+ * Parse `agl-core=local` pairs
+ */
+function parseLibrarySources(pairs: string[]): Record<string, LibrarySource> {
+  const sources: Record<string, LibrarySource> = {};
+  for (const pair of pairs) {
+    const [name, source] = pair.split('=');
+    if (!(AGL_LIBS as readonly string[]).includes(name) || !['auto', 'local', 'node_modules'].includes(source)) {
+      throw new UsageError(`Invalid --library-source '${pair}' (expected <${AGL_LIBS.join('|')}>=<auto|local|node_modules>)`);
+    }
+    sources[name] = source as LibrarySource;
+  }
+  return sources;
+}
+
+function renderReport(
+  result: FlowAnalysisResult,
+  format: ReportFormat,
+  flowAnalyzer: FlowAnalyzer,
+  { workspaceFolder, middlewareName, expandAll }: { workspaceFolder: string; middlewareName: string; expandAll: boolean }
+): string {
+  if (format === 'json') {
+    return JSON.stringify(new FlowAnalysisSerializer(workspaceFolder).serialize(result, middlewareName), null, 2);
+  }
+
+  const expandedNodes = expandAll ? flowAnalyzer.getExpandableNodeIds(result) : new Set<string>();
+  const { diagram } = flowAnalyzer.generateMermaidDiagram(result, expandedNodes);
+  return format === 'mermaid' ? diagram : new FlowReportGenerator(workspaceFolder).toMarkdown(result, diagram);
+}
+
+const COMMANDS: Record<string, (args: string[]) => number> = {
+  'analyze': runAnalyze,
+  'record-baseline': runRecordBaseline,
+  'check-baselines': runCheckBaselines
+};
+
+function main(argv: string[]): number {
+  const [command, ...args] = argv;
+  if (!command || command === '-h' || command === '--help') {
+    process.stdout.write(USAGE);
+    return command ? 0 : 1;
+  }
+
+  try {
+    const run = COMMANDS[command];
+    if (!run) {
+      throw new UsageError(`Unknown command '${command}'`);
+    }
+    if (args.includes('-h') || args.includes('--help')) {
+      process.stdout.write(USAGE);
+      return 0;
+    }
+    return run(args);
+  } catch (error: any) {
+    // parseArgs reports unknown or malformed options with a TypeError carrying an ERR_PARSE_ARGS_* code
+    if (error instanceof UsageError || String(error?.code).startsWith('ERR_PARSE_ARGS')) {
+      process.stderr.write(`agl-essentials: ${error.message}\nRun 'agl-essentials --help' for usage.\n`);
+      return 1;
+    }
+    throw error;
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -3,9 +3,18 @@ import * as vscode from 'vscode';
 import { activateConfig } from './activate-config';
 import { activateMappersAndEndpoints } from './activate-mappers-endpoints';
 import { activateMiddleware } from './activate-middleware';
+import { AnalysisCacheStore } from './analyzers/analysis-cache-store';
+import { EndpointUsageCodeLensProvider } from './providers/endpoint-usage-code-lens-provider';
+import { ExternalCallTreeDataProvider } from './providers/external-call-tree-data-provider';
 import { HighlightDecorationProvider } from './providers/highlight-decoration-provider';
+import { ImpactTreeDataProvider } from './providers/impact-tree-data-provider';
+import { AnalysisFileWatcher } from './services/analysis-file-watcher';
 import { CommandService } from './services/command-service';
+import { EndpointIndexService } from './services/endpoint-index-service';
+import { FlowBaselineService } from './services/flow-baseline-service';
+import { LibrarySourceService } from './services/library-source-service';
 import { ProviderManager } from './services/provider-manager';
+import { RouteConflictDiagnostics } from './services/route-conflict-diagnostics';
 import { ViewManager } from './services/view-manager';
 import { CONFIG_PREFIX, MIDDLEWARE_ORDER } from './shared';
 
@@ -56,7 +65,9 @@ export function activate(context: vscode.ExtensionContext) {
     const sortedMiddlewareNames = MIDDLEWARE_ORDER.filter(name => middlewareNames.includes(name));
     const middlewareName = sortedMiddlewareNames[0] || middlewareNames[0];
 
-    const commandService = new CommandService(workspaceFolder, providerManager, context);
+    // Shared watcher used to incrementally re-analyze open flows when sources change
+    const fileWatcher = new AnalysisFileWatcher(workspaceFolder);
+    const commandService = new CommandService(workspaceFolder, providerManager, context, fileWatcher);
 
     // Activate features
     const middlewareService = activateMiddleware(workspaceFolder, middlewareName);
@@ -67,6 +78,21 @@ export function activate(context: vscode.ExtensionContext) {
     // Register commands early so they're available during loading
     commandService.registerCommands(viewManager, providerManager);
 
+    // Status bar picker for the source of agl-core, agl-utils, ... (local clone or node_modules)
+    const librarySourceService = new LibrarySourceService(workspaceFolder, middlewareNames);
+
+    // Background analysis of every endpoint of every middleware, for workspace-wide lookups
+    const endpointIndexService = new EndpointIndexService(workspaceFolder, middlewareNames, context, fileWatcher);
+    const endpointUsageCodeLensProvider = new EndpointUsageCodeLensProvider(endpointIndexService);
+    const externalCallTreeDataProvider = new ExternalCallTreeDataProvider(endpointIndexService);
+    const impactTreeDataProvider = new ImpactTreeDataProvider(workspaceFolder, endpointIndexService);
+
+    // Recorded flow contracts of endpoints (agl-config-<mw>/flow-baselines)
+    const flowBaselineService = new FlowBaselineService(workspaceFolder, context);
+
+    // Overlapping and shadowed routes of every customRoutes.json, as Problems
+    const routeConflictDiagnostics = new RouteConflictDiagnostics(workspaceFolder);
+
     // Activate mappers and endpoints for all middlewares asynchronously in the background
     const activateAllMappersAndEndpoints = async () => {
         for (const mwName of sortedMiddlewareNames) {
@@ -87,10 +113,27 @@ export function activate(context: vscode.ExtensionContext) {
     // Start background activation without blocking extension activation
     activateAllMappersAndEndpoints();
 
+    // Drop persisted analysis results written by older analyzer versions (entries are loaded lazily)
+    setTimeout(() => {
+        try {
+            AnalysisCacheStore.forStorage((context.storageUri ?? context.globalStorageUri).fsPath).pruneOtherVersions();
+        } catch (error) {
+            console.error('Failed to prune analysis cache:', error);
+        }
+    }, 1000);
+
     context.subscriptions.push(
         viewManager,
         providerManager,
         commandService,
+        fileWatcher,
+        librarySourceService,
+        endpointIndexService,
+        endpointUsageCodeLensProvider,
+        externalCallTreeDataProvider,
+        impactTreeDataProvider,
+        flowBaselineService,
+        routeConflictDiagnostics,
         middlewareService,
         templateService,
         nanoConfigService,
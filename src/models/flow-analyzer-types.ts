@@ -13,6 +13,41 @@ export interface EndpointConfig {
   panicConfigKey?: string;
 }
 
+/**
+ * Flow analysis mode: the normal `run` path, or the `panic` fallback of each middleware
+ */
+export type FlowAnalysisMode = 'normal' | 'panic';
+
+/**
+ * Options shared by the analyzers (must stay serializable)
+ */
+export interface AnalyzerOptions {
+  cacheDir?: string;       // Directory for the persistent analysis cache (disabled when omitted)
+  analyzablePackages?: string[];   // Package names/globs analyzed besides @opus/* (aglEssentials.analyzablePackages)
+  librarySources?: Record<string, LibrarySource>;   // Source of each AGL library (aglEssentials.librarySources)
+}
+
+/**
+ * Where the source of an AGL library (agl-core, agl-utils, ...) is read from:
+ * the workspace clone when there is one ('auto'), only the clone ('local'), or only the installed copy ('node_modules')
+ */
+export type LibrarySource = 'auto' | 'local' | 'node_modules';
+
+/**
+ * An AGL library as resolved for a middleware
+ */
+export interface LibraryResolution {
+  name: string;                 // agl-core
+  packageName: string;          // @opus/agl-core
+  source: LibrarySource;        // Configured source
+  resolvedFrom?: 'local' | 'node_modules';   // Copy that is analyzed (undefined: the library is not found)
+  rootPath?: string;            // Real path of the analyzed copy
+  version?: string;             // package.json version of the analyzed copy
+  localVersion?: string;        // Version of the workspace clone
+  installedVersion?: string;    // Version in the middleware's node_modules
+  versionMismatch: boolean;     // The clone and the installed copy have different versions
+}
+
 /**
  * Data usage types - tracks various input/output data sources
  */
@@ -52,14 +87,42 @@ export interface ResLocalsUsage {
 }
 
 export interface ExternalCall {
-  type: 'dcq' | 'avs' | 'pinboard' | 'elasticsearch' | 'external' | 'ava' | 'dsf' | 'microservice' | 'cache' | 'http';
+  type: string;        // Built-in type (dcq, avs, elasticsearch, http, ...) or one declared in .agl-essentials.json
   template?: string;
-  endpoint?: string;
+  urlTemplate?: string; // HTTP calls: URL as written, with {mWareConfig.<key>.<path>}, {env.<NAME>} and other {placeholders}
+  endpoint?: string;    // HTTP calls: urlTemplate with config placeholders replaced by their config file values
+  templateNames?: string[];    // Template names the call can use (known values of the template argument)
+  missingTemplates?: string[]; // templateNames without a definition in the config repos (set on every analysis)
   method?: string;
   lineNumber: number;
   codeSnippet?: string;
   sourcePath?: string; // Source file path where this call occurs
   isLibrary?: boolean; // Whether this call is in a library file (agl-core, agl-utils, etc.)
+  diffChange?: FlowDiffChange; // Set on compared results only (FlowDiffAnalyzer.merge)
+}
+
+/**
+ * A DCQ/ES/AVS template defined in a config repo (agl-config-<mw>/files)
+ */
+export interface TemplateDefinition {
+  name: string;
+  type?: string;          // Call type from the directory or file name (dcqTemplates -> dcq); undefined: any type
+  filePath: string;
+  lineNumber: number;
+  parameters: string[];   // {{placeholders}} and declared params of the template
+}
+
+/**
+ * `externalCalls` section of the workspace rules file (.agl-essentials.json)
+ */
+export interface ExternalCallRulesConfig {
+  wrappers?: {
+    pathPattern: string;   // Regex matched against require/import paths of wrapper modules
+    type?: string;         // Call type of the module; defaults to the first capture group of pathPattern
+  }[];
+  typeAliases?: Record<string, string>;                 // Short type name -> canonical type (e.g. es -> elasticsearch)
+  templateArgs?: { method: string; index: number }[];   // Method name regex -> template argument index (-1: none)
+  icons?: Record<string, string>;                       // Call type -> display icon
 }
 
 export interface ConfigDependency {
@@ -67,6 +130,8 @@ export interface ConfigDependency {
   key: string;
   lineNumber: number;
   codeSnippet?: string;
+  sourcePath?: string; // Source file path where this dependency occurs
+  isLibrary?: boolean; // Whether this dependency is in a library file
 }
 
 export interface RequireInfo {
@@ -76,6 +141,34 @@ export interface RequireInfo {
   lineNumber: number;
   isLocal: boolean;        // Whether it's a local file (starts with . or ..)
   isAglModule: boolean;    // Whether it's an @opus/agl-* module
+  isAnalyzable?: boolean;  // Local file or analyzable package: analyzed as a child component
+}
+
+/**
+ * Reference from a function to code it may run: a local function, or an export of a required module
+ */
+export interface FunctionCall {
+  name: string;            // Local function name, or the export name when modulePath is set ('*' = whole module)
+  modulePath?: string;     // Require/import specifier of the called module
+}
+
+/**
+ * Top-level function of a file (nested functions belong to their enclosing function)
+ */
+export interface FunctionInfo {
+  name: string;
+  startLine: number;
+  endLine: number;
+  calls: FunctionCall[];
+}
+
+/**
+ * Function-level call graph of a single file
+ */
+export interface FunctionGraph {
+  functions: FunctionInfo[];
+  moduleCalls: FunctionCall[];                // Calls from top-level code, which runs when the module is loaded
+  exports: { [exportName: string]: string };  // Export name -> local name of the exported value
 }
 
 /**
@@ -111,9 +204,19 @@ export interface ComponentAnalysis {
   // Function locations
   exportedFunctions: string[];
   mainFunctionLine?: number;
+
+  // Call graph
+  functionGraph?: FunctionGraph;
+  calledFunctions?: string[];     // Functions reachable from the caller (undefined = whole module)
   
   // Indicates this is a shallow reference (already analyzed elsewhere)
   isShallowReference?: boolean;
+
+  // Analyzable require that did not resolve to a file (name is the require path, filePath is empty)
+  isUnresolved?: boolean;
+  requireLine?: number;    // Line of the require in parentPath
+
+  diffChange?: FlowDiffChange;   // Set on compared results only (FlowDiffAnalyzer.merge)
 }
 
 export interface MiddlewareAnalysis {
@@ -135,6 +238,8 @@ export interface MiddlewareAnalysis {
   internalDeps: string[];
   runFunctionLine?: number;
   panicFunctionLine?: number;
+  entryFunctionMissing?: boolean;  // Panic mode: the middleware has no panic function, nothing runs
+  diffChange?: FlowDiffChange;     // Set on compared results only (FlowDiffAnalyzer.merge)
   
   // Component tree
   components: ComponentAnalysis[];
@@ -162,8 +267,54 @@ export interface ComponentDataFlowEdge {
   type: 'write-read' | 'write-write' | 'read-write';
 }
 
+/**
+ * Ordering problem of a res.locals / req.transaction property within the middleware chain
+ * - readBeforeWrite: read by a middleware, but written by no earlier middleware (nor itself)
+ * - unusedWrite: written by a middleware, but never read by it or a later middleware
+ */
+export interface DataIssue {
+  kind: 'readBeforeWrite' | 'unusedWrite';
+  source: 'res.locals' | 'req.transaction';
+  property: string;
+  middleware: string;      // Middleware path in the chain
+  filePath: string;        // File of the offending read/write
+  lineNumber: number;
+  codeSnippet?: string;
+  message: string;
+}
+
+/**
+ * Config key problem found by cross-referencing config dependencies with the config files
+ * - missingKey: read by the endpoint's code, but not defined in the config file
+ * - possibleTypo: a missing key that is a near miss of a defined key
+ * - unusedKey: defined in the config file, but never read by any code of the middleware
+ */
+export interface ConfigIssue {
+  kind: 'missingKey' | 'possibleTypo' | 'unusedKey';
+  source: ConfigDependency['source'];
+  key: string;
+  suggestion?: string;     // possibleTypo: the defined key that was probably meant
+  middleware?: string;     // Middleware path in the chain (not set for unusedKey)
+  filePath: string;        // Code file of the read, or the config file for unusedKey
+  lineNumber: number;
+  codeSnippet?: string;
+  message: string;
+}
+
+/**
+ * customPanicConfig.json entry referenced by an endpoint's panicConfigKey
+ */
+export interface PanicConfigInfo {
+  key: string;
+  filePath: string;
+  found: boolean;
+  lineNumber?: number;
+  entry?: unknown;
+}
+
 export interface FlowAnalysisResult {
   endpoint: EndpointConfig;
+  mode: FlowAnalysisMode;
   middlewares: MiddlewareAnalysis[];
   dataFlow: DataFlowEdge[];
   allResLocalsProperties: Map<string, {
@@ -177,4 +328,284 @@ export interface FlowAnalysisResult {
   
   // NEW: Detailed component data flow
   componentDataFlow: ComponentDataFlowEdge[];
+
+  dataIssues: DataIssue[];            // Normal mode only
+  configIssues: ConfigIssue[];
+  externalCallIcons: Record<string, string>;   // Display icon by (lower case) external call type
+  templateDefinitions: Record<string, TemplateDefinition[]>;   // Definitions of the templates called, by name
+  libraries: LibraryResolution[];     // AGL libraries and the copies analyzed
+  panicConfig?: PanicConfigInfo;      // When the endpoint has a panicConfigKey
+}
+
+/**
+ * Producers and consumers of one res.locals / req.transaction property (FlowAnalysisResult Map entry)
+ */
+export interface PropertyFlow {
+  property: string;
+  producers: string[];
+  consumers: string[];
+}
+
+/**
+ * Versioned JSON export of a flow analysis (docs/flow-analysis-export-format.md).
+ * The result has its Maps as arrays and its file paths relative to the workspace folder.
+ */
+export interface FlowAnalysisExport {
+  format: 'agl-essentials/flow-analysis';
+  schemaVersion: number;
+  exportedAt: string;           // ISO 8601 timestamp
+  analyzerVersion: string;      // Analyzer that produced the result
+  middlewareName: string;       // Middleware whose customRoutes.json defines the endpoint
+  result: Omit<FlowAnalysisResult, 'allResLocalsProperties' | 'allReqTransactionProperties'> & {
+    allResLocalsProperties: PropertyFlow[];
+    allReqTransactionProperties: PropertyFlow[];
+  };
+}
+
+/**
+ * A flow analysis read back from an export
+ */
+export interface ImportedFlowAnalysis {
+  middlewareName: string;
+  exportedAt: string;
+  result: FlowAnalysisResult;
+  filePath?: string;            // Export file it was read from
+}
+
+/**
+ * Summary of one endpoint's (normal mode) analysis, as stored in the workspace endpoint index
+ */
+export interface EndpointSummary {
+  key: string;                  // <middleware> <METHOD> <uri> (EndpointSummarizer.getKey)
+  middlewareName: string;
+  endpoint: EndpointConfig;
+  analyzedAt: string;           // ISO 8601 timestamp
+  components: IndexedComponent[];
+  externalCalls: IndexedExternalCall[];
+  configKeys: IndexedConfigKey[];
+  resLocals: { reads: string[]; writes: string[] };        // Property names
+  reqTransaction: { reads: string[]; writes: string[] };
+  files: Record<string, number>;   // Analyzed file -> mtime (ms) at analysis time, -1 when missing
+  error?: string;               // The analysis failed; only endpoint and files are meaningful
+}
+
+export interface IndexedComponent {
+  name: string;
+  filePath: string;
+  middleware: string;           // Middleware of the chain (e.g. middleware/page) the component runs in
+  depth: number;                // -1 for the middleware itself
+  parentPath?: string;          // File of the component that requires it
+  calledFunctions?: string[];   // Top-level functions the endpoint reaches (undefined = whole module)
+  exports?: IndexedExport[];    // Exported functions of the file
+}
+
+export interface IndexedExport {
+  name: string;                 // Export name
+  localName: string;            // Function it exports (FunctionGraph.exports)
+  line: number;
+}
+
+export interface IndexedExternalCall {
+  type: string;
+  target?: string;              // Template, or URL of HTTP calls (resolved when possible)
+  templateNames?: string[];
+  method?: string;
+  middleware: string;
+  sourcePath?: string;
+  lineNumber: number;
+}
+
+export interface IndexedConfigKey {
+  source: ConfigDependency['source'];
+  key: string;
+  middleware: string;
+  sourcePath?: string;
+  lineNumber: number;
+}
+
+/**
+ * A file changed in a git diff
+ */
+export interface ChangedFile {
+  filePath: string;             // Absolute path (the new path of renamed files)
+  oldFilePath?: string;         // Renamed files
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  oldContent?: string;          // Config files only (ImpactAnalyzer.needsContent): content before / after the change
+  newContent?: string;
+}
+
+export type ImpactReasonKind = 'source' | 'route' | 'mapper' | 'config' | 'template';
+
+export interface ImpactReason {
+  kind: ImpactReasonKind;
+  message: string;
+  filePath: string;
+  lineNumber?: number;
 }
+
+/**
+ * An endpoint affected by a change set, and why
+ */
+export interface EndpointImpact {
+  key: string;                  // EndpointSummarizer.getKey
+  middlewareName: string;
+  endpoint: EndpointConfig;
+  reasons: ImpactReason[];
+  removed?: boolean;            // The change removes the endpoint from customRoutes.json
+}
+
+export interface ImpactReport {
+  title: string;                // e.g. "Working tree vs HEAD", "HEAD vs main"
+  generatedAt: string;          // ISO 8601 timestamp
+  repositories: string[];       // Repositories diffed
+  skippedRepositories: string[];   // Repositories without the base branch
+  indexComplete: boolean;       // False when the endpoint index was still being built
+  changedFiles: ChangedFile[];
+  endpoints: EndpointImpact[];
+  unmatchedFiles: string[];     // Changed files that affect no indexed endpoint
+}
+
+/**
+ * Whether a part of a flow exists only in the current code ('added') or only at the compared git ref ('removed')
+ */
+export type FlowDiffChange = 'added' | 'removed';
+
+export type FlowDiffKind = 'middleware' | 'component' | 'externalCall' | 'configKey' | 'resLocals' | 'reqTransaction';
+
+export interface FlowDiffEntry {
+  change: FlowDiffChange;
+  kind: FlowDiffKind;
+  key: string;                  // Identity of the item in both analyses (paths relative to the workspace)
+  label: string;
+  middleware?: string;
+  filePath?: string;            // Workspace path (removed files may only exist at the compared ref)
+  lineNumber?: number;
+}
+
+/**
+ * Flow of an endpoint compared with the flow at another git ref
+ */
+export interface FlowDiff {
+  ref: string;
+  entries: FlowDiffEntry[];
+  skippedRepositories: string[];   // Repositories without the ref, analyzed as in the working tree
+  routeMissing: boolean;           // The endpoint is not in customRoutes.json at the ref (compared with the current route)
+}
+
+/**
+ * Recorded contract of an endpoint's flow, committed to agl-config-<mw>/flow-baselines (FlowBaselineChecker).
+ * Entries have no file paths or line numbers, so moving code keeps the contract.
+ */
+export interface FlowBaseline {
+  format: 'agl-essentials/flow-baseline';
+  schemaVersion: number;
+  recordedAt: string;           // ISO 8601 timestamp
+  analyzerVersion: string;      // Analyzer that produced the recorded analysis
+  middlewareName: string;
+  endpoint: { method: string; endpointUri: string };
+  mode: FlowAnalysisMode;
+  externalCalls: BaselineExternalCall[];
+  configKeys: BaselineConfigKey[];
+  resLocals: BaselineResLocalsProperty[];
+}
+
+export interface BaselineExternalCall {
+  middleware: string;
+  type: string;
+  target: string;               // Template name(s) or URL as written; '(dynamic)' when unknown
+}
+
+export interface BaselineConfigKey {
+  middleware: string;
+  key: string;                  // <source>.<key>, e.g. mWareConfig.timeout
+}
+
+/**
+ * A res.locals property and the middlewares writing and reading it (in chain order)
+ */
+export interface BaselineResLocalsProperty {
+  property: string;
+  writers: string[];
+  readers: string[];
+}
+
+export type BaselineDeviationKind = 'externalCall' | 'configKey' | 'resLocalsWrite' | 'resLocalsRead';
+
+/**
+ * Difference between a baseline ('removed') and the current analysis ('added')
+ */
+export interface BaselineDeviation {
+  change: FlowDiffChange;
+  kind: BaselineDeviationKind;
+  middleware: string;
+  label: string;                // e.g. "dcq: GetAsset", "mWareConfig.timeout", "res.locals.asset"
+  message: string;              // Readable description for reports
+}
+
+/**
+ * Outcome of checking one baseline file
+ */
+export interface BaselineCheckResult {
+  baselinePath: string;
+  middlewareName: string;
+  endpoint?: { method: string; endpointUri: string };   // Undefined when the file could not be read
+  mode?: FlowAnalysisMode;
+  deviations: BaselineDeviation[];
+  error?: string;               // The baseline could not be checked (invalid file, endpoint no longer routed, analysis failure)
+}
+
+/**
+ * A route of customRoutes.json matching a request (RouteMatcher)
+ */
+export interface RouteMatch {
+  index: number;                // Position in customRoutes.json
+  endpoint: EndpointConfig;
+  params: Record<string, string>;   // Decoded path parameters by name
+}
+
+/**
+ * Two routes that can match the same request
+ * - duplicate: both match exactly the same requests; the later one is never reached
+ * - shadowed: the earlier route matches every request of the later one
+ * - overlap: some requests match both; they are handled by the earlier route
+ */
+export type RouteConflictKind = 'duplicate' | 'shadowed' | 'overlap';
+
+export interface RouteConflict {
+  kind: RouteConflictKind;
+  index: number;                // Later route (reported)
+  endpoint: EndpointConfig;
+  otherIndex: number;           // Earlier route, which Express tries first
+  otherEndpoint: EndpointConfig;
+  exampleUrl: string;           // A request path both match; `:name` stands for any value
+  message: string;
+}
+
+/**
+ * Progress of a running flow analysis (reported per middleware)
+ */
+export interface FlowAnalysisProgress {
+  middlewarePath: string;
+  index: number;           // 0-based position in the middleware chain
+  total: number;
+}
+
+/**
+ * Flow analysis worker protocol.
+ * All messages cross the worker_threads boundary and must be structured-clone serializable.
+ */
+export interface FlowAnalysisWorkerData {
+  workspaceFolder: string;
+  middlewareName: string;
+  options: AnalyzerOptions;
+}
+
+export type FlowAnalysisWorkerRequest =
+  | { type: 'analyze'; requestId: number; endpoint: EndpointConfig; mode: FlowAnalysisMode }
+  | { type: 'invalidate'; requestId: number; filePaths: string[] };
+
+export type FlowAnalysisWorkerResponse =
+  | { type: 'progress'; requestId: number; progress: FlowAnalysisProgress }
+  | { type: 'result'; requestId: number; result: FlowAnalysisResult }
+  | { type: 'invalidated'; requestId: number; filePaths: string[] }
+  | { type: 'error'; requestId: number; message: string };
@@ -1,8 +1,7 @@
-import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { FeatureNode } from '../models/feature-node';
-import { CONFIG_PREFIX } from '../shared';
+import { readCustomRoutes } from '../shared';
 import { TreeDataProvider } from './tree-data-provider';
 
 // HTTP method icon paths
@@ -49,16 +48,8 @@ export class EndpointTreeDataProvider extends TreeDataProvider {
     }
 
     protected loadData(): void {
-        const customRoutesPath = path.join(
-            this.workspaceFolder, 
-            `${CONFIG_PREFIX}${this.middlewareName}`,
-            'files',
-            'customRoutes.json'
-        );
-        
         try {
-            const config = JSON.parse(fs.readFileSync(customRoutesPath, 'utf-8'));
-            this.buildEndpointTree(config);
+            this.buildEndpointTree(readCustomRoutes(this.workspaceFolder, this.middlewareName));
         } catch (error: any) {
             vscode.window.showErrorMessage(`Failed to load endpoint tree: ${error.message}`);
         }
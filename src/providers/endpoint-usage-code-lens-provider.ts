@@ -0,0 +1,92 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { EndpointSummary } from '../models/flow-analyzer-types';
+import { EndpointIndexService } from '../services/endpoint-index-service';
+
+/** Command of the CodeLenses: pick one of the endpoints and analyze its flow */
+const SHOW_USAGES_COMMAND = 'aglEssentials.showEndpointUsages';
+
+/** Files that can be components of an endpoint */
+const DOCUMENT_SELECTOR: vscode.DocumentSelector = [
+    { scheme: 'file', language: 'javascript' },
+    { scheme: 'file', language: 'typescript' }
+];
+
+/**
+ * "Used by N endpoints" CodeLenses at the top of every file of the endpoint index
+ * and on its exported functions (counting only the endpoints that reach the function)
+ */
+export class EndpointUsageCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    readonly onDidChangeCodeLenses: vscode.Event<void>;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly endpointIndex: EndpointIndexService) {
+        this.onDidChangeCodeLenses = endpointIndex.onDidChangeIndex;
+        this.disposables.push(
+            vscode.languages.registerCodeLensProvider(DOCUMENT_SELECTOR, this),
+            vscode.commands.registerCommand(SHOW_USAGES_COMMAND, (endpoints: EndpointSummary[], target: string) =>
+                this.showUsages(endpoints, target)
+            )
+        );
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const usage = this.endpointIndex.getFileUsage(document.uri.fsPath);
+        if (!usage) {
+            return [];
+        }
+
+        const fileName = path.basename(document.uri.fsPath);
+        const lenses = [this.createLens(0, usage.endpoints, fileName)];
+        for (const exported of usage.exports) {
+            const line = Math.min(Math.max(exported.line - 1, 0), document.lineCount - 1);
+            lenses.push(this.createLens(line, exported.endpoints, `${fileName} › ${exported.name}`));
+        }
+        return lenses;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    private createLens(line: number, endpoints: EndpointSummary[], target: string): vscode.CodeLens {
+        const range = new vscode.Range(line, 0, line, 0);
+        if (endpoints.length === 0) {
+            return new vscode.CodeLens(range, { title: 'Not reached by any endpoint', command: '' });
+        }
+
+        const middlewares = Array.from(new Set(endpoints.map(summary => summary.middlewareName))).sort();
+        return new vscode.CodeLens(range, {
+            title: `Used by ${endpoints.length} endpoint${endpoints.length === 1 ? '' : 's'} (${middlewares.join(', ')})`,
+            tooltip: 'Pick an endpoint to analyze its flow',
+            command: SHOW_USAGES_COMMAND,
+            arguments: [endpoints, target]
+        });
+    }
+
+    private async showUsages(endpoints: EndpointSummary[], target: string): Promise<void> {
+        const items = [...endpoints]
+            .sort((a, b) => a.middlewareName.localeCompare(b.middlewareName)
+                || a.endpoint.endpointUri.localeCompare(b.endpoint.endpointUri))
+            .map(summary => ({
+                label: `${(summary.endpoint.method ?? 'get').toUpperCase()} ${summary.endpoint.endpointUri}`,
+                description: summary.middlewareName,
+                detail: summary.endpoint.middleware?.join(' → '),
+                summary
+            }));
+
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: `Endpoints using ${target} — select one to analyze its flow`,
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+        if (picked) {
+            await vscode.commands.executeCommand(
+                'aglEssentials.analyzeEndpointFlow',
+                picked.summary.endpoint,
+                picked.summary.middlewareName
+            );
+        }
+    }
+}
@@ -0,0 +1,184 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { FeatureNode } from '../models/feature-node';
+import { IndexedComponent, IndexedExternalCall } from '../models/flow-analyzer-types';
+import { EndpointIndexService, ExternalCallUsage } from '../services/endpoint-index-service';
+import { TreeDataProvider } from './tree-data-provider';
+
+const VIEW_ID = 'aglExternalCalls';
+
+/** Context key set while the view is filtered (shows the clear filter action) */
+const FILTERED_CONTEXT_KEY = 'aglExternalCalls.filtered';
+
+const NODE_ICONS: Record<string, string> = {
+    'externalCallTarget': 'cloud',
+    'endpointNode': 'symbol-method',
+    'externalCallSite': 'debug-stackframe',
+    'callPathStep': 'symbol-file'
+};
+
+/**
+ * "External Calls" view: every template and HTTP URL called by the indexed endpoints,
+ * with the endpoints reaching it and the call path from the middleware to the call site.
+ *
+ * Tree: template / URL → endpoint → call site → middleware, components, call site file.
+ */
+export class ExternalCallTreeDataProvider extends TreeDataProvider implements vscode.Disposable {
+    protected readonly nodeIcons = NODE_ICONS;
+    private readonly treeView: vscode.TreeView<FeatureNode>;
+    private usages: ExternalCallUsage[] = [];
+    private filter = '';
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly endpointIndex: EndpointIndexService) {
+        super();
+        this.treeView = vscode.window.createTreeView(VIEW_ID, { treeDataProvider: this, showCollapseAll: true });
+        this.disposables.push(
+            this.treeView,
+            endpointIndex.onDidChangeIndex(() => this.loadData()),
+            vscode.commands.registerCommand('aglEssentials.findExternalCallUsages', () => this.findUsages()),
+            vscode.commands.registerCommand('aglEssentials.filterExternalCalls', () => this.promptFilter()),
+            vscode.commands.registerCommand('aglEssentials.clearExternalCallsFilter', () => this.setFilter(''))
+        );
+        this.loadData();
+    }
+
+    public get middlewareName(): string {
+        return 'all middlewares';
+    }
+
+    public get providerName(): string {
+        return 'External Calls';
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        super.dispose();
+    }
+
+    private loadData(): void {
+        this.usages = this.endpointIndex.getExternalCallUsages();
+        this.buildTree();
+    }
+
+    private buildTree(): void {
+        const filter = this.filter.toLowerCase();
+        const usages = filter
+            ? this.usages.filter(usage => `${usage.type} ${usage.target}`.toLowerCase().includes(filter))
+            : this.usages;
+
+        this.treeData = { name: 'Root', children: usages.map(usage => this.createTargetNode(usage)) };
+        this.treeView.message = this.getMessage(usages.length);
+        this.fire();
+    }
+
+    private getMessage(shownCount: number): string | undefined {
+        if (this.usages.length === 0) {
+            return this.endpointIndex.isIndexing
+                ? 'The endpoint index is being built…'
+                : 'No external calls found in the endpoint index.';
+        }
+        if (this.filter) {
+            return `${shownCount} of ${this.usages.length} templates / URLs matching "${this.filter}"`;
+        }
+        return this.endpointIndex.isIndexing ? 'The endpoint index is being built; the list is incomplete.' : undefined;
+    }
+
+    private createTargetNode(usage: ExternalCallUsage): FeatureNode {
+        const count = usage.endpoints.length;
+        return {
+            name: usage.target,
+            description: `${usage.type} · ${count} endpoint${count === 1 ? '' : 's'}`,
+            contextValue: 'externalCallTarget',
+            children: usage.endpoints.map(({ summary, calls }) => ({
+                name: `${(summary.endpoint.method ?? 'get').toUpperCase()} ${summary.endpoint.endpointUri}`,
+                description: `${summary.middlewareName} · ${summary.endpoint.middleware?.join(' → ') ?? ''}`,
+                // Same context as the Endpoints views: Analyze Endpoint Flow / Search in Endpoint
+                contextValue: 'endpointNode',
+                endpointData: summary.endpoint,
+                arguments: [summary.endpoint, summary.middlewareName],
+                children: calls.map(({ call, callPath }) => this.createCallSiteNode(call, callPath))
+            }))
+        };
+    }
+
+    private createCallSiteNode(call: IndexedExternalCall, callPath: IndexedComponent[]): FeatureNode {
+        const steps: FeatureNode[] = callPath.map(comp => ({
+            name: comp.depth === -1 ? comp.middleware : path.basename(comp.filePath),
+            description: comp.depth === -1 ? 'middleware' : comp.name,
+            filePath: comp.filePath,
+            contextValue: 'callPathStep',
+            children: [],
+            ...this.openCommand(comp.filePath)
+        }));
+        if (call.sourcePath) {
+            steps.push({
+                name: `${path.basename(call.sourcePath)}:${call.lineNumber}`,
+                description: 'call site',
+                filePath: call.sourcePath,
+                contextValue: 'externalCallSite',
+                children: [],
+                ...this.openCommand(call.sourcePath, call.lineNumber)
+            });
+        }
+
+        return {
+            name: call.sourcePath ? `${path.basename(call.sourcePath)}:${call.lineNumber}` : `line ${call.lineNumber}`,
+            description: `${call.middleware}${call.method ? ` · ${call.method}` : ''}`,
+            filePath: call.sourcePath,
+            contextValue: 'externalCallSite',
+            children: steps,
+            ...(call.sourcePath ? this.openCommand(call.sourcePath, call.lineNumber) : {})
+        };
+    }
+
+    private setFilter(filter: string): void {
+        this.filter = filter.trim();
+        vscode.commands.executeCommand('setContext', FILTERED_CONTEXT_KEY, this.filter.length > 0);
+        this.buildTree();
+    }
+
+    private async promptFilter(): Promise<void> {
+        const filter = await vscode.window.showInputBox({
+            prompt: 'Show the templates and URLs containing',
+            placeHolder: 'e.g. GetUserProfile, reco.example.com, dcq',
+            value: this.filter
+        });
+        if (filter !== undefined) {
+            this.setFilter(filter);
+        }
+    }
+
+    /**
+     * Pick a template or URL, then show its endpoints in the view
+     */
+    private async findUsages(): Promise<void> {
+        if (this.usages.length === 0) {
+            vscode.window.showInformationMessage(this.getMessage(0) ?? 'No external calls found.');
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            this.usages.map(usage => ({
+                label: usage.target,
+                description: usage.type,
+                detail: usage.endpoints
+                    .map(({ summary }) => `${summary.middlewareName} ${(summary.endpoint.method ?? 'get').toUpperCase()} ${summary.endpoint.endpointUri}`)
+                    .join(', '),
+                usage
+            })),
+            { placeHolder: 'Select a template or URL to list the endpoints that call it', matchOnDescription: true }
+        );
+        if (!picked) {
+            return;
+        }
+
+        this.setFilter(picked.usage.target);
+        const node = this.treeData.children.find(child => child.name === picked.usage.target
+            && child.description?.startsWith(picked.usage.type));
+        if (node) {
+            await this.treeView.reveal(node, { select: true, focus: true, expand: 2 });
+        }
+    }
+}
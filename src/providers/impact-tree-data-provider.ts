@@ -0,0 +1,224 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { FlowReportGenerator } from '../analyzers/flow-report-generator';
+import { ImpactAnalyzer } from '../analyzers/impact-analyzer';
+import { FeatureNode } from '../models/feature-node';
+import { ChangedFile, EndpointImpact, ImpactReport } from '../models/flow-analyzer-types';
+import { EndpointIndexService } from '../services/endpoint-index-service';
+import { GitService } from '../services/git-service';
+import { TreeDataProvider } from './tree-data-provider';
+
+const VIEW_ID = 'aglImpactAnalysis';
+
+/** Context key set once a report is shown (the view is hidden before) */
+const HAS_RESULT_CONTEXT_KEY = 'aglImpactAnalysis.hasResult';
+
+const NODE_ICONS: Record<string, string> = {
+    'endpointNode': 'symbol-method',
+    'removedEndpoint': 'trash',
+    'impactReason.source': 'symbol-file',
+    'impactReason.route': 'git-merge',
+    'impactReason.mapper': 'symbol-structure',
+    'impactReason.config': 'settings-gear',
+    'impactReason.template': 'cloud',
+    'unmatchedFiles': 'question',
+    'changedFile': 'symbol-file'
+};
+
+/**
+ * "Change Impact" view: the endpoints affected by the local git changes, with the reasons per endpoint.
+ *
+ * Compares the working tree with HEAD, or HEAD with its merge base with a base branch, in every
+ * repository of the workspace. Changed files are mapped to endpoints through the endpoint index.
+ */
+export class ImpactTreeDataProvider extends TreeDataProvider implements vscode.Disposable {
+    protected readonly nodeIcons = NODE_ICONS;
+    private readonly treeView: vscode.TreeView<FeatureNode>;
+    private readonly gitService: GitService;
+    private report: ImpactReport | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly workspaceFolder: string, private readonly endpointIndex: EndpointIndexService) {
+        super();
+        this.gitService = new GitService(workspaceFolder);
+        this.treeView = vscode.window.createTreeView(VIEW_ID, { treeDataProvider: this, showCollapseAll: true });
+        this.disposables.push(
+            this.treeView,
+            vscode.commands.registerCommand('aglEssentials.analyzeChangeImpact', () => this.analyzeChangeImpact()),
+            vscode.commands.registerCommand('aglEssentials.exportImpactMarkdown', () => this.exportMarkdown())
+        );
+    }
+
+    public get middlewareName(): string {
+        return 'all middlewares';
+    }
+
+    public get providerName(): string {
+        return 'Change Impact';
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        super.dispose();
+    }
+
+    private async analyzeChangeImpact(): Promise<void> {
+        const repositories = this.gitService.findRepositories();
+        if (repositories.length === 0) {
+            vscode.window.showWarningMessage('No git repository found in the workspace.');
+            return;
+        }
+
+        const mode = await vscode.window.showQuickPick(
+            [
+                { label: 'Working tree vs HEAD', description: 'Uncommitted changes, including untracked files', base: false },
+                { label: 'HEAD vs a base branch…', description: 'Commits since the merge base, e.g. of a PR', base: true }
+            ],
+            { placeHolder: 'Which changes should be analyzed?' }
+        );
+        if (!mode) {
+            return;
+        }
+
+        let baseBranch: string | undefined;
+        if (mode.base) {
+            baseBranch = await this.pickBaseBranch(repositories);
+            if (!baseBranch) {
+                return;
+            }
+        }
+
+        try {
+            const report = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Analyzing change impact…' },
+                () => this.createReport(repositories, baseBranch)
+            );
+            this.showReport(report);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Change impact analysis failed: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    private async pickBaseBranch(repositories: string[]): Promise<string | undefined> {
+        const branches = new Set<string>();
+        for (const repository of repositories) {
+            try {
+                (await this.gitService.listBranches(repository)).forEach(branch => branches.add(branch));
+            } catch (error) {
+                console.error(`Failed to list the branches of ${repository}:`, error);
+            }
+        }
+        if (branches.size === 0) {
+            vscode.window.showWarningMessage('No branches found in the workspace repositories.');
+            return undefined;
+        }
+
+        return vscode.window.showQuickPick(Array.from(branches).sort(), {
+            placeHolder: 'Base branch (repositories without it are skipped)'
+        });
+    }
+
+    private async createReport(repositories: string[], baseBranch: string | undefined): Promise<ImpactReport> {
+        const changedFiles: ChangedFile[] = [];
+        const diffedRepositories: string[] = [];
+        const skippedRepositories: string[] = [];
+        const readContent = (filePath: string) => ImpactAnalyzer.needsContent(this.workspaceFolder, filePath);
+
+        for (const repository of repositories) {
+            if (baseBranch && !(await this.gitService.hasRevision(repository, baseBranch))) {
+                skippedRepositories.push(repository);
+                continue;
+            }
+            const { changes } = await this.gitService.getChanges(repository, baseBranch, readContent);
+            changedFiles.push(...changes);
+            diffedRepositories.push(repository);
+        }
+
+        const summaries = this.endpointIndex.getSummaries();
+        const { endpoints, unmatchedFiles } = new ImpactAnalyzer(this.workspaceFolder).analyze(changedFiles, summaries);
+        return {
+            title: baseBranch ? `HEAD vs ${baseBranch}` : 'Working tree vs HEAD',
+            generatedAt: new Date().toISOString(),
+            repositories: diffedRepositories,
+            skippedRepositories,
+            indexComplete: !this.endpointIndex.isIndexing && summaries.length > 0,
+            changedFiles,
+            endpoints,
+            unmatchedFiles
+        };
+    }
+
+    private showReport(report: ImpactReport): void {
+        this.report = report;
+        const children = report.endpoints.map(impact => this.createEndpointNode(impact));
+        if (report.unmatchedFiles.length > 0) {
+            children.push({
+                name: 'Changed files not used by any endpoint',
+                description: String(report.unmatchedFiles.length),
+                contextValue: 'unmatchedFiles',
+                children: report.unmatchedFiles.map(filePath => ({
+                    name: path.basename(filePath),
+                    description: this.relative(path.dirname(filePath)),
+                    filePath,
+                    contextValue: 'changedFile',
+                    children: [],
+                    ...this.openCommand(filePath)
+                }))
+            });
+        }
+        this.treeData = { name: 'Root', children };
+
+        const messages = [
+            `${report.title}: ${report.endpoints.length} affected endpoint(s), ${report.changedFiles.length} changed file(s)`
+        ];
+        if (!report.indexComplete) {
+            messages.push('the endpoint index is incomplete, so endpoints may be missing');
+        }
+        if (report.skippedRepositories.length > 0) {
+            messages.push(`skipped: ${report.skippedRepositories.map(repo => path.basename(repo)).join(', ')}`);
+        }
+        this.treeView.message = messages.join(' · ');
+
+        vscode.commands.executeCommand('setContext', HAS_RESULT_CONTEXT_KEY, true);
+        this.fire();
+        vscode.commands.executeCommand(`${VIEW_ID}.focus`);
+    }
+
+    private createEndpointNode(impact: EndpointImpact): FeatureNode {
+        const count = impact.reasons.length;
+        return {
+            name: `${impact.endpoint.method.toUpperCase()} ${impact.endpoint.endpointUri}`,
+            description: `${impact.middlewareName}${impact.removed ? ' · removed' : ''} · ${count} reason${count === 1 ? '' : 's'}`,
+            // Same context as the Endpoints views: Analyze Endpoint Flow / Search in Endpoint
+            contextValue: impact.removed ? 'removedEndpoint' : 'endpointNode',
+            endpointData: impact.endpoint,
+            arguments: [impact.endpoint, impact.middlewareName],
+            children: impact.reasons.map(reason => ({
+                name: reason.message,
+                description: `${path.basename(reason.filePath)}${reason.lineNumber ? `:${reason.lineNumber}` : ''}`,
+                filePath: reason.filePath,
+                contextValue: `impactReason.${reason.kind}`,
+                children: [],
+                ...this.openCommand(reason.filePath, reason.lineNumber)
+            }))
+        };
+    }
+
+    private async exportMarkdown(): Promise<void> {
+        if (!this.report) {
+            vscode.window.showInformationMessage('Run "AGL: Analyze Change Impact" first.');
+            return;
+        }
+
+        const markdown = new FlowReportGenerator(this.workspaceFolder).toImpactMarkdown(this.report);
+        await vscode.env.clipboard.writeText(markdown);
+        const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: markdown });
+        await vscode.window.showTextDocument(document, { preview: false });
+        vscode.window.showInformationMessage('Impact report copied to the clipboard.');
+    }
+
+    private relative(filePath: string): string {
+        return path.relative(this.workspaceFolder, filePath).replace(/\\/g, '/') || '.';
+    }
+}
@@ -5,6 +5,7 @@ export abstract class TreeDataProvider implements vscode.TreeDataProvider<Featur
     private _onDidChangeTreeData: vscode.EventEmitter<FeatureNode | undefined | void> = new vscode.EventEmitter<FeatureNode | undefined | void>();
     readonly onDidChangeTreeData: vscode.Event<FeatureNode | undefined | void> = this._onDidChangeTreeData.event;
     protected treeData: FeatureNode = { name: 'Root', children: [] }; // Initialize with an empty tree
+    protected readonly nodeIcons: Record<string, string> = {}; // Codicon per contextValue
 
     abstract get middlewareName(): string;
     abstract get providerName(): string;
@@ -41,6 +42,14 @@ export abstract class TreeDataProvider implements vscode.TreeDataProvider<Featur
         if (element.isHighlighted) {
             treeItem.resourceUri = vscode.Uri.parse(`aglEssentials-highlighted:${element.name}`);
         }
+
+        const icon = element.contextValue ? this.nodeIcons[element.contextValue] : undefined;
+        if (icon) {
+            treeItem.iconPath = new vscode.ThemeIcon(icon);
+        }
+        if (element.filePath) {
+            treeItem.tooltip = element.filePath;
+        }
         return treeItem;
     }
 
@@ -70,6 +79,16 @@ export abstract class TreeDataProvider implements vscode.TreeDataProvider<Featur
         return findParent(this.treeData, element);
     }
 
+    /**
+     * Command opening a file in preview, at the start of a line when given (1-based)
+     */
+    protected openCommand(filePath: string, lineNumber?: number): Pick<FeatureNode, 'command' | 'arguments'> {
+        const options = lineNumber
+            ? { selection: new vscode.Range(lineNumber - 1, 0, lineNumber - 1, 0), preview: true }
+            : { preview: true };
+        return { command: 'vscode.open', arguments: [vscode.Uri.file(filePath), options] };
+    }
+
     fire(node?: FeatureNode) {
         this._onDidChangeTreeData.fire(node);
     }
@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+
+/** Source files that can take part in a flow analysis */
+const ANALYZED_FILE_GLOB = '**/*.{js,ts,mjs,cjs}';
+
+/** Delay used to batch bursts of file events (e.g. git checkout, format on save) */
+const DEBOUNCE_MS = 300;
+
+/**
+ * Watches analyzable source files in the workspace and reports changed paths in batches.
+ * Consumers (e.g. Flow Analyzer panels) use the batches to invalidate only the
+ * affected components instead of re-running the whole analysis.
+ */
+export class AnalysisFileWatcher implements vscode.Disposable {
+  private readonly _onDidChangeFiles = new vscode.EventEmitter<string[]>();
+  readonly onDidChangeFiles: vscode.Event<string[]> = this._onDidChangeFiles.event;
+
+  private pendingPaths = new Set<string>();
+  private debounceTimer: NodeJS.Timeout | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(workspaceFolder: string) {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(workspaceFolder, ANALYZED_FILE_GLOB)
+    );
+
+    this.disposables.push(
+      watcher,
+      watcher.onDidChange(uri => this.queue(uri)),
+      watcher.onDidCreate(uri => this.queue(uri)),
+      watcher.onDidDelete(uri => this.queue(uri)),
+      // Saves are also reported by the watcher, but not for files outside of it (e.g. excluded folders)
+      vscode.workspace.onDidSaveTextDocument(document => this.queue(document.uri))
+    );
+  }
+
+  private queue(uri: vscode.Uri): void {
+    if (uri.scheme !== 'file') {
+      return;
+    }
+
+    this.pendingPaths.add(uri.fsPath);
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => this.flush(), DEBOUNCE_MS);
+  }
+
+  private flush(): void {
+    this.debounceTimer = undefined;
+    if (this.pendingPaths.size === 0) {
+      return;
+    }
+
+    const paths = Array.from(this.pendingPaths);
+    this.pendingPaths.clear();
+    this._onDidChangeFiles.fire(paths);
+  }
+
+  dispose(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.pendingPaths.clear();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+    this._onDidChangeFiles.dispose();
+  }
+}
@@ -1,6 +1,9 @@
 import * as fs from 'fs';
 import * as vscode from 'vscode';
+import { FlowAnalysisSerializer } from '../analyzers/flow-analysis-serializer';
 import { deriveTestFilePath } from '../shared';
+import { ROUTE_TESTER_SCOPE, RouteTestRequest } from '../webview-panels/route-tester-panel';
+import { AnalysisFileWatcher } from './analysis-file-watcher';
 import { EndpointSearchService } from './endpoint-search-service';
 import { FeatureViewerManager } from './feature-viewer-manager';
 import { ProviderManager } from './provider-manager';
@@ -13,9 +16,10 @@ export class CommandService implements vscode.Disposable {
     constructor(
         private workspaceFolder: string, 
         providerManager: ProviderManager, 
-        context: vscode.ExtensionContext
+        context: vscode.ExtensionContext,
+        fileWatcher?: AnalysisFileWatcher
     ) {
-        this.featureViewerManager = new FeatureViewerManager(workspaceFolder, context, providerManager);
+        this.featureViewerManager = new FeatureViewerManager(workspaceFolder, context, providerManager, fileWatcher);
     }
 
     registerCommands(viewManager: ViewManager, providerManager: ProviderManager) {
@@ -26,7 +30,9 @@ export class CommandService implements vscode.Disposable {
             this.registerOpenCustomPanicConfigCommand(),
             this.registerOpenEndpointDetailsCommand(),
             this.registerAnalyzeEndpointFlowCommand(),
+            this.registerImportFlowAnalysisCommand(),
             this.registerSearchInEndpointCommand(),
+            this.registerTestRouteCommand(),
             this.registerHighlightNodeCommand(viewManager, providerManager),
             this.registerGoToUnitTestFileCommand()
         );
@@ -99,6 +105,32 @@ export class CommandService implements vscode.Disposable {
         });
     }
 
+    private registerImportFlowAnalysisCommand(): vscode.Disposable {
+        return vscode.commands.registerCommand('aglEssentials.importFlowAnalysis', async (uri?: vscode.Uri) => {
+            // From the explorer context menu the file is given; otherwise ask for it
+            const fileUri = uri ?? (await vscode.window.showOpenDialog({
+                defaultUri: vscode.Uri.file(this.workspaceFolder),
+                filters: { 'Flow Analysis': ['json'] },
+                openLabel: 'Import Analysis'
+            }))?.[0];
+            if (!fileUri) {
+                return;
+            }
+
+            try {
+                const data = JSON.parse(fs.readFileSync(fileUri.fsPath, 'utf-8'));
+                const imported = new FlowAnalysisSerializer(this.workspaceFolder).deserialize(data);
+                this.featureViewerManager.openFeatureViewer(
+                    'flow-analyzer',
+                    { ...imported, filePath: fileUri.fsPath },
+                    imported.middlewareName
+                );
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to import flow analysis: ${error.message}`);
+            }
+        });
+    }
+
     private registerSearchInEndpointCommand(): vscode.Disposable {
         return vscode.commands.registerCommand('aglEssentials.searchInEndpoint', async (arg1, arg2) => {
             // Support two calling patterns:
@@ -140,6 +172,12 @@ export class CommandService implements vscode.Disposable {
         });
     }
 
+    private registerTestRouteCommand(): vscode.Disposable {
+        return vscode.commands.registerCommand('aglEssentials.testRoute', (request?: RouteTestRequest) => {
+            this.featureViewerManager.openFeatureViewer('route-tester', request, ROUTE_TESTER_SCOPE);
+        });
+    }
+
     private registerHighlightNodeCommand(viewManager: ViewManager, providerManager: ProviderManager): vscode.Disposable {
         return vscode.commands.registerCommand('aglEssentials.highlightNode', (mapperName: string, middlewareName: string) => {
             const mapperTreeDataProvider = providerManager.getMapperTreeDataProvider(middlewareName);
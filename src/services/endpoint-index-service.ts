@@ -0,0 +1,481 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ANALYZER_VERSION } from '../analyzers/analysis-cache-store';
+import { EndpointSummarizer } from '../analyzers/endpoint-summarizer';
+import {
+  EndpointConfig,
+  EndpointSummary,
+  IndexedComponent,
+  IndexedExternalCall
+} from '../models/flow-analyzer-types';
+import { CONFIG_PREFIX, normalizePath, readCustomRoutes, resolveMiddlewareFilePath } from '../shared';
+import { AnalysisFileWatcher } from './analysis-file-watcher';
+import { FlowAnalysisWorkerClient } from './flow-analysis-worker-client';
+
+/** Command of the status bar item */
+const REBUILD_COMMAND = 'aglEssentials.rebuildEndpointIndex';
+
+/** Index file in the extension storage */
+const INDEX_FILE_NAME = 'endpoint-index.json';
+
+/** Version of the EndpointSummary format; persisted indexes of other versions are dropped */
+const SUMMARY_VERSION = 2;
+
+/** Endpoint definitions of every middleware */
+const ROUTES_GLOB = `${CONFIG_PREFIX}*/files/customRoutes.json`;
+
+/** Delay before indexing starts, so activation and the first panel analyses come first */
+const START_DELAY_MS = 5000;
+
+/** While indexing, the index is saved and listeners are notified after every batch of this many endpoints */
+const NOTIFY_EVERY = 25;
+
+/**
+ * Index file content
+ */
+interface PersistedIndex {
+  analyzerVersion: string;
+  summaryVersion: number;
+  optionsKey: string;      // Analyzer options the summaries were produced with
+  summaries: EndpointSummary[];
+}
+
+/**
+ * Endpoints whose analysis includes a file
+ */
+export interface FileUsage {
+  endpoints: EndpointSummary[];
+  exports: {
+    name: string;
+    line: number;
+    endpoints: EndpointSummary[];   // Endpoints reaching the exported function
+  }[];
+}
+
+/**
+ * Endpoints reaching an external call template or URL
+ */
+export interface ExternalCallUsage {
+  type: string;
+  target: string;           // Template name or URL
+  endpoints: {
+    summary: EndpointSummary;
+    calls: { call: IndexedExternalCall; callPath: IndexedComponent[] }[];   // Call sites, with their path from the middleware
+  }[];
+}
+
+interface QueuedEndpoint {
+  middlewareName: string;
+  endpoint: EndpointConfig;
+}
+
+/**
+ * Background index of every endpoint in every agl-config-* customRoutes.json.
+ *
+ * Each endpoint is analyzed (normal mode) in a worker and reduced to an EndpointSummary.
+ * The index is persisted in workspace storage and refreshed incrementally: on startup and when
+ * files change, only endpoints whose customRoutes.json entry or analyzed files changed are re-analyzed.
+ * Endpoints are analyzed one at a time; idle workers are stopped (unchanged files then come from
+ * the persistent analysis cache).
+ */
+export class EndpointIndexService implements vscode.Disposable {
+  private readonly _onDidChangeIndex = new vscode.EventEmitter<void>();
+  readonly onDidChangeIndex: vscode.Event<void> = this._onDidChangeIndex.event;
+
+  private readonly summarizer = new EndpointSummarizer();
+  private readonly statusBarItem: vscode.StatusBarItem;
+  private readonly storagePath: string;
+  private summaries = new Map<string, EndpointSummary>();
+  private clients = new Map<string, FlowAnalysisWorkerClient>();   // By middleware
+  private queue = new Map<string, QueuedEndpoint>();               // By summary key, in analysis order
+  private processing = false;
+  private processed = 0;    // Endpoints analyzed since the queue was last empty
+  private started = false;
+  private disposed = false;
+  private startTimer: NodeJS.Timeout | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly workspaceFolder: string,
+    private readonly middlewareNames: string[],
+    private readonly context: vscode.ExtensionContext,
+    fileWatcher: AnalysisFileWatcher
+  ) {
+    this.storagePath = (context.storageUri ?? context.globalStorageUri).fsPath;
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 49);
+    this.statusBarItem.command = REBUILD_COMMAND;
+
+    const routesWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceFolder, ROUTES_GLOB));
+    this.disposables.push(
+      this.statusBarItem,
+      routesWatcher,
+      routesWatcher.onDidChange(uri => this.handleRoutesChanged(uri)),
+      routesWatcher.onDidCreate(uri => this.handleRoutesChanged(uri)),
+      routesWatcher.onDidDelete(uri => this.handleRoutesChanged(uri)),
+      fileWatcher.onDidChangeFiles(paths => this.handleFilesChanged(paths)),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('aglEssentials.indexEndpoints')) {
+          this.isEnabled() ? this.start() : this.stop();
+        } else if (e.affectsConfiguration('aglEssentials.analyzablePackages')
+          || e.affectsConfiguration('aglEssentials.librarySources')) {
+          this.handleAnalyzerOptionsChanged();
+        }
+      }),
+      vscode.commands.registerCommand(REBUILD_COMMAND, () => this.rebuild())
+    );
+
+    if (this.isEnabled()) {
+      this.startTimer = setTimeout(() => this.start(), START_DELAY_MS);
+    }
+  }
+
+  /**
+   * Summaries of all indexed endpoints (the index may still be building, see isIndexing)
+   */
+  public getSummaries(): EndpointSummary[] {
+    return Array.from(this.summaries.values());
+  }
+
+  /**
+   * Find the endpoints that use a file, and which of its exported functions they reach
+   * @returns undefined when no indexed endpoint uses the file
+   */
+  public getFileUsage(filePath: string): FileUsage | undefined {
+    const target = normalizePath(filePath);
+    const endpoints: EndpointSummary[] = [];
+    const exports = new Map<string, { name: string; line: number; endpoints: Set<EndpointSummary> }>();
+
+    for (const summary of this.summaries.values()) {
+      const components = summary.components.filter(comp => normalizePath(comp.filePath) === target);
+      if (components.length === 0) {
+        continue;
+      }
+      endpoints.push(summary);
+
+      // A file can be used several times, reaching different functions each time
+      for (const comp of components) {
+        for (const exported of comp.exports ?? []) {
+          let usage = exports.get(exported.name);
+          if (!usage) {
+            usage = { name: exported.name, line: exported.line, endpoints: new Set() };
+            exports.set(exported.name, usage);
+          }
+          if (!comp.calledFunctions || comp.calledFunctions.includes(exported.localName)) {
+            usage.endpoints.add(summary);
+          }
+        }
+      }
+    }
+
+    if (endpoints.length === 0) {
+      return undefined;
+    }
+    return {
+      endpoints,
+      exports: Array.from(exports.values(), usage => ({ ...usage, endpoints: Array.from(usage.endpoints) }))
+    };
+  }
+
+  /**
+   * Group the external calls of all endpoints by call type and template / URL.
+   * Calls that can use several templates are listed under each of them; calls without a known target are left out.
+   */
+  public getExternalCallUsages(): ExternalCallUsage[] {
+    const usages = new Map<string, ExternalCallUsage>();
+    for (const summary of this.summaries.values()) {
+      for (const call of summary.externalCalls) {
+        const targets = call.templateNames?.length ? call.templateNames : call.target ? [call.target] : [];
+        for (const target of targets) {
+          const usageKey = `${call.type}\0${target}`;
+          let usage = usages.get(usageKey);
+          if (!usage) {
+            usage = { type: call.type, target, endpoints: [] };
+            usages.set(usageKey, usage);
+          }
+          let endpointUsage = usage.endpoints.find(candidate => candidate.summary === summary);
+          if (!endpointUsage) {
+            endpointUsage = { summary, calls: [] };
+            usage.endpoints.push(endpointUsage);
+          }
+          endpointUsage.calls.push({ call, callPath: this.summarizer.getCallPath(summary, call) });
+        }
+      }
+    }
+    return Array.from(usages.values())
+      .sort((a, b) => a.type.localeCompare(b.type) || a.target.localeCompare(b.target));
+  }
+
+  public get isIndexing(): boolean {
+    return this.processing;
+  }
+
+  /**
+   * Drop the index and analyze every endpoint again
+   */
+  public rebuild(): void {
+    if (!this.isEnabled()) {
+      vscode.window.showInformationMessage('The endpoint index is disabled (aglEssentials.indexEndpoints).');
+      return;
+    }
+    this.summaries.clear();
+    this.queue.clear();
+    this._onDidChangeIndex.fire();
+    this.started = true;
+    this.statusBarItem.show();
+    this.refresh(this.middlewareNames);
+  }
+
+  public dispose(): void {
+    this.disposed = true;
+    if (this.startTimer) {
+      clearTimeout(this.startTimer);
+    }
+    this.queue.clear();
+    this.clients.forEach(client => client.dispose());
+    this.clients.clear();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+    this._onDidChangeIndex.dispose();
+  }
+
+  private isEnabled(): boolean {
+    return vscode.workspace.getConfiguration('aglEssentials').get<boolean>('indexEndpoints', true);
+  }
+
+  /**
+   * Load the persisted index, then re-analyze the endpoints that changed since
+   */
+  private start(): void {
+    if (this.started || this.disposed) {
+      return;
+    }
+    this.started = true;
+    this.load();
+    this.statusBarItem.show();
+    this.updateStatusBar();
+    this.refresh(this.middlewareNames);
+  }
+
+  private stop(): void {
+    if (this.startTimer) {
+      clearTimeout(this.startTimer);
+      this.startTimer = undefined;
+    }
+    this.started = false;
+    this.queue.clear();
+    this.clients.forEach(client => client.dispose());
+    this.clients.clear();
+    this.statusBarItem.hide();
+  }
+
+  /**
+   * Queue the new and changed endpoints of some middlewares, and drop the removed ones
+   */
+  private refresh(middlewareNames: string[]): void {
+    let removed = false;
+    for (const middlewareName of middlewareNames) {
+      let endpoints: EndpointConfig[] = [];
+      try {
+        endpoints = readCustomRoutes(this.workspaceFolder, middlewareName);
+      } catch (error) {
+        console.error(`Endpoint index: cannot read the endpoints of ${middlewareName}:`, error);
+      }
+
+      const keys = new Set<string>();
+      for (const endpoint of endpoints) {
+        const key = EndpointSummarizer.getKey(middlewareName, endpoint);
+        keys.add(key);
+        const summary = this.summaries.get(key);
+        if (!summary || !this.summarizer.isUpToDate(summary, endpoint)) {
+          this.queue.set(key, { middlewareName, endpoint });
+        }
+      }
+
+      for (const [key, summary] of this.summaries) {
+        if (summary.middlewareName === middlewareName && !keys.has(key)) {
+          this.summaries.delete(key);
+          removed = true;
+        }
+      }
+    }
+
+    if (removed) {
+      this.save();
+      this._onDidChangeIndex.fire();
+    }
+    this.processQueue();
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.processing || this.queue.size === 0) {
+      return;
+    }
+
+    this.processing = true;
+    this.processed = 0;
+    try {
+      while (this.queue.size > 0 && !this.disposed) {
+        const [key, { middlewareName, endpoint }] = this.queue.entries().next().value!;
+        this.queue.delete(key);
+        this.updateStatusBar();
+
+        const summary = await this.analyze(middlewareName, endpoint);
+        if (summary && this.started) {
+          this.summaries.set(key, summary);
+        }
+        if (++this.processed % NOTIFY_EVERY === 0) {
+          this.save();
+          this._onDidChangeIndex.fire();
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+
+    if (this.disposed) {
+      return;
+    }
+    // Free the workers' memory until the next change
+    this.clients.forEach(client => client.cancel());
+    this.save();
+    this.updateStatusBar();
+    this._onDidChangeIndex.fire();
+  }
+
+  /**
+   * @returns The endpoint's summary, or undefined when the analysis was cancelled
+   */
+  private async analyze(middlewareName: string, endpoint: EndpointConfig): Promise<EndpointSummary | undefined> {
+    try {
+      const result = await this.getClient(middlewareName).analyze(endpoint);
+      return result && this.summarizer.summarize(middlewareName, result);
+    } catch (error: any) {
+      console.error(`Endpoint index: failed to analyze ${EndpointSummarizer.getKey(middlewareName, endpoint)}:`, error);
+      const middlewarePaths = (endpoint.middleware ?? [])
+        .map(mw => resolveMiddlewareFilePath(this.workspaceFolder, middlewareName, mw))
+        .filter((filePath): filePath is string => !!filePath);
+      return this.summarizer.summarizeFailure(middlewareName, endpoint, middlewarePaths, error?.message ?? String(error));
+    }
+  }
+
+  private getClient(middlewareName: string): FlowAnalysisWorkerClient {
+    let client = this.clients.get(middlewareName);
+    if (!client) {
+      client = new FlowAnalysisWorkerClient(this.context.extensionPath, {
+        workspaceFolder: this.workspaceFolder,
+        middlewareName,
+        options: FlowAnalysisWorkerClient.getAnalyzerOptions(this.context)
+      });
+      this.clients.set(middlewareName, client);
+    }
+    return client;
+  }
+
+  /**
+   * Key of the options that change analysis results
+   */
+  private getOptionsKey(): string {
+    const { analyzablePackages, librarySources } = FlowAnalysisWorkerClient.getAnalyzerOptions(this.context);
+    return JSON.stringify({ analyzablePackages, librarySources });
+  }
+
+  /**
+   * Re-analyze the endpoints that use a changed file
+   */
+  private handleFilesChanged(changedPaths: string[]): void {
+    if (!this.started) {
+      return;
+    }
+
+    // Running workers keep parsed files in memory
+    for (const client of this.clients.values()) {
+      client.invalidate(changedPaths).catch(error => console.error('Endpoint index: invalidation failed:', error));
+    }
+
+    const changed = new Set(changedPaths.map(normalizePath));
+    for (const [key, summary] of this.summaries) {
+      if (Object.keys(summary.files).some(filePath => changed.has(normalizePath(filePath)))) {
+        this.queue.set(key, { middlewareName: summary.middlewareName, endpoint: summary.endpoint });
+      }
+    }
+    this.processQueue();
+  }
+
+  private handleRoutesChanged(uri: vscode.Uri): void {
+    // <workspace>/agl-config-<middleware>/files/customRoutes.json
+    const middlewareName = path.basename(path.dirname(path.dirname(uri.fsPath))).slice(CONFIG_PREFIX.length);
+    if (this.started && this.middlewareNames.includes(middlewareName)) {
+      this.refresh([middlewareName]);
+    }
+  }
+
+  private handleAnalyzerOptionsChanged(): void {
+    if (!this.started) {
+      return;
+    }
+    const options = FlowAnalysisWorkerClient.getAnalyzerOptions(this.context);
+    this.clients.forEach(client => client.setOptions(options));
+    this.rebuild();
+  }
+
+  private load(): void {
+    const indexPath = path.join(this.storagePath, INDEX_FILE_NAME);
+    if (!fs.existsSync(indexPath)) {
+      return;
+    }
+
+    try {
+      const persisted: PersistedIndex = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+      if (persisted.analyzerVersion === ANALYZER_VERSION
+        && persisted.summaryVersion === SUMMARY_VERSION
+        && persisted.optionsKey === this.getOptionsKey()) {
+        this.summaries = new Map(persisted.summaries.map(summary => [summary.key, summary]));
+        this._onDidChangeIndex.fire();
+      }
+    } catch (error) {
+      console.error('Endpoint index: failed to read the persisted index:', error);
+    }
+  }
+
+  private save(): void {
+    const persisted: PersistedIndex = {
+      analyzerVersion: ANALYZER_VERSION,
+      summaryVersion: SUMMARY_VERSION,
+      optionsKey: this.getOptionsKey(),
+      summaries: this.getSummaries()
+    };
+    try {
+      fs.mkdirSync(this.storagePath, { recursive: true });
+      fs.writeFileSync(path.join(this.storagePath, INDEX_FILE_NAME), JSON.stringify(persisted), 'utf-8');
+    } catch (error) {
+      console.error('Endpoint index: failed to write the index:', error);
+    }
+  }
+
+  private updateStatusBar(): void {
+    if (this.processing) {
+      const total = this.processed + this.queue.size + 1;
+      this.statusBarItem.text = `$(sync~spin) AGL index ${this.processed + 1}/${total}`;
+      this.statusBarItem.tooltip = `Indexing the endpoints of ${this.middlewareNames.length} middleware(s)`;
+      return;
+    }
+
+    const summaries = this.getSummaries();
+    const failed = summaries.filter(summary => summary.error);
+    this.statusBarItem.text = `${failed.length > 0 ? '$(warning)' : '$(database)'} AGL index`;
+
+    const tooltip = new vscode.MarkdownString('**AGL endpoint index** (click to rebuild)\n\n');
+    for (const middlewareName of this.middlewareNames) {
+      const count = summaries.filter(summary => summary.middlewareName === middlewareName).length;
+      tooltip.appendMarkdown(`- \`${middlewareName}\`: ${count} endpoint(s)\n`);
+    }
+    if (failed.length > 0) {
+      tooltip.appendMarkdown(`\n${failed.length} endpoint(s) could not be analyzed:\n`);
+      for (const summary of failed.slice(0, 10)) {
+        tooltip.appendMarkdown(`- \`${summary.key}\`: ${summary.error}\n`);
+      }
+    }
+    this.statusBarItem.tooltip = tooltip;
+  }
+}
@@ -4,6 +4,8 @@ import { EndpointPanel } from '../webview-panels/endpoint-panel';
 import { FlowAnalyzerPanel } from '../webview-panels/flow-analyzer-panel';
 import { JsonConfigPanel } from '../webview-panels/json-config-panel';
 import { MapperPanel } from '../webview-panels/mapper-panel';
+import { RouteTesterPanel } from '../webview-panels/route-tester-panel';
+import { AnalysisFileWatcher } from './analysis-file-watcher';
 import { ProviderManager } from './provider-manager';
 
 export class FeatureViewerManager {
@@ -12,7 +14,8 @@ export class FeatureViewerManager {
     constructor(
         private workspaceFolder: string,
         private context: vscode.ExtensionContext,
-        private providerManager: ProviderManager
+        private providerManager: ProviderManager,
+        private fileWatcher?: AnalysisFileWatcher
     ) {
     }
 
@@ -23,11 +26,13 @@ export class FeatureViewerManager {
             case 'endpoint-viewer':
                 return new EndpointPanel(this.workspaceFolder, middlewareName, this.context, this);
             case 'flow-analyzer':
-                return new FlowAnalyzerPanel(this.workspaceFolder, middlewareName, this.context);
+                return new FlowAnalyzerPanel(this.workspaceFolder, middlewareName, this.context, this.fileWatcher);
             case 'mware-config':
                 return new JsonConfigPanel(this.workspaceFolder, middlewareName,'mWareConfig', this.context);
             case 'custom-panic-config':
                 return new JsonConfigPanel(this.workspaceFolder, middlewareName, 'customPanicConfig', this.context);
+            case 'route-tester':
+                return new RouteTesterPanel(this.workspaceFolder, this.context, this);
             default:
                 throw new Error(`Unknown feature name: ${featureName}`);
         }
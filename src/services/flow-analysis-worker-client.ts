@@ -0,0 +1,189 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Worker } from 'worker_threads';
+import { AnalysisCacheStore } from '../analyzers/analysis-cache-store';
+import {
+  AnalyzerOptions,
+  EndpointConfig,
+  FlowAnalysisMode,
+  FlowAnalysisProgress,
+  FlowAnalysisResult,
+  FlowAnalysisWorkerData,
+  FlowAnalysisWorkerRequest,
+  FlowAnalysisWorkerResponse,
+  LibrarySource
+} from '../models/flow-analyzer-types';
+
+/** Bundled worker script, relative to the extension root */
+const WORKER_SCRIPT = path.join('out', 'flow-analysis-worker.js');
+
+interface PendingRequest {
+  resolve: (response: FlowAnalysisWorkerResponse | undefined) => void;
+  onProgress?: (progress: FlowAnalysisProgress) => void;
+}
+
+/**
+ * Runs flow analyses in a worker thread so the extension host stays responsive.
+ *
+ * The worker is spawned lazily and keeps its analyzer cache between requests.
+ * Cancelling terminates the worker; the next request spawns a fresh one
+ * (unchanged files are then served from the persistent analysis cache).
+ */
+export class FlowAnalysisWorkerClient implements vscode.Disposable {
+  private worker: Worker | undefined;
+  private nextRequestId = 1;
+  private pending = new Map<number, PendingRequest>();
+
+  constructor(
+    private readonly extensionPath: string,
+    private workerData: FlowAnalysisWorkerData
+  ) {}
+
+  /**
+   * Worker analyzer options from the extension settings, the same for every analysis of the extension.
+   * Per-file results persist in workspace storage so they survive window reloads.
+   */
+  static getAnalyzerOptions(context: vscode.ExtensionContext): AnalyzerOptions {
+    const config = vscode.workspace.getConfiguration('aglEssentials');
+    return {
+      cacheDir: AnalysisCacheStore.forStorage((context.storageUri ?? context.globalStorageUri).fsPath).getCacheRoot(),
+      analyzablePackages: config.get<string[]>('analyzablePackages', []),
+      librarySources: config.get<Record<string, LibrarySource>>('librarySources', {})
+    };
+  }
+
+  /**
+   * Analyze an endpoint in the worker
+   * @returns The analysis result, or undefined when the analysis was cancelled
+   */
+  public async analyze(
+    endpoint: EndpointConfig,
+    onProgress?: (progress: FlowAnalysisProgress) => void,
+    token?: vscode.CancellationToken,
+    mode: FlowAnalysisMode = 'normal'
+  ): Promise<FlowAnalysisResult | undefined> {
+    const cancellation = token?.onCancellationRequested(() => this.cancel());
+    try {
+      const response = await this.request(
+        requestId => ({ type: 'analyze', requestId, endpoint, mode }),
+        onProgress
+      );
+      return response?.type === 'result' ? response.result : undefined;
+    } finally {
+      cancellation?.dispose();
+    }
+  }
+
+  /**
+   * Invalidate cached results in the worker for changed files
+   * @returns The invalidated file paths (empty when no worker is running)
+   */
+  public async invalidate(filePaths: string[]): Promise<string[]> {
+    if (!this.worker) {
+      return [];
+    }
+
+    const response = await this.request(requestId => ({ type: 'invalidate', requestId, filePaths }));
+    return response?.type === 'invalidated' ? response.filePaths : [];
+  }
+
+  /**
+   * Abort all running requests by terminating the worker
+   */
+  public cancel(): void {
+    if (!this.worker) {
+      return;
+    }
+
+    const worker = this.worker;
+    this.worker = undefined;
+    this.settleAll();
+    worker.terminate();
+  }
+
+  /**
+   * Change the analyzer options. The running worker is stopped (aborting its requests);
+   * the next request starts one with the new options.
+   */
+  public setOptions(options: AnalyzerOptions): void {
+    this.workerData = { ...this.workerData, options };
+    this.cancel();
+  }
+
+  public dispose(): void {
+    this.cancel();
+  }
+
+  private request(
+    createRequest: (requestId: number) => FlowAnalysisWorkerRequest,
+    onProgress?: (progress: FlowAnalysisProgress) => void
+  ): Promise<FlowAnalysisWorkerResponse | undefined> {
+    const worker = this.getWorker();
+    const requestId = this.nextRequestId++;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, {
+        resolve: response => {
+          if (response?.type === 'error') {
+            reject(new Error(response.message));
+          } else {
+            resolve(response);
+          }
+        },
+        onProgress
+      });
+      worker.postMessage(createRequest(requestId));
+    });
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) {
+      return this.worker;
+    }
+
+    const worker = new Worker(path.join(this.extensionPath, WORKER_SCRIPT), {
+      workerData: this.workerData
+    });
+
+    worker.on('message', (response: FlowAnalysisWorkerResponse) => this.handleResponse(response));
+    worker.on('error', error => {
+      console.error('Flow analysis worker failed:', error);
+      this.settleAll({ message: error.message });
+    });
+    worker.on('exit', () => {
+      if (this.worker === worker) {
+        this.worker = undefined;
+        this.settleAll({ message: 'Flow analysis worker exited unexpectedly' });
+      }
+    });
+
+    this.worker = worker;
+    return worker;
+  }
+
+  private handleResponse(response: FlowAnalysisWorkerResponse): void {
+    const pending = this.pending.get(response.requestId);
+    if (!pending) {
+      return;
+    }
+
+    if (response.type === 'progress') {
+      pending.onProgress?.(response.progress);
+      return;
+    }
+
+    this.pending.delete(response.requestId);
+    pending.resolve(response);
+  }
+
+  /**
+   * Settle every pending request: as cancelled, or as failed when an error is given
+   */
+  private settleAll(error?: { message: string }): void {
+    const pending = Array.from(this.pending.entries());
+    this.pending.clear();
+    for (const [requestId, request] of pending) {
+      request.resolve(error ? { type: 'error', requestId, message: error.message } : undefined);
+    }
+  }
+}
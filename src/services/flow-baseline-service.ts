@@ -0,0 +1,164 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { FlowBaselineChecker } from '../analyzers/flow-baseline-checker';
+import { FlowReportGenerator } from '../analyzers/flow-report-generator';
+import { BaselineCheckResult, EndpointConfig, FlowAnalysisMode } from '../models/flow-analyzer-types';
+import { isPanicEnabled } from '../shared';
+import { FlowAnalysisWorkerClient } from './flow-analysis-worker-client';
+
+/**
+ * Commands recording flow baselines (agl-config-<mw>/flow-baselines) and checking the workspace against them.
+ *
+ * Endpoints are analyzed in workers of their own, with the analyzer settings of the Flow Analyzer panels;
+ * the check report opens as a Markdown document (the command line runs the same check in CI).
+ */
+export class FlowBaselineService implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly workspaceFolder: string, private readonly context: vscode.ExtensionContext) {
+    this.disposables.push(
+      vscode.commands.registerCommand('aglEssentials.recordFlowBaseline', (arg1, arg2) => this.recordBaseline(arg1, arg2)),
+      vscode.commands.registerCommand('aglEssentials.checkFlowBaselines', () => this.checkBaselines())
+    );
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+
+  /**
+   * @param arg1 FeatureNode with endpointData (context menu), or the endpoint
+   * @param arg2 Middleware name when arg1 is the endpoint
+   */
+  private async recordBaseline(arg1: any, arg2?: string): Promise<void> {
+    const endpoint: EndpointConfig | undefined = arg1?.endpointData ?? arg1;
+    const middlewareName: string | undefined = arg1?.endpointData ? arg1.arguments?.[1] ?? arg2 : arg2;
+    if (!endpoint?.endpointUri || !middlewareName) {
+      vscode.window.showErrorMessage('Missing endpoint or middleware information');
+      return;
+    }
+
+    let mode: FlowAnalysisMode = 'normal';
+    if (isPanicEnabled(endpoint.panic)) {
+      const picked = await vscode.window.showQuickPick(
+        [
+          { label: 'Normal flow', mode: 'normal' as const },
+          { label: 'Panic path', mode: 'panic' as const }
+        ],
+        { placeHolder: 'Which flow should the baseline record?' }
+      );
+      if (!picked) {
+        return;
+      }
+      mode = picked.mode;
+    }
+
+    const client = this.createClient(middlewareName);
+    try {
+      const result = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Recording the flow baseline of ${endpoint.endpointUri}`, cancellable: true },
+        (_progress, token) => client.analyze(endpoint, undefined, token, mode)
+      );
+      if (!result) {
+        return;
+      }
+
+      const baselinePath = new FlowBaselineChecker(this.workspaceFolder, middlewareName).record(result);
+      const action = await vscode.window.showInformationMessage(
+        `Flow baseline recorded in ${path.relative(this.workspaceFolder, baselinePath)}. Commit it with the config repo.`,
+        'Open Baseline'
+      );
+      if (action) {
+        await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(baselinePath));
+      }
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to record the flow baseline: ${error.message}`);
+    } finally {
+      client.dispose();
+    }
+  }
+
+  private async checkBaselines(): Promise<void> {
+    const middlewareNames = FlowBaselineChecker.findMiddlewares(this.workspaceFolder);
+    const baselines = middlewareNames.flatMap(middlewareName =>
+      new FlowBaselineChecker(this.workspaceFolder, middlewareName).listBaselineFiles().map(baselinePath => ({ middlewareName, baselinePath }))
+    );
+    if (baselines.length === 0) {
+      vscode.window.showInformationMessage('No flow baselines found. Record one from the context menu of an endpoint.');
+      return;
+    }
+
+    const results = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Checking flow baselines', cancellable: true },
+      (progress, token) => this.check(baselines, progress, token)
+    );
+    if (!results) {
+      return;
+    }
+
+    const markdown = new FlowReportGenerator(this.workspaceFolder).toBaselineMarkdown(results);
+    const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: markdown });
+    await vscode.window.showTextDocument(document, { preview: false });
+
+    const failedCount = results.filter(result => result.error || result.deviations.length > 0).length;
+    if (failedCount > 0) {
+      vscode.window.showErrorMessage(`${failedCount} of ${results.length} endpoint(s) deviate from their flow baseline.`);
+    } else {
+      vscode.window.showInformationMessage(`All ${results.length} endpoint(s) match their flow baseline.`);
+    }
+  }
+
+  /**
+   * @returns undefined when cancelled
+   */
+  private async check(
+    baselines: { middlewareName: string; baselinePath: string }[],
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+  ): Promise<BaselineCheckResult[] | undefined> {
+    const clients = new Map<string, FlowAnalysisWorkerClient>();
+    const results: BaselineCheckResult[] = [];
+    try {
+      for (const { middlewareName, baselinePath } of baselines) {
+        if (token.isCancellationRequested) {
+          return undefined;
+        }
+        progress.report({ message: path.basename(baselinePath), increment: 100 / baselines.length });
+
+        const checker = new FlowBaselineChecker(this.workspaceFolder, middlewareName);
+        const checkResult: BaselineCheckResult = { baselinePath, middlewareName, deviations: [] };
+        try {
+          const { baseline, endpoint } = checker.load(baselinePath);
+          checkResult.endpoint = baseline.endpoint;
+          checkResult.mode = baseline.mode;
+
+          let client = clients.get(middlewareName);
+          if (!client) {
+            client = this.createClient(middlewareName);
+            clients.set(middlewareName, client);
+          }
+          const result = await client.analyze(endpoint, undefined, token, baseline.mode);
+          if (!result) {
+            return undefined;
+          }
+          checkResult.deviations = checker.check(baseline, result);
+        } catch (error: any) {
+          checkResult.error = error?.message ?? String(error);
+        }
+        results.push(checkResult);
+      }
+      return results;
+    } finally {
+      clients.forEach(client => client.dispose());
+    }
+  }
+
+  private createClient(middlewareName: string): FlowAnalysisWorkerClient {
+    return new FlowAnalysisWorkerClient(this.context.extensionPath, {
+      workspaceFolder: this.workspaceFolder,
+      middlewareName,
+      options: FlowAnalysisWorkerClient.getAnalyzerOptions(this.context)
+    });
+  }
+}
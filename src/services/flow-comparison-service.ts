@@ -0,0 +1,222 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { FlowAnalysisSerializer } from '../analyzers/flow-analysis-serializer';
+import { TEMPLATE_EXTENSIONS } from '../analyzers/template-index';
+import {
+  AnalyzerOptions,
+  EndpointConfig,
+  FlowAnalysisMode,
+  FlowAnalysisProgress,
+  FlowAnalysisResult
+} from '../models/flow-analyzer-types';
+import { readCustomRoutes } from '../shared';
+import { FlowAnalysisWorkerClient } from './flow-analysis-worker-client';
+import { GitService } from './git-service';
+
+/** Files written to the temporary tree: sources, JSON config and templates */
+const TREE_EXTENSIONS = new Set(['.js', '.cjs', '.mjs', '.ts', '.json', ...TEMPLATE_EXTENSIONS]);
+
+/**
+ * Analysis of an endpoint at a git ref
+ */
+export interface RevisionAnalysis {
+  result: FlowAnalysisResult;       // With the paths of the workspace
+  skippedRepositories: string[];    // Repositories without the ref (analyzed as in the working tree)
+  routeMissing: boolean;            // The endpoint is not in customRoutes.json at the ref
+}
+
+/**
+ * Analyzes an endpoint as it was at another git ref.
+ *
+ * Every workspace repository that has the ref is written to a temporary workspace with `git show`;
+ * the other folders (repositories without the ref, node_modules) are linked to the working copy.
+ * The analysis runs in a worker of its own on that tree (without the persistent cache), and the
+ * paths of the result are mapped back to the workspace so it can be compared with the current analysis.
+ * The tree is kept until the next comparison, so files that no longer exist can still be opened.
+ * Starting a comparison cancels the one still running; each run removes its own tree unless it completes.
+ */
+export class FlowComparisonService implements vscode.Disposable {
+  private readonly gitService: GitService;
+  private treeFolder: string | undefined;           // Tree of the last completed comparison
+  private running: vscode.CancellationTokenSource | undefined;
+
+  constructor(
+    private readonly workspaceFolder: string,
+    private readonly middlewareName: string,
+    private readonly extensionPath: string
+  ) {
+    this.gitService = new GitService(workspaceFolder);
+  }
+
+  /**
+   * Branches and tags of the workspace repositories
+   */
+  public async listRefs(): Promise<{ branches: string[]; tags: string[] }> {
+    const branches = new Set<string>();
+    const tags = new Set<string>();
+    for (const repository of this.gitService.findRepositories()) {
+      try {
+        (await this.gitService.listBranches(repository)).forEach(branch => branches.add(branch));
+        (await this.gitService.listTags(repository)).forEach(tag => tags.add(tag));
+      } catch (error) {
+        console.error(`Failed to list the refs of ${repository}:`, error);
+      }
+    }
+    return { branches: Array.from(branches).sort(), tags: Array.from(tags) };
+  }
+
+  /**
+   * Analyze an endpoint at a ref, with its customRoutes.json entry at that ref when it has one
+   * @returns undefined when cancelled
+   * @throws When no repository of the workspace has the ref
+   */
+  public async analyzeAtRef(
+    endpoint: EndpointConfig,
+    ref: string,
+    mode: FlowAnalysisMode,
+    options: AnalyzerOptions,
+    onProgress?: (progress: FlowAnalysisProgress) => void,
+    token?: vscode.CancellationToken
+  ): Promise<RevisionAnalysis | undefined> {
+    this.running?.cancel();
+    const run = new vscode.CancellationTokenSource();
+    this.running = run;
+    const cancellation = token?.onCancellationRequested(() => run.cancel());
+
+    // Resolved like the library clones (realpath), so every analyzed path shares the tree prefix (/var → /private/var on macOS)
+    const treeFolder = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'agl-flow-compare-')));
+    let client: FlowAnalysisWorkerClient | undefined;
+    let completed = false;
+    try {
+      const skippedRepositories = await this.writeTree(ref, treeFolder, run.token);
+      if (run.token.isCancellationRequested) {
+        return undefined;
+      }
+
+      const baseEndpoint = this.findRoute(treeFolder, endpoint);
+      client = new FlowAnalysisWorkerClient(this.extensionPath, {
+        workspaceFolder: treeFolder,
+        middlewareName: this.middlewareName,
+        options: { ...options, cacheDir: undefined }
+      });
+      const result = await client.analyze(baseEndpoint ?? endpoint, onProgress, run.token, mode);
+      if (!result || run.token.isCancellationRequested) {
+        return undefined;
+      }
+      // The export format has workspace-relative paths: serialize against the tree, restore against the workspace
+      const exported = new FlowAnalysisSerializer(treeFolder).serialize(result, this.middlewareName);
+      const analysis: RevisionAnalysis = {
+        result: new FlowAnalysisSerializer(this.workspaceFolder).deserialize(exported).result,
+        skippedRepositories,
+        routeMissing: !baseEndpoint
+      };
+
+      this.removeTree();
+      this.treeFolder = treeFolder;
+      completed = true;
+      return analysis;
+    } finally {
+      client?.dispose();
+      cancellation?.dispose();
+      if (!completed) {
+        fs.rmSync(treeFolder, { recursive: true, force: true });
+      }
+      if (this.running === run) {
+        this.running = undefined;
+      }
+      run.dispose();
+    }
+  }
+
+  /**
+   * Path of a workspace file in the tree of the last ref, if the file exists there
+   */
+  public getRevisionPath(filePath: string): string | undefined {
+    if (!this.treeFolder) {
+      return undefined;
+    }
+    const relativePath = path.relative(this.workspaceFolder, filePath);
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      return undefined;
+    }
+    const revisionPath = path.join(this.treeFolder, relativePath);
+    return fs.existsSync(revisionPath) ? revisionPath : undefined;
+  }
+
+  public dispose(): void {
+    this.running?.cancel();
+    this.running = undefined;
+    this.removeTree();
+  }
+
+  /**
+   * Write the repositories that have the ref, then link everything else
+   * @returns The repositories without the ref
+   */
+  private async writeTree(ref: string, treeFolder: string, token?: vscode.CancellationToken): Promise<string[]> {
+    const repositories = this.gitService.findRepositories();
+    const exported: string[] = [];
+    const skipped: string[] = [];
+    for (const repository of repositories) {
+      if (token?.isCancellationRequested) {
+        break;
+      }
+      if (!(await this.gitService.hasRevision(repository, ref))) {
+        skipped.push(repository);
+        continue;
+      }
+      const targetDir = path.join(treeFolder, path.relative(this.workspaceFolder, repository));
+      await this.gitService.exportRevision(repository, ref, targetDir, file =>
+        TREE_EXTENSIONS.has(path.extname(file).toLowerCase())
+      );
+      exported.push(repository);
+    }
+    if (exported.length === 0 && !token?.isCancellationRequested) {
+      throw new Error(`No repository of the workspace has ${ref}`);
+    }
+
+    for (const repository of exported) {
+      this.link(path.join(repository, 'node_modules'), treeFolder);
+    }
+    for (const entry of fs.readdirSync(this.workspaceFolder)) {
+      this.link(path.join(this.workspaceFolder, entry), treeFolder);
+    }
+    return skipped;
+  }
+
+  /**
+   * Link a workspace file or folder into the tree, unless the tree has it already
+   */
+  private link(source: string, treeFolder: string): void {
+    const target = path.join(treeFolder, path.relative(this.workspaceFolder, source));
+    if (path.basename(source) === '.git' || !fs.existsSync(source) || fs.existsSync(target)) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.symlinkSync(source, target, fs.statSync(source).isDirectory() ? 'junction' : 'file');
+    } catch (error) {
+      console.error(`Failed to link ${source} into the comparison tree:`, error);
+    }
+  }
+
+  private findRoute(treeFolder: string, endpoint: EndpointConfig): EndpointConfig | undefined {
+    try {
+      return readCustomRoutes(treeFolder, this.middlewareName).find(route =>
+        route.endpointUri === endpoint.endpointUri
+        && (route.method ?? 'get').toLowerCase() === (endpoint.method ?? 'get').toLowerCase()
+      );
+    } catch {
+      return undefined;
+    }
+  }
+
+  private removeTree(): void {
+    if (this.treeFolder) {
+      fs.rmSync(this.treeFolder, { recursive: true, force: true });
+      this.treeFolder = undefined;
+    }
+  }
+}
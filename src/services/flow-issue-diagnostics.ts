@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import { ConfigIssue, DataIssue, FlowAnalysisResult } from '../models/flow-analyzer-types';
+
+/** Shown as the source of the diagnostics in the Problems view */
+const DIAGNOSTIC_SOURCE = 'AGL Flow Analyzer';
+
+/** Severity of each issue kind */
+const SEVERITIES: Record<DataIssue['kind'] | ConfigIssue['kind'], vscode.DiagnosticSeverity> = {
+  readBeforeWrite: vscode.DiagnosticSeverity.Warning,
+  unusedWrite: vscode.DiagnosticSeverity.Information,
+  missingKey: vscode.DiagnosticSeverity.Warning,
+  possibleTypo: vscode.DiagnosticSeverity.Warning,
+  unusedKey: vscode.DiagnosticSeverity.Information
+};
+
+/**
+ * Publishes the data and config issues of an analyzed endpoint as Problems on the offending lines.
+ * Each publish replaces the previous set, so the Problems view always matches the last analysis.
+ */
+export class FlowIssueDiagnostics implements vscode.Disposable {
+  private readonly collection: vscode.DiagnosticCollection;
+
+  constructor(name: string) {
+    this.collection = vscode.languages.createDiagnosticCollection(name);
+  }
+
+  public publish(result: Pick<FlowAnalysisResult, 'dataIssues' | 'configIssues'>): void {
+    const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+
+    for (const issue of [...result.dataIssues, ...result.configIssues]) {
+      const line = Math.max(issue.lineNumber - 1, 0);
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+        issue.message,
+        SEVERITIES[issue.kind]
+      );
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      diagnostic.code = issue.kind;
+      if (issue.kind === 'unusedKey') {
+        diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+      }
+
+      const diagnostics = diagnosticsByFile.get(issue.filePath) ?? [];
+      diagnostics.push(diagnostic);
+      diagnosticsByFile.set(issue.filePath, diagnostics);
+    }
+
+    this.collection.clear();
+    diagnosticsByFile.forEach((diagnostics, filePath) => {
+      this.collection.set(vscode.Uri.file(filePath), diagnostics);
+    });
+  }
+
+  public clear(): void {
+    this.collection.clear();
+  }
+
+  public dispose(): void {
+    this.collection.dispose();
+  }
+}
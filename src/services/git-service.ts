@@ -0,0 +1,187 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { ChangedFile } from '../models/flow-analyzer-types';
+
+const execFileAsync = promisify(execFile);
+
+/** Output limit of a git command (large diffs, file contents) */
+const MAX_BUFFER = 64 * 1024 * 1024;
+
+/** Files read at once when exporting a revision */
+const EXPORT_CONCURRENCY = 8;
+
+const STATUS_CODES: Record<string, ChangedFile['status']> = {
+  A: 'added',
+  C: 'added',
+  M: 'modified',
+  T: 'modified',
+  D: 'deleted',
+  R: 'renamed'
+};
+
+/**
+ * Changes of one repository
+ */
+export interface RepositoryChanges {
+  repository: string;
+  changes: ChangedFile[];
+  oldRevision: string;      // Commit the changes are compared to
+  newRevision?: string;     // Compared commit; undefined for the working tree
+}
+
+/**
+ * Runs the local git CLI on the repositories of the workspace.
+ *
+ * The workspace folder usually holds one clone per agl-* repo; it can also be a repository itself.
+ * No vscode dependency, so the command line can use it too.
+ */
+export class GitService {
+  constructor(private readonly workspaceFolder: string) {}
+
+  /**
+   * The workspace folder when it is a repository, and every direct sub folder that is one
+   */
+  findRepositories(): string[] {
+    const isRepository = (dir: string) => fs.existsSync(path.join(dir, '.git'));
+    const repositories = isRepository(this.workspaceFolder) ? [this.workspaceFolder] : [];
+    try {
+      for (const entry of fs.readdirSync(this.workspaceFolder, { withFileTypes: true })) {
+        const dir = path.join(this.workspaceFolder, entry.name);
+        if (entry.isDirectory() && !entry.name.startsWith('.') && isRepository(dir)) {
+          repositories.push(dir);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to list the repositories of the workspace:', error);
+    }
+    return repositories;
+  }
+
+  /**
+   * Local and remote-tracking branch names
+   */
+  async listBranches(repository: string): Promise<string[]> {
+    const output = await this.git(repository, ['for-each-ref', '--format=%(refname:short)', 'refs/heads', 'refs/remotes']);
+    return output.split('\n').filter(branch => branch && !branch.endsWith('/HEAD'));
+  }
+
+  async listTags(repository: string): Promise<string[]> {
+    const output = await this.git(repository, ['for-each-ref', '--format=%(refname:short)', '--sort=-creatordate', 'refs/tags']);
+    return output.split('\n').filter(Boolean);
+  }
+
+  async hasRevision(repository: string, revision: string): Promise<boolean> {
+    try {
+      await this.git(repository, ['rev-parse', '--verify', '--quiet', `${revision}^{commit}`]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Changed files of a repository: the working tree (including untracked files) against HEAD,
+   * or HEAD against its merge base with a base branch
+   * @param readContent Whether the content before and after the change is needed for a file
+   */
+  async getChanges(
+    repository: string,
+    baseBranch: string | undefined,
+    readContent: (filePath: string) => boolean
+  ): Promise<RepositoryChanges> {
+    const oldRevision = baseBranch
+      ? (await this.git(repository, ['merge-base', baseBranch, 'HEAD'])).trim()
+      : 'HEAD';
+    const newRevision = baseBranch ? 'HEAD' : undefined;
+
+    const diffArgs = ['diff', '--name-status', '-z', '-M', oldRevision, ...(newRevision ? [newRevision] : [])];
+    const changes = this.parseNameStatus(repository, await this.git(repository, diffArgs));
+    if (!newRevision) {
+      const untracked = await this.git(repository, ['ls-files', '--others', '--exclude-standard', '-z']);
+      for (const file of untracked.split('\0').filter(Boolean)) {
+        changes.push({ filePath: path.join(repository, file), status: 'added' });
+      }
+    }
+
+    for (const change of changes.filter(candidate => readContent(candidate.filePath))) {
+      if (change.status !== 'added') {
+        change.oldContent = await this.readFile(repository, oldRevision, change.oldFilePath ?? change.filePath);
+      }
+      if (change.status !== 'deleted') {
+        change.newContent = await this.readFile(repository, newRevision, change.filePath);
+      }
+    }
+    return { repository, changes, oldRevision, newRevision };
+  }
+
+  /**
+   * Write the files of a revision to a folder, reading each one with `git show`
+   * @param include Whether a file (path relative to the repository) is needed
+   * @returns The number of files written
+   */
+  async exportRevision(
+    repository: string,
+    revision: string,
+    targetDir: string,
+    include: (relativePath: string) => boolean
+  ): Promise<number> {
+    const output = await this.git(repository, ['ls-tree', '-r', '-z', '--name-only', revision]);
+    const files = output.split('\0').filter(file => file && include(file));
+
+    for (let i = 0; i < files.length; i += EXPORT_CONCURRENCY) {
+      await Promise.all(files.slice(i, i + EXPORT_CONCURRENCY).map(async file => {
+        const content = await this.git(repository, ['show', `${revision}:${file}`]);
+        const targetPath = path.join(targetDir, file);
+        await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
+        await fs.promises.writeFile(targetPath, content);
+      }));
+    }
+    return files.length;
+  }
+
+  /**
+   * Content of a file at a revision, or in the working tree when no revision is given
+   */
+  async readFile(repository: string, revision: string | undefined, filePath: string): Promise<string | undefined> {
+    try {
+      if (!revision) {
+        return fs.readFileSync(filePath, 'utf-8');
+      }
+      const relativePath = path.relative(repository, filePath).replace(/\\/g, '/');
+      return await this.git(repository, ['show', `${revision}:${relativePath}`]);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Parse `git diff --name-status -z`: status, then one path (two for renames and copies)
+   */
+  private parseNameStatus(repository: string, output: string): ChangedFile[] {
+    const fields = output.split('\0');
+    const changes: ChangedFile[] = [];
+    for (let i = 0; i < fields.length && fields[i]; ) {
+      const code = fields[i++][0];
+      const status = STATUS_CODES[code] ?? 'modified';
+      if (code === 'R' || code === 'C') {
+        const oldFile = fields[i++];
+        const newFile = fields[i++];
+        changes.push({
+          filePath: path.join(repository, newFile),
+          oldFilePath: code === 'R' ? path.join(repository, oldFile) : undefined,
+          status
+        });
+      } else {
+        changes.push({ filePath: path.join(repository, fields[i++]), status });
+      }
+    }
+    return changes;
+  }
+
+  private async git(repository: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd: repository, maxBuffer: MAX_BUFFER });
+    return stdout;
+  }
+}
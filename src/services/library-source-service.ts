@@ -0,0 +1,165 @@
+import * as vscode from 'vscode';
+import { PathResolver } from '../analyzers/path-resolver';
+import { LibrarySource } from '../models/flow-analyzer-types';
+import { AGL_LIBS } from '../shared';
+
+/** Command of the status bar item */
+const SELECT_COMMAND = 'aglEssentials.selectLibrarySources';
+
+/** package.json files of the library clones and of the libraries installed in the middlewares */
+const MANIFEST_GLOB = '{agl-*/package.json,agl-*-middleware/node_modules/@opus/agl-*/package.json}';
+
+const SOURCE_LABELS: Record<LibrarySource, string> = {
+  'auto': 'Auto (local clone when present)',
+  'local': 'Local clone',
+  'node_modules': 'node_modules'
+};
+
+/**
+ * An AGL library as resolved for each middleware of the workspace
+ */
+interface LibraryStatus {
+  name: string;
+  source: LibrarySource;
+  localVersion?: string;
+  installed: { middlewareName: string; version: string }[];
+  versionMismatch: boolean;
+}
+
+/**
+ * Status bar picker for the source the Flow Analyzer reads each AGL library from
+ * (aglEssentials.librarySources, stored in the workspace settings).
+ *
+ * The item turns into a warning when a workspace clone and the copy installed in a
+ * middleware's node_modules have different versions.
+ */
+export class LibrarySourceService implements vscode.Disposable {
+  private readonly statusBarItem: vscode.StatusBarItem;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly workspaceFolder: string,
+    private readonly middlewareNames: string[]
+  ) {
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+    this.statusBarItem.command = SELECT_COMMAND;
+
+    const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceFolder, MANIFEST_GLOB));
+    this.disposables.push(
+      this.statusBarItem,
+      watcher,
+      watcher.onDidChange(() => this.update()),
+      watcher.onDidCreate(() => this.update()),
+      watcher.onDidDelete(() => this.update()),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('aglEssentials.librarySources')) {
+          this.update();
+        }
+      }),
+      vscode.commands.registerCommand(SELECT_COMMAND, () => this.selectLibrarySource())
+    );
+
+    this.update();
+    this.statusBarItem.show();
+  }
+
+  public dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+
+  private getConfiguredSources(): Record<string, LibrarySource> {
+    return vscode.workspace.getConfiguration('aglEssentials').get<Record<string, LibrarySource>>('librarySources', {});
+  }
+
+  /**
+   * Resolve the libraries for every middleware, merged by library
+   */
+  private getLibraryStatuses(): LibraryStatus[] {
+    const sources = this.getConfiguredSources();
+    const middlewares = this.middlewareNames.map(middlewareName => ({
+      middlewareName,
+      libraries: new PathResolver(this.workspaceFolder, middlewareName, [], sources).getLibraries()
+    }));
+
+    return AGL_LIBS.map(name => {
+      const copies = middlewares.flatMap(({ middlewareName, libraries }) =>
+        libraries.filter(library => library.name === name).map(library => ({ middlewareName, library }))
+      );
+      return {
+        name,
+        source: PathResolver.getLibrarySource(name, sources),
+        localVersion: copies.find(copy => copy.library.localVersion)?.library.localVersion,
+        installed: copies.flatMap(({ middlewareName, library }) =>
+          library.installedVersion ? [{ middlewareName, version: library.installedVersion }] : []
+        ),
+        versionMismatch: copies.some(copy => copy.library.versionMismatch)
+      };
+    });
+  }
+
+  private update(): void {
+    const statuses = this.getLibraryStatuses();
+    const mismatches = statuses.filter(status => status.versionMismatch);
+
+    this.statusBarItem.text = `${mismatches.length > 0 ? '$(warning)' : '$(package)'} AGL libs`;
+    this.statusBarItem.backgroundColor = mismatches.length > 0
+      ? new vscode.ThemeColor('statusBarItem.warningBackground')
+      : undefined;
+
+    const tooltip = new vscode.MarkdownString('**AGL library sources** (click to change)\n\n');
+    for (const status of statuses) {
+      tooltip.appendMarkdown(`- \`${status.name}\`: ${SOURCE_LABELS[status.source]} · ${this.describeVersions(status)}`);
+      tooltip.appendMarkdown(status.versionMismatch ? ' ⚠️ version mismatch\n' : '\n');
+    }
+    this.statusBarItem.tooltip = tooltip;
+  }
+
+  private describeVersions(status: LibraryStatus): string {
+    const local = status.localVersion ? `local clone ${status.localVersion}` : 'no local clone';
+    const installed = status.installed.length > 0
+      ? status.installed.map(copy => `${copy.version} (${copy.middlewareName})`).join(', ')
+      : 'not installed';
+    return `${local} · node_modules ${installed}`;
+  }
+
+  /**
+   * Pick a library, then the source it is analyzed from
+   */
+  private async selectLibrarySource(): Promise<void> {
+    const statuses = this.getLibraryStatuses();
+    const library = await vscode.window.showQuickPick(
+      statuses.map(status => ({
+        label: status.name,
+        description: `${SOURCE_LABELS[status.source]}${status.versionMismatch ? ' $(warning) version mismatch' : ''}`,
+        detail: this.describeVersions(status),
+        status
+      })),
+      { placeHolder: 'Select the AGL library whose source to change' }
+    );
+    if (!library) {
+      return;
+    }
+
+    const source = await vscode.window.showQuickPick(
+      (Object.keys(SOURCE_LABELS) as LibrarySource[]).map(value => ({
+        label: SOURCE_LABELS[value],
+        description: value === library.status.source ? '(current)' : undefined,
+        value
+      })),
+      { placeHolder: `Analyze ${library.status.name} from` }
+    );
+    if (!source || source.value === library.status.source) {
+      return;
+    }
+
+    const sources = { ...this.getConfiguredSources() };
+    if (source.value === 'auto') {
+      delete sources[library.status.name];
+    } else {
+      sources[library.status.name] = source.value;
+    }
+    await vscode.workspace.getConfiguration('aglEssentials')
+      .update('librarySources', sources, vscode.ConfigurationTarget.Workspace);
+  }
+}
@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { RouteMatcher } from '../analyzers/route-matcher';
+import { EndpointConfig, RouteConflictKind } from '../models/flow-analyzer-types';
+import { CONFIG_PREFIX, findEndpointUriOffsets } from '../shared';
+
+/** Endpoint definitions of every middleware */
+const ROUTES_GLOB = `${CONFIG_PREFIX}*/files/customRoutes.json`;
+
+/** Shown as the source of the diagnostics in the Problems view */
+const DIAGNOSTIC_SOURCE = 'AGL Routes';
+
+const CODES: Record<RouteConflictKind, string> = {
+  duplicate: 'duplicateRoute',
+  shadowed: 'shadowedRoute',
+  overlap: 'overlappingRoutes'
+};
+
+/**
+ * Publishes the overlapping and shadowed routes of every customRoutes.json as Problems.
+ *
+ * Each conflict is reported on the `endpointUri` of the later route, with the earlier route (which
+ * Express tries first) as related information. Files are checked on activation and whenever they change.
+ */
+export class RouteConflictDiagnostics implements vscode.Disposable {
+  private readonly collection: vscode.DiagnosticCollection;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(workspaceFolder: string) {
+    this.collection = vscode.languages.createDiagnosticCollection('agl-routes');
+    const pattern = new vscode.RelativePattern(workspaceFolder, ROUTES_GLOB);
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+    this.disposables.push(
+      this.collection,
+      watcher,
+      watcher.onDidChange(uri => this.check(uri)),
+      watcher.onDidCreate(uri => this.check(uri)),
+      watcher.onDidDelete(uri => this.collection.delete(uri))
+    );
+
+    vscode.workspace.findFiles(pattern).then(
+      uris => uris.forEach(uri => this.check(uri)),
+      error => console.error('Failed to find the customRoutes.json files:', error)
+    );
+  }
+
+  public dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+
+  private check(uri: vscode.Uri): void {
+    let content: string;
+    let endpoints: EndpointConfig[];
+    try {
+      content = fs.readFileSync(uri.fsPath, 'utf-8');
+      endpoints = JSON.parse(content);
+    } catch {
+      // Missing or invalid JSON (reported by the JSON language support)
+      this.collection.delete(uri);
+      return;
+    }
+    if (!Array.isArray(endpoints)) {
+      this.collection.delete(uri);
+      return;
+    }
+
+    const ranges = this.findUriRanges(content, endpoints);
+    const diagnostics = new RouteMatcher(endpoints).findConflicts().map(conflict => {
+      const diagnostic = new vscode.Diagnostic(
+        ranges.get(conflict.index) ?? new vscode.Range(0, 0, 0, 0),
+        conflict.message,
+        vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      diagnostic.code = CODES[conflict.kind];
+      if (conflict.kind === 'duplicate') {
+        diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+      }
+      const otherRange = ranges.get(conflict.otherIndex);
+      if (otherRange) {
+        diagnostic.relatedInformation = [new vscode.DiagnosticRelatedInformation(
+          new vscode.Location(uri, otherRange),
+          `Earlier route ${(conflict.otherEndpoint.method ?? 'get').toUpperCase()} ${conflict.otherEndpoint.endpointUri}`
+        )];
+      }
+      return diagnostic;
+    });
+    this.collection.set(uri, diagnostics);
+  }
+
+  /**
+   * Range of the `endpointUri` value of each endpoint, by position in the file
+   */
+  private findUriRanges(content: string, endpoints: EndpointConfig[]): Map<number, vscode.Range> {
+    const lineStarts = [0];
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === '\n') {
+        lineStarts.push(i + 1);
+      }
+    }
+    const toPosition = (offset: number) => {
+      let line = lineStarts.length - 1;
+      while (lineStarts[line] > offset) {
+        line--;
+      }
+      return new vscode.Position(line, offset - lineStarts[line]);
+    };
+
+    const ranges = new Map<number, vscode.Range>();
+    findEndpointUriOffsets(content, endpoints).forEach(({ start, end }, index) => {
+      ranges.set(index, new vscode.Range(toPosition(start), toPosition(end)));
+    });
+    return ranges;
+  }
+}
@@ -63,3 +63,8 @@ export const MIDDLEWARE_PREFIX = 'agl-';
  * Middleware file suffix
  */
 export const MIDDLEWARE_SUFFIX = '-middleware';
+
+/**
+ * Source file extensions that can be analyzed (in resolution order)
+ */
+export const SOURCE_FILE_EXTENSIONS = ['.js', '.ts', '.mjs', '.cjs'] as const;
@@ -3,7 +3,8 @@
  */
 import * as fs from 'fs';
 import * as path from 'path';
-import { AGL_APPS, AGL_LIBS, CONFIG_PREFIX, MIDDLEWARE_PREFIX, MIDDLEWARE_SUFFIX } from './constants';
+import { EndpointConfig } from '../models/flow-analyzer-types';
+import { AGL_APPS, AGL_LIBS, CONFIG_PREFIX, MIDDLEWARE_PREFIX, MIDDLEWARE_SUFFIX, SOURCE_FILE_EXTENSIONS } from './constants';
 
 /**
  * Get the middleware name from a file path
@@ -41,21 +42,14 @@ export function resolveMiddlewareFilePath(
   middlewareName: string,
   relativePath: string
 ): string | undefined {
-  const fullMiddlewareName = getFullMiddlewareName(middlewareName);
+  const basePath = path.join(workspaceFolder, getFullMiddlewareName(middlewareName), relativePath);
   
-  // Try with .js extension first
-  let fullPath = path.join(workspaceFolder, fullMiddlewareName, `${relativePath}.js`);
-  if (fs.existsSync(fullPath)) {
-    return fullPath;
-  }
-  
-  // Try index.js
-  fullPath = path.join(workspaceFolder, fullMiddlewareName, `${relativePath}/index.js`);
-  if (fs.existsSync(fullPath)) {
-    return fullPath;
-  }
-  
-  return undefined;
+  // Try file extensions first (.js first), then index files
+  const candidates = [
+    ...SOURCE_FILE_EXTENSIONS.map(ext => `${basePath}${ext}`),
+    ...SOURCE_FILE_EXTENSIONS.map(ext => path.join(basePath, `index${ext}`))
+  ];
+  return candidates.find(candidate => fs.existsSync(candidate));
 }
 
 /**
@@ -145,3 +139,101 @@ export function normalizePath(pathString: string): string {
   }
   return pathString;
 }
+
+/**
+ * Read the endpoints of a middleware from its customRoutes.json
+ * @param workspaceFolder - The workspace folder path
+ * @param middlewareName - The middleware name (e.g., 'content')
+ * @returns The endpoint configurations
+ * @throws When the file is missing or is not a JSON array
+ */
+export function readCustomRoutes(workspaceFolder: string, middlewareName: string): EndpointConfig[] {
+  const customRoutesPath = path.join(workspaceFolder, `${CONFIG_PREFIX}${middlewareName}`, 'files', 'customRoutes.json');
+  const routes = JSON.parse(fs.readFileSync(customRoutesPath, 'utf-8'));
+  if (!Array.isArray(routes)) {
+    throw new Error(`${customRoutesPath} is not an array of endpoints`);
+  }
+  return routes;
+}
+
+/**
+ * Check whether an endpoint has the panic fallback enabled (customRoutes.json `panic`)
+ * @param panic - The endpoint's panic setting (boolean, or a string such as "true")
+ * @returns True if panic is enabled
+ */
+export function isPanicEnabled(panic: boolean | string | undefined): boolean {
+  if (typeof panic === 'string') {
+    return panic.trim() !== '' && panic.trim().toLowerCase() !== 'false';
+  }
+  return panic === true;
+}
+
+/**
+ * Compute the Levenshtein (edit) distance between two strings
+ * @param a - The first string
+ * @param b - The second string
+ * @returns The minimum number of single-character insertions, deletions and substitutions
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Locate the definition line of each top-level key of a JSON document (the least indented occurrence)
+ * @param keys - The top-level keys of the parsed document
+ * @param content - The JSON text
+ * @returns Map of key to its 1-based line number (1 when the key is not found)
+ */
+export function findJsonKeyLines(keys: string[], content: string): Map<string, number> {
+  const lines = content.split('\n');
+  const keyLines = new Map<string, number>();
+
+  for (const key of keys) {
+    const escapedKey = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const keyPattern = new RegExp(`^(\\s*)"${escapedKey}"\\s*:`);
+    let bestLine = 1;
+    let bestIndent = Infinity;
+
+    lines.forEach((line, index) => {
+      const match = keyPattern.exec(line);
+      if (match && match[1].length < bestIndent) {
+        bestLine = index + 1;
+        bestIndent = match[1].length;
+      }
+    });
+    keyLines.set(key, bestLine);
+  }
+
+  return keyLines;
+}
+
+/**
+ * Find the `endpointUri` value of each endpoint in the text of a customRoutes.json
+ * @param content - The file content
+ * @param endpoints - The parsed endpoints
+ * @returns Start and end offsets of each value (with its quotes), by position of the endpoint in the array
+ */
+export function findEndpointUriOffsets(content: string, endpoints: EndpointConfig[]): Map<number, { start: number; end: number }> {
+  const offsets = new Map<number, { start: number; end: number }>();
+  const valuePattern = /"endpointUri"\s*:\s*("(?:[^"\\]|\\.)*")/g;
+  endpoints.forEach((endpoint, index) => {
+    if (typeof endpoint?.endpointUri !== 'string') {
+      return;
+    }
+    const match = valuePattern.exec(content);
+    if (match) {
+      const start = match.index + match[0].length - match[1].length;
+      offsets.set(index, { start, end: start + match[1].length });
+    }
+  });
+  return offsets;
+}
@@ -1,7 +1,7 @@
-import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { FeatureViewerManager } from '../services/feature-viewer-manager';
+import { resolveMiddlewareFilePath } from '../shared';
 import { AbstractPanel } from './abstract-panel';
 
 export class EndpointPanel extends AbstractPanel {
@@ -33,10 +33,8 @@ export class EndpointPanel extends AbstractPanel {
         this.panel?.webview.postMessage({ command: 'endpointConfig', content: endpointConfig });
       } else if (message.command === 'openMiddlewareFile') {
         try {
-          let fullPath = path.join(this.workspaceFolder, this.fullMiddlewareName, `${message.middlewarePath}.js`);
-          if (!fs.existsSync(fullPath)) {
-            fullPath = path.join(this.workspaceFolder, this.fullMiddlewareName, `${message.middlewarePath}/index.js`);
-          }
+          const fullPath = resolveMiddlewareFilePath(this.workspaceFolder, this.middlewareName, message.middlewarePath)
+            ?? path.join(this.workspaceFolder, this.fullMiddlewareName, `${message.middlewarePath}.js`);
           const doc = await vscode.workspace.openTextDocument(fullPath);
           await vscode.window.showTextDocument(doc, { viewColumn: vscode.ViewColumn.One, preview: true });
         } catch (error: any) {
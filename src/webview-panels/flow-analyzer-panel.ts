@@ -1,23 +1,47 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { FlowAnalysisSerializer } from '../analyzers/flow-analysis-serializer';
 import { FlowAnalyzer } from '../analyzers/flow-analyzer';
-import { EndpointConfig, FlowAnalysisResult } from '../models/flow-analyzer-types';
+import { FlowDiffAnalyzer } from '../analyzers/flow-diff-analyzer';
+import {
+  ComponentAnalysis,
+  EndpointConfig,
+  FlowAnalysisMode,
+  FlowAnalysisResult,
+  FlowDiff,
+  ImportedFlowAnalysis
+} from '../models/flow-analyzer-types';
+import { AnalysisFileWatcher } from '../services/analysis-file-watcher';
 import { EndpointSearchService } from '../services/endpoint-search-service';
+import { FlowAnalysisWorkerClient } from '../services/flow-analysis-worker-client';
+import { FlowComparisonService, RevisionAnalysis } from '../services/flow-comparison-service';
+import { FlowIssueDiagnostics } from '../services/flow-issue-diagnostics';
+import { isPanicEnabled, normalizePath, resolveMiddlewareFilePath } from '../shared';
 import { AbstractPanel } from './abstract-panel';
 
 export class FlowAnalyzerPanel extends AbstractPanel {
   private flowAnalyzer: FlowAnalyzer;
+  private analysisClient: FlowAnalysisWorkerClient;
+  private issueDiagnostics: FlowIssueDiagnostics;
+  private comparisonService: FlowComparisonService;
+  private comparison: (RevisionAnalysis & { ref: string }) | undefined;  // Flow at another git ref shown as a diff
+  private analysisGeneration = 0;  // Only the latest requested analysis is displayed
   private currentResult: FlowAnalysisResult | null = null;
   private currentEndpoint: EndpointConfig | null = null;  // Store current endpoint
+  private analysisMode: FlowAnalysisMode = 'normal';  // Normal (run) or panic path
+  private importedAnalysis: ImportedFlowAnalysis | undefined;  // Displayed instead of a live analysis until refreshed
   private webviewReady: boolean = false;  // Track if webview has loaded
   private expandedNodes: Set<string> = new Set();  // Track expanded component nodes
+  private fileWatcherSubscription: vscode.Disposable | undefined;
+  private configurationSubscription: vscode.Disposable | undefined;
   private static outputChannel: vscode.OutputChannel;
 
   constructor(
     workspaceFolder: string,
     middlewareName: string,
-    context: vscode.ExtensionContext
+    context: vscode.ExtensionContext,
+    private readonly fileWatcher?: AnalysisFileWatcher
   ) {
     super(workspaceFolder, middlewareName, context);
     
@@ -27,7 +51,17 @@ export class FlowAnalyzerPanel extends AbstractPanel {
     }
     this.log(`Constructor called with workspaceFolder: ${workspaceFolder}`);
     
+    // Analysis runs in a worker thread; the local analyzer only renders results
     this.flowAnalyzer = new FlowAnalyzer(workspaceFolder, middlewareName);
+
+    this.analysisClient = new FlowAnalysisWorkerClient(context.extensionPath, {
+      workspaceFolder,
+      middlewareName,
+      options: FlowAnalysisWorkerClient.getAnalyzerOptions(context)
+    });
+
+    this.issueDiagnostics = new FlowIssueDiagnostics(`agl-flow-${middlewareName}`);
+    this.comparisonService = new FlowComparisonService(workspaceFolder, middlewareName, context.extensionPath);
   }
 
   private log(message: string): void {
@@ -44,10 +78,62 @@ export class FlowAnalyzerPanel extends AbstractPanel {
     return 'flow-analyzer';
   }
 
+  /**
+   * Create the panel and start listening for source changes while it is open
+   */
+  public createPanel(): vscode.WebviewPanel {
+    const isNewPanel = !this.panel;
+    const panel = super.createPanel();
+
+    if (this.fileWatcher && !this.fileWatcherSubscription) {
+      this.fileWatcherSubscription = this.fileWatcher.onDidChangeFiles(paths => this.handleFilesChanged(paths));
+    }
+    if (!this.configurationSubscription) {
+      this.configurationSubscription = vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('aglEssentials.analyzablePackages')
+          || e.affectsConfiguration('aglEssentials.librarySources')) {
+          this.handleAnalyzerOptionsChanged();
+        }
+      });
+    }
+
+    if (isNewPanel) {
+      panel.onDidDispose(() => {
+        this.fileWatcherSubscription?.dispose();
+        this.fileWatcherSubscription = undefined;
+        this.configurationSubscription?.dispose();
+        this.configurationSubscription = undefined;
+        this.analysisClient.dispose();
+        this.comparisonService.dispose();
+        this.issueDiagnostics.dispose();
+      });
+    }
+
+    return panel;
+  }
+
+  /**
+   * @param featureArg The endpoint to analyze, or an imported analysis to display
+   */
   public initAction(featureArg: any): void {
     this.log('initAction called');
+    if (FlowAnalyzerPanel.isImportedAnalysis(featureArg)) {
+      this.importedAnalysis = featureArg;
+      this.comparison = undefined;
+      this.currentEndpoint = featureArg.result.endpoint;
+      this.analysisMode = featureArg.result.mode;
+      this.expandedNodes.clear();
+      if (this.webviewReady) {
+        this.displayImportedAnalysis();
+      }
+      return;
+    }
+
     const endpoint: EndpointConfig = featureArg;
     this.currentEndpoint = endpoint;
+    this.importedAnalysis = undefined;
+    this.comparison = undefined;
+    this.analysisMode = 'normal';
     this.expandedNodes.clear();  // Reset expansion state for new endpoint
     
     // If webview is already ready, start analysis immediately
@@ -59,50 +145,342 @@ export class FlowAnalyzerPanel extends AbstractPanel {
     }
   }
 
-  private analyzeAndDisplay(endpoint: EndpointConfig): void {
+  private static isImportedAnalysis(featureArg: any): featureArg is ImportedFlowAnalysis {
+    return !!featureArg?.result?.endpoint && Array.isArray(featureArg.result.middlewares);
+  }
+
+  /**
+   * Show an imported analysis as it was saved (not re-analyzed; file changes are ignored until refreshed)
+   */
+  private displayImportedAnalysis(): void {
+    if (!this.importedAnalysis) {
+      return;
+    }
+    const { result, filePath } = this.importedAnalysis;
+    this.log(`Displaying imported analysis${filePath ? ` from ${filePath}` : ''}`);
+    this.analysisGeneration++;  // Drop the result of an analysis still running
+    this.currentResult = result;
+    this.issueDiagnostics.clear();
+    this.panel?.webview.postMessage({
+      command: 'analysisResult',
+      content: this.buildResultContent(result.endpoint, result)
+    });
+  }
+
+  /**
+   * Save the displayed analysis in the versioned JSON export format
+   */
+  private async exportAnalysis(): Promise<void> {
+    if (!this.currentResult || !this.currentEndpoint) {
+      vscode.window.showWarningMessage('There is no analysis to export yet.');
+      return;
+    }
+
+    const { method, endpointUri } = this.currentEndpoint;
+    const fileName = `${method.toLowerCase()}-${endpointUri.replace(/^\/+/, '').replace(/[^\w.-]+/g, '_')}.flow.json`;
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(path.join(this.workspaceFolder, fileName)),
+      filters: { 'Flow Analysis': ['json'] },
+      saveLabel: 'Export Analysis'
+    });
+    if (!uri) {
+      return;
+    }
+
+    try {
+      const exported = new FlowAnalysisSerializer(this.workspaceFolder).serialize(this.currentResult, this.middlewareName);
+      fs.writeFileSync(uri.fsPath, JSON.stringify(exported, null, 2));
+      vscode.window.showInformationMessage(`Flow analysis exported to ${path.basename(uri.fsPath)}`);
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to export flow analysis: ${error.message}`);
+    }
+  }
+
+  private async analyzeAndDisplay(endpoint: EndpointConfig): Promise<void> {
     this.log(`analyzeAndDisplay called for endpoint: ${endpoint.endpointUri}`);
+    this.importedAnalysis = undefined;
     this.log(`Middleware chain: ${JSON.stringify(endpoint.middleware)}`);
     
     // Perform analysis
     this.log('Starting flow analysis...');
-    this.currentResult = this.flowAnalyzer.analyze(endpoint);
+    const analysisResult = await this.runAnalysis(endpoint, vscode.ProgressLocation.Notification);
+    if (!analysisResult) {
+      return;
+    }
+    this.currentResult = analysisResult;
+    this.issueDiagnostics.publish(analysisResult);
     this.log('Flow analysis complete');
 
+    // Send to webview
+    this.log('Sending results to webview...');
+    this.log(`Panel exists: ${!!this.panel}, webview exists: ${!!this.panel?.webview}`);
+    const result = this.panel?.webview.postMessage({
+      command: 'analysisResult',
+      content: this.buildResultContent(endpoint, this.currentResult)
+    });
+    this.log(`postMessage result: ${result}`);
+  }
+
+  /**
+   * Run the analysis in the worker, reporting middleware-by-middleware progress
+   * @returns The result, or undefined when cancelled, failed or superseded by a newer analysis
+   */
+  private async runAnalysis(
+    endpoint: EndpointConfig,
+    location: vscode.ProgressLocation
+  ): Promise<FlowAnalysisResult | undefined> {
+    const generation = ++this.analysisGeneration;
+    const mode = this.analysisMode;
+
+    try {
+      const analysisResult = await vscode.window.withProgress(
+        {
+          location,
+          title: mode === 'panic' ? `Analyzing panic path of ${endpoint.endpointUri}` : `Analyzing ${endpoint.endpointUri}`,
+          cancellable: location === vscode.ProgressLocation.Notification
+        },
+        (progress, token) => this.analysisClient.analyze(
+          endpoint,
+          ({ middlewarePath, index, total }) => {
+            progress.report({
+              message: `${middlewarePath} (${index + 1}/${total})`,
+              increment: 100 / total
+            });
+          },
+          token,
+          mode
+        )
+      );
+
+      if (!analysisResult) {
+        this.log('Flow analysis cancelled');
+        this.panel?.webview.postMessage({ command: 'analysisCancelled' });
+      }
+      return generation === this.analysisGeneration ? analysisResult : undefined;
+    } catch (error: any) {
+      this.log(`Flow analysis failed: ${error.message}`);
+      vscode.window.showErrorMessage(`Flow analysis failed: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Build the webview payload for an analysis result
+   */
+  private buildResultContent(endpoint: EndpointConfig, analysisResult: FlowAnalysisResult): any {
+    // When compared with another ref, the diagram and trees show the merged result
+    const { displayed, diff } = this.getComparisonView(analysisResult);
+
     // Generate Mermaid diagram with current expansion state
     this.log('Generating Mermaid diagram...');
-    const { diagram: mermaidDiagram, externalCallsMap } = this.flowAnalyzer.generateMermaidDiagram(this.currentResult, this.expandedNodes);
-    const dataFlowSummary = this.flowAnalyzer.generateDataFlowSummary(this.currentResult);
-    const componentTree = this.flowAnalyzer.generateComponentTree(this.currentResult.middlewares);
+    const { diagram: mermaidDiagram, externalCallsMap } = this.flowAnalyzer.generateMermaidDiagram(displayed, this.expandedNodes);
+    const dataFlowSummary = this.flowAnalyzer.generateDataFlowSummary(analysisResult);
+    const componentTree = this.flowAnalyzer.generateComponentTree(displayed.middlewares);
     this.log('Mermaid diagram generated');
 
     // Convert externalCallsMap to array for JSON serialization
     const externalCallsMapArray = Array.from(externalCallsMap.entries());
 
-    // Send to webview
-    this.log('Sending results to webview...');
-    this.log(`Panel exists: ${!!this.panel}, webview exists: ${!!this.panel?.webview}`);
-    const result = this.panel?.webview.postMessage({
-      command: 'analysisResult',
-      content: {
-        endpoint,
-        middlewares: this.serializeMiddlewares(this.currentResult.middlewares),
-        mermaidDiagram,
-        dataFlowSummary,
-        componentTree,
-        componentDataFlow: this.currentResult.componentDataFlow,
-        expandedNodes: Array.from(this.expandedNodes),  // Send expansion state to webview
-        externalCallsMap: externalCallsMapArray,  // Send extId -> call mapping for click navigation
-        allProperties: Array.from(this.currentResult.allResLocalsProperties.entries()).map(([key, value]) => ({
-          property: key,
-          ...value
-        })),
-        allReqTransactionProperties: Array.from(this.currentResult.allReqTransactionProperties.entries()).map(([key, value]) => ({
-          property: key,
-          ...value
-        }))
+    return {
+      endpoint,
+      mode: analysisResult.mode,
+      panicEnabled: isPanicEnabled(endpoint.panic),
+      panicConfig: analysisResult.panicConfig,
+      middlewares: this.serializeMiddlewares(displayed.middlewares),
+      mermaidDiagram,
+      dataFlowSummary,
+      componentTree,
+      componentDataFlow: analysisResult.componentDataFlow,
+      dataIssues: analysisResult.dataIssues,
+      configIssues: analysisResult.configIssues,
+      externalCallIcons: analysisResult.externalCallIcons,
+      templateDefinitions: analysisResult.templateDefinitions,
+      libraries: analysisResult.libraries,
+      imported: this.importedAnalysis
+        ? { filePath: this.importedAnalysis.filePath, exportedAt: this.importedAnalysis.exportedAt }
+        : undefined,
+      comparison: diff,
+      expandedNodes: Array.from(this.expandedNodes),  // Send expansion state to webview
+      externalCallsMap: externalCallsMapArray,  // Send extId -> call mapping for click navigation
+      allProperties: Array.from(analysisResult.allResLocalsProperties.entries()).map(([key, value]) => ({
+        property: key,
+        ...value
+      })),
+      allReqTransactionProperties: Array.from(analysisResult.allReqTransactionProperties.entries()).map(([key, value]) => ({
+        property: key,
+        ...value
+      }))
+    };
+  }
+
+  /**
+   * The result to render (merged with the compared ref's result) and the diff, when comparing
+   */
+  private getComparisonView(analysisResult: FlowAnalysisResult): { displayed: FlowAnalysisResult; diff?: FlowDiff } {
+    if (!this.comparison) {
+      return { displayed: analysisResult };
+    }
+
+    const diffAnalyzer = new FlowDiffAnalyzer(this.workspaceFolder);
+    const entries = diffAnalyzer.compare(this.comparison.result, analysisResult);
+    return {
+      displayed: diffAnalyzer.merge(this.comparison.result, analysisResult, entries),
+      diff: {
+        ref: this.comparison.ref,
+        entries,
+        skippedRepositories: this.comparison.skippedRepositories.map(repo => path.relative(this.workspaceFolder, repo) || '.'),
+        routeMissing: this.comparison.routeMissing
+      }
+    };
+  }
+
+  /**
+   * Analyze the displayed endpoint at another git ref and show the differences
+   */
+  private async compareWithRef(): Promise<void> {
+    const endpoint = this.currentEndpoint;
+    if (!endpoint || !this.currentResult || this.importedAnalysis) {
+      vscode.window.showWarningMessage('Analyze the current code of the endpoint before comparing it with another revision.');
+      return;
+    }
+
+    const ref = await this.pickRef(endpoint);
+    if (!ref) {
+      return;
+    }
+
+    const mode = this.analysisMode;
+    try {
+      const analysis = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Analyzing ${endpoint.endpointUri} at ${ref}`, cancellable: true },
+        (progress, token) => {
+          progress.report({ message: 'reading the files with git' });
+          return this.comparisonService.analyzeAtRef(
+            endpoint,
+            ref,
+            mode,
+            FlowAnalysisWorkerClient.getAnalyzerOptions(this.context),
+            ({ middlewarePath, index, total }) => {
+              progress.report({ message: `${middlewarePath} (${index + 1}/${total})`, increment: 100 / total });
+            },
+            token
+          );
+        }
+      );
+      // Dropped when another endpoint or mode was selected meanwhile
+      if (!analysis || !this.currentResult || endpoint !== this.currentEndpoint || mode !== this.analysisMode || this.importedAnalysis) {
+        return;
       }
+
+      this.log(`Comparing ${endpoint.endpointUri} with ${ref}`);
+      this.comparison = { ref, ...analysis };
+      const { displayed } = this.getComparisonView(this.currentResult);
+      this.flowAnalyzer.getChangedAncestorNodeIds(displayed).forEach(nodeId => this.expandedNodes.add(nodeId));
+      this.panel?.webview.postMessage({
+        command: 'analysisResult',
+        content: this.buildResultContent(endpoint, this.currentResult)
+      });
+    } catch (error: any) {
+      this.log(`Comparison with ${ref} failed: ${error.message}`);
+      vscode.window.showErrorMessage(`Comparison with ${ref} failed: ${error.message}`);
+    }
+  }
+
+  private async pickRef(endpoint: EndpointConfig): Promise<string | undefined> {
+    const { branches, tags } = await this.comparisonService.listRefs();
+    const enterRef = '$(edit) Enter a commit, branch or tag…';
+    const items: vscode.QuickPickItem[] = [
+      { label: enterRef, alwaysShow: true },
+      { label: 'Branches', kind: vscode.QuickPickItemKind.Separator },
+      ...branches.map(label => ({ label })),
+      { label: 'Tags', kind: vscode.QuickPickItemKind.Separator },
+      ...tags.map(label => ({ label }))
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: `Compare ${endpoint.method.toUpperCase()} ${endpoint.endpointUri} with its flow at`
+    });
+    if (picked?.label !== enterRef) {
+      return picked?.label;
+    }
+    const ref = await vscode.window.showInputBox({
+      prompt: 'Git ref to compare the flow with',
+      placeHolder: 'e.g. HEAD~3, v2.4.0, a1b2c3d'
+    });
+    return ref?.trim() || undefined;
+  }
+
+  private clearComparison(): void {
+    if (!this.comparison || !this.currentResult || !this.currentEndpoint) {
+      return;
+    }
+    this.comparison = undefined;
+    this.panel?.webview.postMessage({
+      command: 'analysisResult',
+      content: this.buildResultContent(this.currentEndpoint, this.currentResult)
     });
-    this.log(`postMessage result: ${result}`);
+  }
+
+  /**
+   * Restart the worker with the new settings and re-analyze the displayed endpoint
+   */
+  private handleAnalyzerOptionsChanged(): void {
+    this.analysisClient.setOptions(FlowAnalysisWorkerClient.getAnalyzerOptions(this.context));
+    if (this.currentEndpoint && this.webviewReady && !this.importedAnalysis) {
+      this.analyzeAndDisplay(this.currentEndpoint);
+    }
+  }
+
+  /**
+   * Re-analyze incrementally when files used by the current endpoint change.
+   * Only the changed components and their ancestors are re-parsed; the rest comes from cache.
+   */
+  private async handleFilesChanged(changedPaths: string[]): Promise<void> {
+    const invalidated = await this.analysisClient.invalidate(changedPaths);
+    if (!this.currentResult || !this.currentEndpoint || !this.webviewReady || this.importedAnalysis) {
+      return;
+    }
+
+    const resultPaths = this.collectResultFilePaths(this.currentResult);
+    const isAffected = invalidated.some(p => resultPaths.has(p))
+      || changedPaths.some(p => resultPaths.has(normalizePath(p)));
+    if (!isAffected) {
+      return;
+    }
+
+    const endpoint = this.currentEndpoint;
+    this.log(`Source changed, re-analyzing ${endpoint.endpointUri} (${invalidated.length} component(s) invalidated)`);
+    const analysisResult = await this.runAnalysis(endpoint, vscode.ProgressLocation.Window);
+    if (!analysisResult) {
+      return;
+    }
+    this.currentResult = analysisResult;
+    this.issueDiagnostics.publish(analysisResult);
+
+    // Push as a diagram update so the webview keeps its pan/zoom position
+    this.panel?.webview.postMessage({
+      command: 'diagramUpdate',
+      content: this.buildResultContent(endpoint, this.currentResult)
+    });
+  }
+
+  /**
+   * Collect the file paths of all middlewares and components in a result
+   */
+  private collectResultFilePaths(analysisResult: FlowAnalysisResult): Set<string> {
+    const paths = new Set<string>();
+    const collect = (components: ComponentAnalysis[]) => {
+      for (const comp of components) {
+        paths.add(normalizePath(comp.filePath));
+        collect(comp.children);
+      }
+    };
+
+    for (const mw of analysisResult.middlewares) {
+      paths.add(normalizePath(mw.filePath));
+      collect(mw.components);
+    }
+    return paths;
   }
 
   /**
@@ -111,7 +489,8 @@ export class FlowAnalyzerPanel extends AbstractPanel {
   private regenerateDiagram(): void {
     if (!this.currentResult) return;
     
-    const { diagram: mermaidDiagram, externalCallsMap } = this.flowAnalyzer.generateMermaidDiagram(this.currentResult, this.expandedNodes);
+    const { displayed } = this.getComparisonView(this.currentResult);
+    const { diagram: mermaidDiagram, externalCallsMap } = this.flowAnalyzer.generateMermaidDiagram(displayed, this.expandedNodes);
     
     // Convert externalCallsMap to array for JSON serialization
     const externalCallsMapArray = Array.from(externalCallsMap.entries());
@@ -144,6 +523,8 @@ export class FlowAnalyzerPanel extends AbstractPanel {
       internalDeps: mw.internalDeps,
       runFunctionLine: mw.runFunctionLine,
       panicFunctionLine: mw.panicFunctionLine,
+      entryFunctionMissing: mw.entryFunctionMissing,
+      diffChange: mw.diffChange,
       components: this.serializeComponents(mw.components),
       allResLocalsReads: mw.allResLocalsReads,
       allResLocalsWrites: mw.allResLocalsWrites,
@@ -176,6 +557,10 @@ export class FlowAnalyzerPanel extends AbstractPanel {
         configDeps: comp.configDeps,
         exportedFunctions: comp.exportedFunctions,
         mainFunctionLine: comp.mainFunctionLine,
+        calledFunctions: comp.calledFunctions,
+        isUnresolved: comp.isUnresolved,
+        requireLine: comp.requireLine,
+        diffChange: comp.diffChange,
         children: this.serializeComponents(comp.children, depth + 1)
       };
     });
@@ -188,6 +573,10 @@ export class FlowAnalyzerPanel extends AbstractPanel {
         case 'webviewLoaded':
           this.log('webviewLoaded received');
           this.webviewReady = true;
+          if (this.importedAnalysis) {
+            this.displayImportedAnalysis();
+            break;
+          }
           // Use currentEndpoint if available, otherwise fall back to featureArg
           const endpoint = this.currentEndpoint || featureArg;
           if (endpoint) {
@@ -215,6 +604,15 @@ export class FlowAnalyzerPanel extends AbstractPanel {
           }
           break;
 
+        case 'setAnalysisMode':
+          if (this.currentEndpoint && message.mode !== this.analysisMode) {
+            this.analysisMode = message.mode;
+            this.comparison = undefined;  // Compared in the other mode
+            this.expandedNodes.clear();
+            this.analyzeAndDisplay(this.currentEndpoint);
+          }
+          break;
+
         case 'toggleComponentExpansion':
           // Toggle expansion state for a component node
           const nodeId = message.nodeId;
@@ -270,6 +668,18 @@ export class FlowAnalyzerPanel extends AbstractPanel {
         case 'searchInEndpoint':
           await this.searchInEndpoint(message.searchQuery);
           break;
+
+        case 'exportAnalysis':
+          await this.exportAnalysis();
+          break;
+
+        case 'compareWithRef':
+          await this.compareWithRef();
+          break;
+
+        case 'clearComparison':
+          this.clearComparison();
+          break;
       }
     };
   }
@@ -289,12 +699,8 @@ export class FlowAnalyzerPanel extends AbstractPanel {
 
   private async openMiddlewareFile(middlewarePath: string, lineNumber?: number): Promise<void> {
     try {
-      let fullPath = path.join(this.workspaceFolder, this.fullMiddlewareName, `${middlewarePath}.js`);
-      if (!fs.existsSync(fullPath)) {
-        fullPath = path.join(this.workspaceFolder, this.fullMiddlewareName, `${middlewarePath}/index.js`);
-      }
-
-      if (!fs.existsSync(fullPath)) {
+      const fullPath = resolveMiddlewareFilePath(this.workspaceFolder, this.middlewareName, middlewarePath);
+      if (!fullPath) {
         vscode.window.showErrorMessage(`Middleware file not found: ${middlewarePath}`);
         return;
       }
@@ -307,6 +713,8 @@ export class FlowAnalyzerPanel extends AbstractPanel {
 
   private async openFile(filePath: string, lineNumber?: number): Promise<void> {
     try {
+      // Files removed since the compared ref are opened from its tree
+      filePath = fs.existsSync(filePath) ? filePath : this.comparisonService.getRevisionPath(filePath) ?? filePath;
       if (!fs.existsSync(filePath)) {
         vscode.window.showErrorMessage(`File not found: ${filePath}`);
         return;
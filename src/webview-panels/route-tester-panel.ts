@@ -0,0 +1,153 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { RouteMatcher } from '../analyzers/route-matcher';
+import { EndpointConfig, RouteMatch } from '../models/flow-analyzer-types';
+import { FeatureViewerManager } from '../services/feature-viewer-manager';
+import { CONFIG_PREFIX, MIDDLEWARE_ORDER, findEndpointUriOffsets, readCustomRoutes } from '../shared';
+import { AbstractPanel } from './abstract-panel';
+
+/** Middleware name of the Route Tester panel, which tests the routes of every middleware */
+export const ROUTE_TESTER_SCOPE = 'workspace';
+
+/**
+ * Request to test, e.g. given to the aglEssentials.testRoute command
+ */
+export interface RouteTestRequest {
+  url?: string;
+  method?: string;
+  middlewareName?: string;   // Only test this middleware's routes
+}
+
+/**
+ * Routes of one middleware matching the tested request
+ */
+interface MiddlewareRouteMatches {
+  middlewareName: string;
+  matches: RouteMatch[];   // In declaration order: the first one handles the request
+  error?: string;          // customRoutes.json could not be read
+}
+
+/**
+ * Route Tester - shows which customRoutes.json entry handles a request
+ *
+ * The request path is matched against the routes of each middleware with Express rules (see RouteMatcher),
+ * so the panel lists every matching route in declaration order, with its path parameters and middleware chain.
+ */
+export class RouteTesterPanel extends AbstractPanel {
+  constructor(
+    workspaceFolder: string,
+    context: vscode.ExtensionContext,
+    private featureViewerManager: FeatureViewerManager
+  ) {
+    super(workspaceFolder, ROUTE_TESTER_SCOPE, context);
+  }
+
+  public get title(): string {
+    return 'Route Tester';
+  }
+  public get featureName(): string {
+    return 'route-tester';
+  }
+
+  public initAction(featureArg: any): void {
+    this.postInit(featureArg);
+  }
+
+  protected getMessageHandler(featureArg: any): (msg: any) => void {
+    return async (message: any) => {
+      if (message.command === 'webviewLoaded') {
+        this.postInit(featureArg);
+      } else if (message.command === 'testRoute') {
+        this.panel?.webview.postMessage({
+          command: 'routeMatches',
+          method: message.method,
+          path: this.getRequestPath(message.url),
+          results: this.testRoute(message.method, message.url, message.middlewareName)
+        });
+      } else if (message.command === 'analyzeFlow') {
+        this.featureViewerManager.openFeatureViewer('flow-analyzer', message.endpoint, message.middlewareName);
+      } else if (message.command === 'openEndpointViewer') {
+        this.featureViewerManager.openFeatureViewer('endpoint-viewer', message.endpoint, message.middlewareName);
+      } else if (message.command === 'openRoute') {
+        await this.openRoute(message.middlewareName, message.index);
+      }
+    };
+  }
+
+  private postInit(request: RouteTestRequest | undefined): void {
+    this.panel?.webview.postMessage({
+      command: 'init',
+      middlewares: this.findRoutedMiddlewares(),
+      request: request ?? {}
+    });
+  }
+
+  /**
+   * Middlewares with a customRoutes.json, in the preferred middleware order
+   */
+  private findRoutedMiddlewares(): string[] {
+    let names: string[];
+    try {
+      names = fs.readdirSync(this.workspaceFolder, { withFileTypes: true })
+        .filter(entry => entry.isDirectory() && entry.name.startsWith(CONFIG_PREFIX))
+        .map(entry => entry.name.slice(CONFIG_PREFIX.length))
+        .filter(name => fs.existsSync(this.getCustomRoutesPath(name)))
+        .sort();
+    } catch {
+      return [];
+    }
+    const rank = (name: string) => {
+      const position = (MIDDLEWARE_ORDER as readonly string[]).indexOf(name);
+      return position === -1 ? MIDDLEWARE_ORDER.length : position;
+    };
+    return names.sort((a, b) => rank(a) - rank(b));
+  }
+
+  /**
+   * Path of a pasted URL, which may be a full URL or only a path (with or without a query string)
+   */
+  private getRequestPath(url: string): string {
+    const trimmed = (url ?? '').trim();
+    const hasScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed);
+    try {
+      return new URL(hasScheme || trimmed.startsWith('/') ? trimmed : `/${trimmed}`, 'http://localhost').pathname;
+    } catch {
+      return trimmed.split(/[?#]/)[0] || '/';
+    }
+  }
+
+  private testRoute(method: string, url: string, middlewareName?: string): MiddlewareRouteMatches[] {
+    const requestPath = this.getRequestPath(url);
+    const middlewareNames = middlewareName ? [middlewareName] : this.findRoutedMiddlewares();
+    return middlewareNames.map(name => {
+      try {
+        const matches = new RouteMatcher(readCustomRoutes(this.workspaceFolder, name)).match(method || 'get', requestPath);
+        return { middlewareName: name, matches };
+      } catch (error: any) {
+        return { middlewareName: name, matches: [], error: `Failed to read customRoutes.json: ${error.message}` };
+      }
+    });
+  }
+
+  /**
+   * Open customRoutes.json at the `endpointUri` of a route
+   */
+  private async openRoute(middlewareName: string, index: number): Promise<void> {
+    try {
+      const document = await vscode.workspace.openTextDocument(this.getCustomRoutesPath(middlewareName));
+      const content = document.getText();
+      const offsets = findEndpointUriOffsets(content, JSON.parse(content) as EndpointConfig[]).get(index);
+      const selection = offsets
+        ? new vscode.Range(document.positionAt(offsets.start), document.positionAt(offsets.end))
+        : undefined;
+      await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.One, preview: true, selection });
+    } catch (error: any) {
+      this.panel?.webview.postMessage({ command: 'error', message: `Failed to open the route: ${error.message}` });
+    }
+  }
+
+  private getCustomRoutesPath(middlewareName: string): string {
+    return path.join(this.workspaceFolder, `${CONFIG_PREFIX}${middlewareName}`, 'files', 'customRoutes.json');
+  }
+}